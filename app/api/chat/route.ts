@@ -1,5 +1,6 @@
 import { openai } from '@ai-sdk/openai';
 import { streamText } from 'ai';
+import { getProviderForModel } from '@/lib/providers';
 
 export const runtime = 'edge';
 export const maxDuration = 30;
@@ -15,38 +16,10 @@ export async function POST(req: Request) {
       );
     }
 
-    // Determine provider based on model ID
-    let provider: 'openai' | 'anthropic' | 'gemini';
-    let apiModel: string;
-
-    // Map the model ID to the provider and specific API model
-    if (model === 'gpt-4o' || model === 'gpt-4o-mini' || model === 'gpt-45-preview') {
-      provider = 'openai';
-      // Map the model ID to the specific OpenAI API model name
-      switch (model) {
-        case 'gpt-4o':
-          apiModel = 'gpt-4o';
-          break;
-        case 'gpt-4o-mini':
-          apiModel = 'gpt-4o-mini';
-          break;
-        case 'gpt-45-preview':
-          apiModel = 'gpt-4.5-preview';
-          break;
-        default:
-          apiModel = 'gpt-4o';
-      }
-    } else if (model === 'claude-3-sonnet' || model === 'claude-3-sonnet-reasoning') {
-      provider = 'anthropic';
-      apiModel = 'claude-3-sonnet-20240229';
-    } else if (model === 'gemini-flash-2') {
-      provider = 'gemini';
-      apiModel = 'gemini-1.5-flash';
-    } else {
-      // Default to OpenAI GPT-4o for any unrecognized models
-      provider = 'openai';
-      apiModel = 'gpt-4o';
-    }
+    // Determine provider and API model from the shared provider registry
+    const adapter = getProviderForModel(model || 'gpt-4o');
+    const provider = adapter.id;
+    const apiModel = adapter.resolveModel(model || 'gpt-4o');
 
     // Check API key based on provider
     if (provider === 'openai' && !apiKey) {
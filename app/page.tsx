@@ -1,6 +1,6 @@
 'use client';
 
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { useChat } from 'ai/react';
 import { Card } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
@@ -8,11 +8,11 @@ import { ChatPanel } from '@/components/chat/chat-panel';
 import { ChatMessage } from '@/components/chat/chat-message';
 import { ChatList } from '@/components/chat/chat-list';
 import { Button } from '@/components/ui/button';
-import { Moon, Sun, PanelLeftClose, PanelLeftOpen, Settings, LogOut, Key, Sliders, User, Pin, Loader2 } from 'lucide-react';
+import { Moon, Sun, PanelLeftClose, PanelLeftOpen, Settings, LogOut, Key, Sliders, User, Pin, Loader2, GitFork, BarChart3 } from 'lucide-react';
 import { useTheme } from 'next-themes';
 import { useChatStore } from '@/hooks/use-chat-store';
 import { useProfileStore } from '@/hooks/use-profile-store';
-import { AIModel } from '@/lib/types';
+import { AIModel, Message } from '@/lib/types';
 import { cn } from '@/lib/utils';
 import { toast } from "sonner";
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
@@ -26,6 +26,12 @@ import {
 import { ApiKeysDialog } from '@/components/settings/api-keys-dialog';
 import { SettingsDialog } from '@/components/settings/settings-dialog';
 import { ModelSettingsDialog } from '@/components/settings/model-settings-dialog';
+import { UsageDashboardDialog } from '@/components/settings/usage-dashboard-dialog';
+import { KeyVaultDialog } from '@/components/settings/key-vault-dialog';
+import { SummaryBoundary } from '@/components/chat/summary-boundary';
+import { DatabaseRecovery } from '@/components/chat/database-recovery';
+import { VirtualMessageList, VirtualMessageListHandle } from '@/components/chat/virtual-message-list';
+import { SiblingInfo, getActivePath, getSiblingMap } from '@/lib/message-tree';
 import { PinnedMessagesDialog } from '@/components/chat/pinned-messages-dialog';
 
 // Demo message content for testing UI without API
@@ -38,8 +44,12 @@ In a real implementation, this would be replaced with actual AI-generated conten
 * Message persistence
 * UI layout verification`;
 
+// Label of the separators between messages from different days
+const DATE_SEPARATOR_FORMAT = new Intl.DateTimeFormat('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+
 export default function Home() {
   const chatContainerRef = useRef<HTMLDivElement>(null);
+  const messageListRef = useRef<VirtualMessageListHandle>(null);
   const { setTheme, theme } = useTheme();
   const [sidebarOpen, setSidebarOpen] = useState(true);
 
@@ -49,10 +59,15 @@ export default function Home() {
   const [settingsDialogOpen, setSettingsDialogOpen] = useState(false);
   const [modelSettingsDialogOpen, setModelSettingsDialogOpen] = useState(false);
   const [pinnedMessagesDialogOpen, setPinnedMessagesDialogOpen] = useState(false);
+  const [usageDialogOpen, setUsageDialogOpen] = useState(false);
   const [showPinnedMessages, setShowPinnedMessages] = useState(false);
   const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
   const [editingContent, setEditingContent] = useState<string>('');
   const [profilePhotoLink, setProfilePhotoLink] = useState<string>('');
+  const [jumpTargetId, setJumpTargetId] = useState<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  // Pinned messages of the current chat, also those on pages that aren't loaded
+  const [pinnedMessages, setPinnedMessages] = useState<Message[]>([]);
 
   const {
     chats,
@@ -61,11 +76,16 @@ export default function Home() {
     currentChatId,
     setCurrentChatId,
     createChat,
+    forkChat,
     createFolder,
     deleteChat,
     deleteFolder,
     addMessage,
-    updateMessage,
+    sendMessage,
+    regenerateMessage,
+    sendOverBudget,
+    editAndResendMessage,
+    selectMessageBranch,
     changeModel,
     searchChats,
     updateChat,
@@ -75,10 +95,16 @@ export default function Home() {
     togglePinMessage,
     isGenerating,
     stopGenerating,
-    isLoaded
+    isLoaded,
+    databaseError,
+    hasMoreMessages,
+    isLoadingMessages,
+    loadOlderMessages,
+    getPinnedMessages
   } = useChatStore();
 
   const {
+    profiles,
     currentProfile
   } = useProfileStore();
 
@@ -106,11 +132,16 @@ export default function Home() {
     },
   });
 
+  // Siblings of each message for the branch navigation, rebuilt when the messages change
+  const siblingMap = useMemo(() => getSiblingMap(currentChat?.messages || []), [currentChat?.messages]);
+  const getSiblings = (messageId: string): SiblingInfo =>
+    siblingMap.get(messageId) || { siblings: [], index: 0, count: 0 };
+
   // Sync local messages with the chat store when current chat changes
   useEffect(() => {
     if (currentChat) {
-      // Ensure we have a valid messages array
-      const validMessages = Array.isArray(currentChat.messages) ? currentChat.messages : [];
+      // Show the conversation along the selected branches
+      const validMessages = Array.isArray(currentChat.messages) ? getActivePath(currentChat) : [];
       const messagesChanged = JSON.stringify(validMessages) !== JSON.stringify(messages);
 
       if (messagesChanged) {
@@ -123,16 +154,46 @@ export default function Home() {
     }
   }, [currentChatId, currentChat]);
 
-  // Always scroll to bottom when messages change
+  // Read the pinned messages again when pins or loaded messages change
   useEffect(() => {
-    if (chatContainerRef.current) {
-      requestAnimationFrame(() => {
-        if (chatContainerRef.current) {
-          chatContainerRef.current.scrollTop = chatContainerRef.current.scrollHeight;
-        }
-      });
+    if (!currentChat) {
+      setPinnedMessages([]);
+      return;
+    }
+
+    let cancelled = false;
+    getPinnedMessages(currentChat.id)
+      .then(messages => {
+        if (!cancelled) setPinnedMessages(messages);
+      })
+      .catch(error => console.error('Error loading pinned messages:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [currentChat, getPinnedMessages]);
+
+  // Jump to the requested message once it's part of the shown conversation
+  useEffect(() => {
+    if (jumpTargetId && messageListRef.current?.scrollToMessage(jumpTargetId)) {
+      setHighlightedMessageId(jumpTargetId);
+      setJumpTargetId(null);
+    }
+  }, [jumpTargetId, uiMessages]);
+
+  // Fade out the highlight of a message jumped to
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+
+    const timeoutId = setTimeout(() => setHighlightedMessageId(null), 2000);
+    return () => clearTimeout(timeoutId);
+  }, [highlightedMessageId]);
+
+  // Load earlier messages when scrolled to the top
+  const handleMessagesScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    if (e.currentTarget.scrollTop < 100 && hasMoreMessages && !isLoadingMessages && !showPinnedMessages) {
+      loadOlderMessages();
     }
-  }, [uiMessages]);
+  };
 
   // Listen for edit message events
   useEffect(() => {
@@ -153,33 +214,19 @@ export default function Home() {
   const handleSendMessage = (content: string) => {
     if (!currentChat || !content.trim()) return;
 
-    // If we're editing a message
+    // If we're editing a message, resend the edit as a new branch
     if (editingMessageId) {
-      // Update the message in the store
-      updateMessage(currentChat.id, editingMessageId, content);
-
-      // Update UI messages
-      setUiMessages(prev => prev.map(msg =>
-        msg.id === editingMessageId ? { ...msg, content } : msg
-      ));
+      editAndResendMessage(currentChat.id, editingMessageId, content);
 
       // Reset editing state
       setEditingMessageId(null);
       setEditingContent('');
-
-      toast.success('Message updated');
       return;
     }
 
     // Add user message to chat history in store
-    // The AI response will be automatically generated by the enhanced chat store
-    addMessage(currentChat.id, {
-      content,
-      role: 'user',
-    });
-
-    // Note: We don't need to manually add assistant messages anymore as they're
-    // handled by the generateAIResponse function in the chat store
+    // The AI response is generated by the chat store
+    sendMessage(currentChat.id, content);
   };
 
   // Handle creating a new chat
@@ -211,6 +258,41 @@ export default function Home() {
     }
   };
 
+  // Generate another reply in place of an assistant message
+  const handleRegenerate = (messageId: string) => {
+    if (currentChat) {
+      regenerateMessage(currentChat.id, messageId);
+    }
+  };
+
+  // Send a request that was blocked by a budget anyway
+  const handleSendOverBudget = (messageId: string) => {
+    if (currentChat) {
+      sendOverBudget(currentChat.id, messageId);
+    }
+  };
+
+  // Continue the conversation up to a message in a new chat
+  const handleForkChat = async (messageId: string) => {
+    if (!currentChat) return;
+
+    const fork = await forkChat(currentChat.id, messageId);
+    if (fork) {
+      toast.success('Conversation forked into a new chat');
+    }
+  };
+
+  // Switch to the previous or next alternative of a message
+  const handleSelectSibling = (messageId: string, direction: -1 | 1) => {
+    if (!currentChat) return;
+
+    const { siblings, index } = getSiblings(messageId);
+    const sibling = siblings[index + direction];
+    if (sibling) {
+      selectMessageBranch(currentChat.id, sibling.id);
+    }
+  };
+
   // Cancel message editing
   const handleCancelEdit = () => {
     setEditingMessageId(null);
@@ -249,6 +331,11 @@ export default function Home() {
     setModelSettingsDialogOpen(true);
   };
 
+  // Handle usage dashboard click
+  const handleOpenUsage = () => {
+    setUsageDialogOpen(true);
+  };
+
   // Handle sign out click
   const handleSignOut = () => {
     toast.info("Sign out functionality would be implemented here");
@@ -259,6 +346,22 @@ export default function Home() {
     setPinnedMessagesDialogOpen(true);
   };
 
+  // Jump to a message, loading older pages and switching to its branch if it isn't shown
+  const handleJumpToMessage = async (messageId: string) => {
+    if (!currentChat) return;
+
+    setPinnedMessagesDialogOpen(false);
+    setShowPinnedMessages(false);
+    if (!uiMessages.some(msg => msg.id === messageId)) {
+      const found = await selectMessageBranch(currentChat.id, messageId);
+      if (!found) {
+        toast.error('This message could not be found');
+        return;
+      }
+    }
+    setJumpTargetId(messageId);
+  };
+
   // Toggle showing pinned messages in-line
   const togglePinnedMessagesView = () => {
     setShowPinnedMessages(!showPinnedMessages);
@@ -266,9 +369,49 @@ export default function Home() {
 
   // Filter messages based on pinned status if showPinnedMessages is true
   const filteredMessages = showPinnedMessages && currentChat
-    ? currentChat.messages.filter(msg => msg.isPinned)
+    ? pinnedMessages
     : uiMessages;
 
+  // Only the rendered messages are compared with the previous message's date
+  const renderMessage = (message: Message, index: number) => {
+    if (!currentChat) return null;
+
+    const messageDate = DATE_SEPARATOR_FORMAT.format(new Date(message.createdAt));
+    const previous = filteredMessages[index - 1];
+    const showDateSeparator = !previous || DATE_SEPARATOR_FORMAT.format(new Date(previous.createdAt)) !== messageDate;
+    const siblingInfo = getSiblings(message.id);
+
+    return (
+      <>
+        {showDateSeparator && (
+          <div className="flex items-center my-4">
+            <div className="flex-grow border-t border-gray-300"></div>
+            <span className="mx-4 text-xs text-gray-500">{messageDate}</span>
+            <div className="flex-grow border-t border-gray-300"></div>
+          </div>
+        )}
+
+        <ChatMessage
+          message={message}
+          model={currentChat.model}
+          onTogglePin={handleTogglePin}
+          siblingIndex={siblingInfo.index}
+          siblingCount={siblingInfo.count}
+          onSelectSibling={handleSelectSibling}
+          onRegenerate={handleRegenerate}
+          onSendOverBudget={handleSendOverBudget}
+          onFork={handleForkChat}
+          isGenerating={isGenerating}
+        />
+
+        {/* Mark where the summarized part of the conversation ends */}
+        {currentChat.summary && message.id === currentChat.summary.lastMessageId && !showPinnedMessages && (
+          <SummaryBoundary summary={currentChat.summary} />
+        )}
+      </>
+    );
+  };
+
   // Get the user's first initial for the avatar fallback
   const userInitial = currentProfile?.name ? currentProfile.name.charAt(0).toUpperCase() : 'U';
 
@@ -296,6 +439,10 @@ export default function Home() {
     }
   }, []);
 
+  if (databaseError) {
+    return <DatabaseRecovery error={databaseError} />;
+  }
+
   if (!isLoaded) {
     return (
       <div className="flex h-screen items-center justify-center">
@@ -307,11 +454,13 @@ export default function Home() {
     );
   }
 
-  // Get the number of pinned messages for the current chat
-  const pinnedMessagesCount = currentChat?.messages.filter(msg => msg.isPinned)?.length || 0;
+  // Get the number of pinned messages for the current chat, loaded or not
+  const pinnedMessagesCount = currentChat?.pinnedMessageIds?.length || 0;
 
-  // Get pinned messages for the dialog
-  const pinnedMessages = currentChat?.messages.filter(msg => msg.isPinned) || [];
+  // Source chat of a forked chat, if it still exists
+  const forkOrigin = currentChat?.forkedFrom
+    ? chats.find(chat => chat.id === currentChat.forkedFrom!.chatId)
+    : undefined;
 
   return (
     <div className="flex h-screen overflow-hidden">
@@ -321,6 +470,9 @@ export default function Home() {
         onOpenChange={setApiKeysDialogOpen}
       />
 
+      {/* API Key Vault Passphrase Prompt */}
+      <KeyVaultDialog />
+      
       {/* Settings Dialog */}
       <SettingsDialog
         open={settingsDialogOpen}
@@ -333,6 +485,16 @@ export default function Home() {
       <ModelSettingsDialog
         open={modelSettingsDialogOpen}
         onOpenChange={setModelSettingsDialogOpen}
+        model={currentChat?.model}
+      />
+
+      {/* Usage Dashboard Dialog */}
+      <UsageDashboardDialog
+        open={usageDialogOpen}
+        onOpenChange={setUsageDialogOpen}
+        chats={chats}
+        folders={folders}
+        profiles={profiles}
       />
 
       {/* Pinned Messages Dialog */}
@@ -340,6 +502,7 @@ export default function Home() {
         open={pinnedMessagesDialogOpen}
         onOpenChange={setPinnedMessagesDialogOpen}
         messages={pinnedMessages}
+        onSelectMessage={handleJumpToMessage}
       />
 
       {/* Sidebar */}
@@ -381,9 +544,21 @@ export default function Home() {
                 <PanelLeftOpen className="h-5 w-5" />
               )}
             </Button>
-            <h1 className="text-lg font-semibold">
-              {currentChat?.title || 'New Chat'}
-            </h1>
+            <div className="flex flex-col">
+              <h1 className="text-lg font-semibold leading-tight">
+                {currentChat?.title || 'New Chat'}
+              </h1>
+              {/* Back-link to the chat this one was forked from */}
+              {forkOrigin && (
+                <button
+                  onClick={() => setCurrentChatId(forkOrigin.id)}
+                  className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
+                >
+                  <GitFork className="h-3 w-3" />
+                  Forked from {forkOrigin.title}
+                </button>
+              )}
+            </div>
           </div>
           <div className="flex items-center gap-2">
             {/* Pinned Messages Toggle */}
@@ -450,6 +625,10 @@ export default function Home() {
                   <Key className="mr-2 h-4 w-4" />
                   <span>API Keys</span>
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={handleOpenUsage}>
+                  <BarChart3 className="mr-2 h-4 w-4" />
+                  <span>Usage & Costs</span>
+                </DropdownMenuItem>
                 <DropdownMenuSeparator />
                 <DropdownMenuItem onClick={handleSignOut} className="text-destructive focus:text-destructive">
                   <LogOut className="mr-2 h-4 w-4" />
@@ -462,7 +641,7 @@ export default function Home() {
 
         {currentChat ? (
           <>
-            <div className="flex-1 p-4 overflow-auto bg-background" ref={chatContainerRef}>
+            <div className="flex-1 p-4 overflow-auto bg-background" ref={chatContainerRef} onScroll={handleMessagesScroll}>
               {showPinnedMessages && (
                 <div className="mb-4 p-2 bg-yellow-500/10 rounded-md border border-yellow-500/30">
                   <div className="flex items-center justify-between mb-2">
@@ -480,7 +659,26 @@ export default function Home() {
                 </div>
               )}
 
-              {(!filteredMessages || filteredMessages.length === 0) && !showPinnedMessages ? (
+              {!showPinnedMessages && (hasMoreMessages || isLoadingMessages) && filteredMessages.length > 0 && (
+                <div className="mb-4 flex justify-center">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-xs text-muted-foreground"
+                    disabled={isLoadingMessages}
+                    onClick={() => loadOlderMessages()}
+                  >
+                    {isLoadingMessages && <Loader2 className="mr-2 h-3 w-3 animate-spin" />}
+                    {isLoadingMessages ? 'Loading earlier messages...' : 'Load earlier messages'}
+                  </Button>
+                </div>
+              )}
+
+              {(!filteredMessages || filteredMessages.length === 0) && !showPinnedMessages && isLoadingMessages ? (
+                <div className="flex h-full items-center justify-center">
+                  <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                </div>
+              ) : (!filteredMessages || filteredMessages.length === 0) && !showPinnedMessages ? (
                 <div className="flex h-full flex-col items-center justify-center">
                   <div className="mb-4 h-12 w-12 text-muted-foreground" onClick={handleCreateChat}>
                     <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
@@ -494,36 +692,15 @@ export default function Home() {
                   </p>
                 </div>
               ) : (
-                <div className="space-y-4">
-                  {filteredMessages.reduce((acc, message, index, array) => {
-                    const messageDate = new Date(message.createdAt).toLocaleDateString('en-GB', {
-                      day: 'numeric', month: 'short', year: 'numeric'
-                    });
-                    const prevMessageDate = index > 0 ? new Date(array[index - 1].createdAt).toLocaleDateString('en-GB', {
-                      day: 'numeric', month: 'short', year: 'numeric'
-                    }) : null;
-
-                    if (messageDate !== prevMessageDate) {
-                      acc.push(
-                        <div key={`date-separator-${messageDate}-${index}`} className="flex items-center my-4">
-                          <div className="flex-grow border-t border-gray-300"></div>
-                          <span className="mx-4 text-xs text-gray-500">{messageDate}</span>
-                          <div className="flex-grow border-t border-gray-300"></div>
-                        </div>
-                      );
-                    }
-
-                    acc.push(
-                      <ChatMessage
-                        key={message.id}
-                        message={message}
-                        model={currentChat.model}
-                        onTogglePin={handleTogglePin}
-                      />
-                    );
-
-                    return acc;
-                  }, [])}
+                <div>
+                  <VirtualMessageList
+                    key={`${currentChat.id}-${showPinnedMessages}`}
+                    ref={messageListRef}
+                    messages={filteredMessages}
+                    scrollContainerRef={chatContainerRef}
+                    renderMessage={renderMessage}
+                    highlightedMessageId={highlightedMessageId}
+                  />
 
                   {/* Assistant typing indicator - Removed as requested */}
                   {/* {isGenerating && !showPinnedMessages && (
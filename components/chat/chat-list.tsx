@@ -37,6 +37,7 @@ import {
   DropdownMenuSeparator
 } from '@/components/ui/dropdown-menu';
 import { FolderSettingsDialog } from '@/components/settings/folder-settings-dialog';
+import { ExportMenuSub } from '@/components/chat/export-menu';
 
 interface ChatListProps {
   chats: Chat[];
@@ -49,7 +50,7 @@ interface ChatListProps {
   onDeleteFolder: (folderId: string) => void;
   onUpdateFolder: (folderId: string, updates: Partial<Folder>) => void;
   onMoveChat: (chatId: string, folderId: string | undefined) => void;
-  onSearch: (query: string) => Chat[];
+  onSearch: (query: string) => Promise<Chat[]>;
   onRenameChat?: (chatId: string, newTitle: string) => void;
   onToggleFavorite?: (chatId: string) => void;
 }
@@ -81,10 +82,12 @@ export function ChatList({
   const [dragOverFolder, setDragOverFolder] = useState<string | null>(null);
   const [dragOverRoot, setDragOverRoot] = useState(false);
   const dragCounterRef = useRef<{ [key: string]: number }>({});
+  // Latest query, so results of an earlier search don't overwrite newer ones
+  const latestQueryRef = useRef('');
   
   // State for folder settings dialog
   const [folderSettingsOpen, setFolderSettingsOpen] = useState(false);
-  const [currentFolder, setCurrentFolder] = useState<{ id: string, name: string } | null>(null);
+  const [currentFolder, setCurrentFolder] = useState<{ id: string, name: string, apiKeyIds?: Record<string, string> } | null>(null);
 
   // Toggle folder expansion
   const toggleFolder = (folderId: string) => {
@@ -99,11 +102,13 @@ export function ChatList({
     });
   };
 
-  const handleSearch = (query: string) => {
+  const handleSearch = async (query: string) => {
     setSearchQuery(query);
+    latestQueryRef.current = query;
     if (query?.trim()) {
       try {
-        const results = onSearch(query);
+        const results = await onSearch(query);
+        if (latestQueryRef.current !== query) return;
         setSearchResults(Array.isArray(results) ? results : []);
       } catch (error) {
         console.error('Error searching chats:', error);
@@ -155,7 +160,8 @@ export function ChatList({
   const handleFolderSettings = (folder: Folder) => {
     setCurrentFolder({
       id: folder.id,
-      name: folder.name
+      name: folder.name,
+      apiKeyIds: folder.apiKeyIds
     });
     setFolderSettingsOpen(true);
   };
@@ -290,6 +296,7 @@ export function ChatList({
           onOpenChange={setFolderSettingsOpen}
           folderId={currentFolder.id}
           folderName={currentFolder.name}
+          folderApiKeyIds={currentFolder.apiKeyIds}
           onUpdateFolder={onUpdateFolder}
           onDeleteFolder={onDeleteFolder}
         />
@@ -516,6 +523,7 @@ export function ChatList({
                                   ))}
                                 </DropdownMenuSubContent>
                               </DropdownMenuSub>
+                              <ExportMenuSub scope={{ type: 'chat', chatId: chat.id }} />
                               <DropdownMenuItem 
                                 onClick={(e) => {
                                   e.stopPropagation();
@@ -665,6 +673,7 @@ export function ChatList({
                                 ))}
                               </DropdownMenuSubContent>
                             </DropdownMenuSub>
+                            <ExportMenuSub scope={{ type: 'chat', chatId: chat.id }} />
                             <DropdownMenuItem 
                               onClick={(e) => {
                                 e.stopPropagation();
@@ -813,6 +822,7 @@ export function ChatList({
                                 ))}
                               </DropdownMenuSubContent>
                             </DropdownMenuSub>
+                            <ExportMenuSub scope={{ type: 'chat', chatId: chat.id }} />
                             <DropdownMenuItem 
                               onClick={(e) => {
                                 e.stopPropagation();
@@ -1,23 +1,56 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { memo, useEffect, useState } from 'react';
 import { Message } from '@/lib/types';
 import { cn } from '@/lib/utils';
-import { Sparkles, Bot, Copy, Pencil, Pin } from 'lucide-react';
+import { Sparkles, Bot, Copy, Pencil, Pin, RefreshCw, ChevronLeft, ChevronRight, GitFork } from 'lucide-react';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
 import ReactMarkdown from 'react-markdown';
 import { toast } from "sonner";
+import { useStreamingContent } from '@/hooks/use-streaming-content';
+import { GenerationInfo } from './generation-info';
 
 interface ChatMessageProps {
   message: Message;
   model: string;
   onTogglePin?: (messageId: string) => void;
+  /** Position among the alternative versions of this message */
+  siblingIndex?: number;
+  siblingCount?: number;
+  onSelectSibling?: (messageId: string, direction: -1 | 1) => void;
+  onRegenerate?: (messageId: string) => void;
+  /** Send the request of a budget notice anyway */
+  onSendOverBudget?: (messageId: string) => void;
+  onFork?: (messageId: string) => void;
+  isGenerating?: boolean;
 }
 
-export function ChatMessage({ message, model, onTogglePin }: ChatMessageProps) {
+/**
+ * Markdown of a message, only parsed again when its content changes
+ */
+const MessageContent = memo(function MessageContent({ content }: { content: string }) {
+  return <ReactMarkdown>{content}</ReactMarkdown>;
+});
+
+export function ChatMessage({
+  message,
+  model,
+  onTogglePin,
+  siblingIndex = 0,
+  siblingCount = 1,
+  onSelectSibling,
+  onRegenerate,
+  onSendOverBudget,
+  onFork,
+  isGenerating = false
+}: ChatMessageProps) {
   const [timeAgo, setTimeAgo] = useState<string>('');
   const [isHovering, setIsHovering] = useState(false);
   const [messageTime, setMessageTime] = useState<string>('');
+  // While the message is streamed its text comes from the streaming buffer
+  const streamingContent = useStreamingContent(message.id);
+  const content = streamingContent ?? message.content;
 
   // Ensure model is valid
   const validModel = ['smart', 'openai', 'anthropic', 'gemini'].includes(model) ? model : 'openai';
@@ -82,7 +115,7 @@ export function ChatMessage({ message, model, onTogglePin }: ChatMessageProps) {
 
   // Function to copy message content to clipboard
   const copyToClipboard = () => {
-    navigator.clipboard.writeText(message.content)
+    navigator.clipboard.writeText(content)
       .then(() => {
         toast.success("Message copied to clipboard");
       })
@@ -110,7 +143,48 @@ export function ChatMessage({ message, model, onTogglePin }: ChatMessageProps) {
     }
   };
 
-  if (!message || !message.content) {
+  // Function to handle regenerating an assistant reply
+  const handleRegenerate = () => {
+    if (onRegenerate && !isGenerating) {
+      onRegenerate(message.id);
+    }
+  };
+
+  // Function to handle forking the conversation from this message
+  const handleFork = () => {
+    if (onFork) {
+      onFork(message.id);
+    }
+  };
+
+  // `< 2/3 >` navigation between the alternative versions of this message
+  const renderSiblingNavigation = () => {
+    if (siblingCount < 2 || !onSelectSibling) return null;
+
+    return (
+      <div className="flex items-center text-xs text-muted-foreground bg-background/80 backdrop-blur-sm rounded-full">
+        <button
+          onClick={() => onSelectSibling(message.id, -1)}
+          disabled={siblingIndex === 0 || isGenerating}
+          className="hover:text-foreground transition-colors p-1 disabled:opacity-40 disabled:pointer-events-none"
+          aria-label="Previous version"
+        >
+          <ChevronLeft className="h-3.5 w-3.5" />
+        </button>
+        <span className="tabular-nums">{siblingIndex + 1}/{siblingCount}</span>
+        <button
+          onClick={() => onSelectSibling(message.id, 1)}
+          disabled={siblingIndex === siblingCount - 1 || isGenerating}
+          className="hover:text-foreground transition-colors p-1 disabled:opacity-40 disabled:pointer-events-none"
+          aria-label="Next version"
+        >
+          <ChevronRight className="h-3.5 w-3.5" />
+        </button>
+      </div>
+    );
+  };
+
+  if (!message || !content) {
     return null;
   }
 
@@ -147,40 +221,47 @@ export function ChatMessage({ message, model, onTogglePin }: ChatMessageProps) {
               : "rounded-tl-2xl rounded-bl-2xl rounded-tr-md rounded-br-2xl"
           )}>
             <div className="prose dark:prose-invert prose-sm" style={{ fontFamily: 'Vazirmatn, sans-serif' }}>
-              <ReactMarkdown>{message.content}</ReactMarkdown>
+              <MessageContent content={content} />
             </div>
             
-            {/* Action buttons */}
-            <div 
-              className={cn(
-                "absolute -bottom-7 right-0 flex items-center gap-1",
-                isHovering ? "opacity-100" : "opacity-0"
-              )}
-            >
-              <button 
-                onClick={handleTogglePin}
-                className={cn(
-                  "text-muted-foreground hover:text-foreground transition-colors bg-background/80 backdrop-blur-sm rounded-full p-1.5",
-                  message.isPinned && "text-yellow-500 hover:text-yellow-600"
+            {/* Action buttons, the version navigation stays visible */}
+            <div className="absolute -bottom-7 right-0 flex items-center gap-1">
+              {renderSiblingNavigation()}
+              <div className={cn("flex items-center gap-1", isHovering ? "opacity-100" : "opacity-0")}>
+                <button 
+                  onClick={handleTogglePin}
+                  className={cn(
+                    "text-muted-foreground hover:text-foreground transition-colors bg-background/80 backdrop-blur-sm rounded-full p-1.5",
+                    message.isPinned && "text-yellow-500 hover:text-yellow-600"
+                  )}
+                  aria-label={message.isPinned ? "Unpin message" : "Pin message"}
+                >
+                  <Pin className={cn("h-3.5 w-3.5", message.isPinned && "fill-yellow-500")} />
+                </button>
+                <button 
+                  onClick={handleEdit}
+                  className="text-muted-foreground hover:text-foreground transition-colors bg-background/80 backdrop-blur-sm rounded-full p-1.5"
+                  aria-label="Edit and resend message"
+                >
+                  <Pencil className="h-3.5 w-3.5" />
+                </button>
+                <button 
+                  onClick={copyToClipboard}
+                  className="text-muted-foreground hover:text-foreground transition-colors bg-background/80 backdrop-blur-sm rounded-full p-1.5"
+                  aria-label="Copy message"
+                >
+                  <Copy className="h-3.5 w-3.5" />
+                </button>
+                {onFork && (
+                  <button 
+                    onClick={handleFork}
+                    className="text-muted-foreground hover:text-foreground transition-colors bg-background/80 backdrop-blur-sm rounded-full p-1.5"
+                    aria-label="Fork from here"
+                  >
+                    <GitFork className="h-3.5 w-3.5" />
+                  </button>
                 )}
-                aria-label={message.isPinned ? "Unpin message" : "Pin message"}
-              >
-                <Pin className={cn("h-3.5 w-3.5", message.isPinned && "fill-yellow-500")} />
-              </button>
-              <button 
-                onClick={handleEdit}
-                className="text-muted-foreground hover:text-foreground transition-colors bg-background/80 backdrop-blur-sm rounded-full p-1.5"
-                aria-label="Edit message"
-              >
-                <Pencil className="h-3.5 w-3.5" />
-              </button>
-              <button 
-                onClick={copyToClipboard}
-                className="text-muted-foreground hover:text-foreground transition-colors bg-background/80 backdrop-blur-sm rounded-full p-1.5"
-                aria-label="Copy message"
-              >
-                <Copy className="h-3.5 w-3.5" />
-              </button>
+              </div>
             </div>
           </div>
         </div>
@@ -216,33 +297,65 @@ export function ChatMessage({ message, model, onTogglePin }: ChatMessageProps) {
           "prose dark:prose-invert prose-sm", 
           message.isPinned && "pl-3"
         )} style={{ fontFamily: 'Vazirmatn, sans-serif' }}>
-          <ReactMarkdown>{message.content}</ReactMarkdown>
+          <MessageContent content={content} />
         </div>
         
+        {message.blockedByBudget && onSendOverBudget && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="mt-2"
+            onClick={() => onSendOverBudget(message.id)}
+            disabled={isGenerating}
+          >
+            Send anyway
+          </Button>
+        )}
+        
         {/* Action buttons for assistant messages - now positioned closer to content */}
-        <div 
-          className={cn(
-            "absolute -bottom-7 -left-2 flex items-center gap-1 z-10",
-            isHovering ? "opacity-100" : "opacity-0"
-          )}
-        >
-          <button 
-            onClick={handleTogglePin}
-            className={cn(
-              "text-muted-foreground hover:text-foreground transition-colors bg-background/80 backdrop-blur-sm rounded-full p-1.5",
-              message.isPinned && "text-yellow-500 hover:text-yellow-600"
+        <div className="absolute -bottom-7 -left-2 flex items-center gap-1 z-10">
+          {renderSiblingNavigation()}
+          <div className={cn("flex items-center gap-1", isHovering ? "opacity-100" : "opacity-0")}>
+            <button 
+              onClick={handleTogglePin}
+              className={cn(
+                "text-muted-foreground hover:text-foreground transition-colors bg-background/80 backdrop-blur-sm rounded-full p-1.5",
+                message.isPinned && "text-yellow-500 hover:text-yellow-600"
+              )}
+              aria-label={message.isPinned ? "Unpin message" : "Pin message"}
+            >
+              <Pin className={cn("h-3.5 w-3.5", message.isPinned && "fill-yellow-500")} />
+            </button>
+            <button 
+              onClick={copyToClipboard}
+              className="text-muted-foreground hover:text-foreground transition-colors bg-background/80 backdrop-blur-sm rounded-full p-1.5"
+              aria-label="Copy message"
+            >
+              <Copy className="h-3.5 w-3.5" />
+            </button>
+            {message.role === 'assistant' && onRegenerate && (
+              <button 
+                onClick={handleRegenerate}
+                disabled={isGenerating}
+                className="text-muted-foreground hover:text-foreground transition-colors bg-background/80 backdrop-blur-sm rounded-full p-1.5 disabled:opacity-40"
+                aria-label="Regenerate response"
+              >
+                <RefreshCw className="h-3.5 w-3.5" />
+              </button>
             )}
-            aria-label={message.isPinned ? "Unpin message" : "Pin message"}
-          >
-            <Pin className={cn("h-3.5 w-3.5", message.isPinned && "fill-yellow-500")} />
-          </button>
-          <button 
-            onClick={copyToClipboard}
-            className="text-muted-foreground hover:text-foreground transition-colors bg-background/80 backdrop-blur-sm rounded-full p-1.5"
-            aria-label="Copy message"
-          >
-            <Copy className="h-3.5 w-3.5" />
-          </button>
+            {message.generation && (
+              <GenerationInfo generation={message.generation} />
+            )}
+            {onFork && (
+              <button 
+                onClick={handleFork}
+                className="text-muted-foreground hover:text-foreground transition-colors bg-background/80 backdrop-blur-sm rounded-full p-1.5"
+                aria-label="Fork from here"
+              >
+                <GitFork className="h-3.5 w-3.5" />
+              </button>
+            )}
+          </div>
         </div>
       </div>
     </div>
@@ -5,7 +5,8 @@ import { SendHorizontal, StopCircle, Paperclip, ChevronDown, Globe, X, Pencil }
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { ModelSelector } from '@/components/chat/model-selector';
-import { AIModel, AI_MODELS } from '@/lib/types';
+import { AIModel } from '@/lib/types';
+import { describeModel, formatTokenCount, getModelInfo } from '@/lib/model-registry';
 import { 
   Tooltip,
   TooltipContent,
@@ -17,9 +18,12 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from '@/components/ui/popover';
-import { Brain, Sparkles, Bot, Atom } from 'lucide-react';
+import { Brain, Sparkles, Bot, Atom, Server, Cpu } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { apiKeyStorage } from '@/lib/api-keys';
+import { KEY_VAULT_CHANGED_EVENT, KeyVaultError } from '@/lib/key-vault';
+import { toast } from 'sonner';
+import { useAvailableModels } from '@/hooks/use-available-models';
 import {
   Dialog,
   DialogContent,
@@ -63,6 +67,8 @@ export function ChatPanel({
   const [showFirecrawlDialog, setShowFirecrawlDialog] = useState(false);
   const [browseModeActive, setBrowseModeActive] = useState(false);
   const resizeTimeoutRef = useRef<number | null>(null);
+  // Built-in models plus custom endpoint and local models
+  const { models: allModels, groups } = useAvailableModels();
 
   // Set initial input value for editing mode
   useEffect(() => {
@@ -78,16 +84,23 @@ export function ChatPanel({
     }
   }, []);
 
-  // Check for Firecrawl API key on mount
+  // Check for Firecrawl API key on mount, and again when the key vault is unlocked or locked
   useEffect(() => {
-    const key = apiKeyStorage.getFirecrawlKey();
-    setFirecrawlApiKey(key);
-    
-    // If key exists, check if browse mode should be active
-    if (key) {
-      // You could add logic here to determine if browse mode should be active by default
-      // For now, we'll leave it inactive until user clicks the button
-    }
+    const loadFirecrawlKey = () => {
+      const key = apiKeyStorage.getFirecrawlKey();
+      setFirecrawlApiKey(key);
+      
+      // If key was locked away, disable browse mode
+      if (!key) {
+        setBrowseModeActive(false);
+      }
+    };
+    loadFirecrawlKey();
+
+    window.addEventListener(KEY_VAULT_CHANGED_EVENT, loadFirecrawlKey);
+    return () => {
+      window.removeEventListener(KEY_VAULT_CHANGED_EVENT, loadFirecrawlKey);
+    };
   }, []);
 
   // Listen for API key updates from other components (like the API keys dialog)
@@ -219,6 +232,7 @@ export function ChatPanel({
         }));
       } catch (error) {
         console.error('Error saving Firecrawl API key:', error);
+        toast.error(error instanceof KeyVaultError ? error.message : 'Could not save the Firecrawl API key');
       }
     }
   };
@@ -231,33 +245,46 @@ export function ChatPanel({
     setInput('');
   };
 
+
   // Ensure model is a valid value
-  const validModel: AIModel = AI_MODELS.some(m => m.id === model) 
+  const validModel: AIModel = allModels.some(m => m.id === model) 
     ? model as AIModel 
     : 'gpt-4o';
 
-  // Get model icon and name for the selected model
-  const getModelIcon = (modelType: string) => {
-    const modelConfig = AI_MODELS.find(m => m.id === modelType);
-    switch (modelConfig?.icon) {
+  // Render the icon configured for a model
+  const renderModelIcon = (icon: string | undefined, className: string) => {
+    switch (icon) {
       case 'brain':
-        return <Brain className="h-4 w-4" />;
+        return <Brain className={className} />;
       case 'sparkles':
-        return <Sparkles className="h-4 w-4" />;
+        return <Sparkles className={className} />;
       case 'bot':
-        return <Bot className="h-4 w-4" />;
+        return <Bot className={className} />;
       case 'atom':
-        return <Atom className="h-4 w-4" />;
+        return <Atom className={className} />;
+      case 'server':
+        return <Server className={className} />;
+      case 'cpu':
+        return <Cpu className={className} />;
       default:
-        return <Brain className="h-4 w-4" />;
+        return <Brain className={className} />;
     }
   };
 
+  // Get model icon and name for the selected model
+  const getModelIcon = (modelType: string) => {
+    const modelConfig = allModels.find(m => m.id === modelType);
+    return renderModelIcon(modelConfig?.icon, "h-4 w-4");
+  };
+
   const getModelDisplayName = (modelType: string) => {
-    const modelConfig = AI_MODELS.find(m => m.id === modelType);
+    const modelConfig = allModels.find(m => m.id === modelType);
     return modelConfig?.name || 'Smart';
   };
 
+  // Capabilities of the selected model decide which tools are available
+  const modelInfo = allModels.find(m => m.id === validModel) || getModelInfo(validModel);
+
   const modelIcon = getModelIcon(validModel);
   const modelName = getModelDisplayName(validModel);
 
@@ -304,23 +331,26 @@ export function ChatPanel({
           <div className="flex items-center justify-between px-2 pb-2">
             {/* Left side - Attachment & other tools */}
             <div className="flex items-center gap-1">
-              {/* Paperclip icon - always shown */}
+              {/* Paperclip icon - disabled for models without vision support */}
               <TooltipProvider>
                 <Tooltip>
+                  {/* Wrapper keeps the tooltip working while the button is disabled */}
                   <TooltipTrigger asChild>
-                    <Button
-                      type="button"
-                      variant="ghost"
-                      size="sm"
-                      onClick={handleFileClick}
-                      className="h-7 w-7 p-0 text-gray-500 dark:text-neutral-400 hover:text-gray-800 dark:hover:text-neutral-200 hover:bg-gray-300 dark:hover:bg-neutral-800 rounded-full"
-                      disabled={isLoading}
-                    >
-                      <Paperclip className="h-4 w-4" />
-                    </Button>
+                    <span className="inline-flex">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={handleFileClick}
+                        className="h-7 w-7 p-0 text-gray-500 dark:text-neutral-400 hover:text-gray-800 dark:hover:text-neutral-200 hover:bg-gray-300 dark:hover:bg-neutral-800 rounded-full"
+                        disabled={isLoading || !modelInfo.supportsVision}
+                      >
+                        <Paperclip className="h-4 w-4" />
+                      </Button>
+                    </span>
                   </TooltipTrigger>
                   <TooltipContent>
-                    <p>Attach a file</p>
+                    <p>{modelInfo.supportsVision ? 'Attach a file' : `${modelInfo.name} doesn't support attachments`}</p>
                   </TooltipContent>
                 </Tooltip>
               </TooltipProvider>
@@ -392,82 +422,37 @@ export function ChatPanel({
                       <ChevronDown className="h-3 w-3" />
                     </Button>
                   </PopoverTrigger>
-                  <PopoverContent className="w-[230px] p-2 bg-gray-200 dark:bg-neutral-900 rounded-md" align="end">
+                  <PopoverContent className="w-[230px] max-h-[60vh] overflow-y-auto p-2 bg-gray-200 dark:bg-neutral-900 rounded-md" align="end">
                     <div className="space-y-2">
-                      {/* OpenAI Models */}
-                      <div className="space-y-1">
-                        <div className="text-xs font-medium text-gray-500 dark:text-neutral-400 px-2 py-1">OpenAI</div>
-                        {AI_MODELS.filter(m => m.category === 'openai').map((item) => (
-                          <Button
-                            key={item.name}
-                            variant="ghost"
-                            size="sm"
-                            className={cn(
-                              "w-full justify-start text-xs text-gray-700 dark:text-neutral-300 rounded-md",
-                              validModel === item.id && "bg-gray-300 dark:bg-neutral-800"
-                            )}
-                            onClick={() => {
-                              onModelChange(item.id as AIModel);
-                              setModelDropdownOpen(false);
-                            }}
-                          >
-                            <div className="flex items-center">
-                              <Sparkles className="mr-2 h-3 w-3" />
-                              {item.name}
-                            </div>
-                          </Button>
-                        ))}
-                      </div>
-                      
-                      {/* Anthropic Models */}
-                      <div className="space-y-1">
-                        <div className="text-xs font-medium text-gray-500 dark:text-neutral-400 px-2 py-1">Anthropic</div>
-                        {AI_MODELS.filter(m => m.category === 'anthropic').map((item) => (
-                          <Button
-                            key={item.name}
-                            variant="ghost"
-                            size="sm"
-                            className={cn(
-                              "w-full justify-start text-xs text-gray-700 dark:text-neutral-300 rounded-md",
-                              validModel === item.id && "bg-gray-300 dark:bg-neutral-800"
-                            )}
-                            onClick={() => {
-                              onModelChange(item.id as AIModel);
-                              setModelDropdownOpen(false);
-                            }}
-                          >
-                            <div className="flex items-center">
-                              <Bot className="mr-2 h-3 w-3" />
-                              {item.name}
-                            </div>
-                          </Button>
-                        ))}
-                      </div>
-                      
-                      {/* Google Models */}
-                      <div className="space-y-1">
-                        <div className="text-xs font-medium text-gray-500 dark:text-neutral-400 px-2 py-1">Google</div>
-                        {AI_MODELS.filter(m => m.category === 'gemini').map((item) => (
-                          <Button
-                            key={item.name}
-                            variant="ghost"
-                            size="sm"
-                            className={cn(
-                              "w-full justify-start text-xs text-gray-700 dark:text-neutral-300 rounded-md",
-                              validModel === item.id && "bg-gray-300 dark:bg-neutral-800"
-                            )}
-                            onClick={() => {
-                              onModelChange(item.id as AIModel);
-                              setModelDropdownOpen(false);
-                            }}
-                          >
-                            <div className="flex items-center">
-                              <Atom className="mr-2 h-3 w-3" />
-                              {item.name}
-                            </div>
-                          </Button>
-                        ))}
-                      </div>
+                      {groups.map((group) => (
+                        <div key={group.id} className="space-y-1">
+                          <div className="text-xs font-medium text-gray-500 dark:text-neutral-400 px-2 py-1 truncate">{group.name}</div>
+                          {group.models.map((item) => (
+                            <Button
+                              key={item.id}
+                              variant="ghost"
+                              size="sm"
+                              className={cn(
+                                "w-full justify-start text-xs text-gray-700 dark:text-neutral-300 rounded-md",
+                                validModel === item.id && "bg-gray-300 dark:bg-neutral-800"
+                              )}
+                              onClick={() => {
+                                onModelChange(item.id as AIModel);
+                                setModelDropdownOpen(false);
+                              }}
+                              title={describeModel(item)}
+                            >
+                              <div className="flex items-center min-w-0">
+                                {renderModelIcon(item.icon, "mr-2 h-3 w-3 shrink-0")}
+                                <span className="truncate">{item.name}</span>
+                              </div>
+                              <span className="ml-auto pl-2 text-[10px] text-gray-500 dark:text-neutral-500">
+                                {formatTokenCount(item.contextWindow)}
+                              </span>
+                            </Button>
+                          ))}
+                        </div>
+                      ))}
                     </div>
                   </PopoverContent>
                 </Popover>
@@ -517,7 +502,7 @@ export function ChatPanel({
                 autoFocus
               />
               <p className="text-xs text-muted-foreground">
-                This key will be saved in your browser's local storage.
+                This key is stored encrypted with your API key passphrase.
               </p>
             </div>
           </div>
@@ -0,0 +1,176 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, Download, History, RefreshCw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { toast } from 'sonner';
+import { chatDB } from '@/lib/chat-db';
+import { DatabaseBackup, DatabaseMigrationError, LATEST_DB_VERSION, listBackups } from '@/lib/db-migrations';
+
+interface DatabaseRecoveryProps {
+  error: DatabaseMigrationError;
+}
+
+/**
+ * Shown instead of the chat UI when the chat database can't be upgraded,
+ * or was upgraded by a newer version of the app
+ */
+export function DatabaseRecovery({ error }: DatabaseRecoveryProps) {
+  const [confirmResetOpen, setConfirmResetOpen] = useState(false);
+  const [confirmRestoreOpen, setConfirmRestoreOpen] = useState(false);
+  // The backup taken before this upgrade, otherwise the newest one this version can read
+  const [backup, setBackup] = useState<DatabaseBackup | null>(null);
+
+  useEffect(() => {
+    listBackups()
+      .then(backups => {
+        setBackup(
+          backups.find(b => b.id === error.backupId) ||
+          backups.find(b => b.version <= LATEST_DB_VERSION) ||
+          null
+        );
+      })
+      .catch(err => console.error('Error loading backups:', err));
+  }, [error.backupId]);
+
+  const handleDownloadBackup = () => {
+    if (!backup) return;
+
+    try {
+      const url = URL.createObjectURL(new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `chat-backup-${backup.id}.json`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Error downloading backup:', err);
+      toast.error('Could not download the backup');
+    }
+  };
+
+  const handleRestoreBackup = async () => {
+    if (!backup) return;
+
+    try {
+      await chatDB.restoreBackup(backup.id);
+      window.location.reload();
+    } catch (err) {
+      console.error('Error restoring backup:', err);
+      toast.error('Could not restore the backup. Close other tabs of this app and try again.');
+    }
+  };
+
+  const handleReset = async () => {
+    try {
+      await chatDB.deleteDatabase();
+      window.location.reload();
+    } catch (err) {
+      console.error('Error deleting database:', err);
+      toast.error('Could not delete the database. Close other tabs of this app and try again.');
+    }
+  };
+
+  return (
+    <div className="flex h-screen items-center justify-center p-4">
+      <Card className="mx-auto max-w-lg p-6">
+        <div className="mb-4 flex items-center gap-2">
+          <AlertTriangle className="h-5 w-5 text-destructive" />
+          <h2 className="text-xl font-semibold">Your chats couldn&apos;t be loaded</h2>
+        </div>
+
+        {error.isDowngrade ? (
+          <p className="mb-4 text-sm text-muted-foreground">
+            Your chats were saved by a newer version of this app (database version {error.fromVersion}),
+            and this version only reads up to version {error.toVersion}. Reload to get the newer version;
+            your chats are still stored as they were.
+          </p>
+        ) : (
+          <>
+            <p className="mb-2 text-sm text-muted-foreground">
+              The chat database needs to be upgraded from version {error.fromVersion} to {error.toVersion},
+              but the upgrade failed. It was rolled back, so your chats are still stored as they were.
+            </p>
+            <p className="mb-4 rounded-md bg-muted/50 p-2 font-mono text-xs break-words">
+              {error.originalError instanceof Error ? error.originalError.message : String(error.originalError)}
+            </p>
+          </>
+        )}
+        {backup && (
+          <p className="mb-4 text-sm text-muted-foreground">
+            A backup was taken {backup.createdAt.toLocaleString()} before an upgrade. Download it before
+            restoring it or starting over.
+          </p>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={() => window.location.reload()}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Try again
+          </Button>
+          {backup && (
+            <>
+              <Button variant="outline" onClick={handleDownloadBackup}>
+                <Download className="mr-2 h-4 w-4" />
+                Download backup
+              </Button>
+              <Button variant="outline" onClick={() => setConfirmRestoreOpen(true)}>
+                <History className="mr-2 h-4 w-4" />
+                Restore backup
+              </Button>
+            </>
+          )}
+          <Button variant="outline" className="text-destructive" onClick={() => setConfirmResetOpen(true)}>
+            <Trash2 className="mr-2 h-4 w-4" />
+            Start over
+          </Button>
+        </div>
+      </Card>
+
+      <AlertDialog open={confirmRestoreOpen} onOpenChange={setConfirmRestoreOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore the backup?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This replaces the chat database with the backup taken {backup?.createdAt.toLocaleString()}.
+              Chats, messages and folders changed since then are lost.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRestoreBackup}>Restore backup</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={confirmResetOpen} onOpenChange={setConfirmResetOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete all chats?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This deletes the chat database and starts with an empty one. Chats, messages and
+              folders that aren&apos;t in a downloaded backup are lost.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleReset}>Delete and start over</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
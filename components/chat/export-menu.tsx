@@ -0,0 +1,67 @@
+'use client';
+
+import React from 'react';
+import { Download, FileCode, FileJson, FileText } from 'lucide-react';
+import {
+  DropdownMenuItem,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger
+} from '@/components/ui/dropdown-menu';
+import { toast } from 'sonner';
+import { ExportFormat, ExportScope, exportChats } from '@/lib/chat-export';
+
+export const EXPORT_FORMAT_OPTIONS: { format: ExportFormat; label: string; icon: typeof FileJson }[] = [
+  { format: 'json', label: 'JSON', icon: FileJson },
+  { format: 'markdown', label: 'Markdown', icon: FileText },
+  { format: 'html', label: 'HTML', icon: FileCode }
+];
+
+/**
+ * Export a scope and report the result with a toast
+ */
+export async function runExport(scope: ExportScope, format: ExportFormat) {
+  try {
+    const count = await exportChats(scope, format);
+    if (count === 0) {
+      toast.error('Nothing to export');
+    } else {
+      toast.success(`Exported ${count} ${count === 1 ? 'chat' : 'chats'}`);
+    }
+  } catch (error) {
+    console.error('Error exporting chats:', error);
+    toast.error('Export failed');
+  }
+}
+
+interface ExportMenuSubProps {
+  scope: ExportScope;
+}
+
+/**
+ * "Export" submenu for dropdown menus
+ */
+export function ExportMenuSub({ scope }: ExportMenuSubProps) {
+  return (
+    <DropdownMenuSub>
+      <DropdownMenuSubTrigger>
+        <Download className="mr-2 h-4 w-4" />
+        Export
+      </DropdownMenuSubTrigger>
+      <DropdownMenuSubContent>
+        {EXPORT_FORMAT_OPTIONS.map(({ format, label, icon: Icon }) => (
+          <DropdownMenuItem
+            key={format}
+            onClick={(e) => {
+              e.stopPropagation();
+              runExport(scope, format);
+            }}
+          >
+            <Icon className="mr-2 h-4 w-4" />
+            {label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuSubContent>
+    </DropdownMenuSub>
+  );
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import { Info } from 'lucide-react';
+import { GenerationMetadata } from '@/lib/types';
+import { getModelInfo } from '@/lib/model-registry';
+import { getProvider } from '@/lib/providers';
+import { HoverCard, HoverCardContent, HoverCardTrigger } from '@/components/ui/hover-card';
+
+interface GenerationInfoProps {
+  generation: GenerationMetadata;
+}
+
+/**
+ * Format a duration in milliseconds, e.g. 850 -> "850 ms", 12400 -> "12.4 s"
+ */
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+function formatCount(count?: number): string {
+  return count === undefined ? '–' : count.toLocaleString();
+}
+
+/**
+ * Info button of an assistant reply showing which model generated it, its
+ * token usage and timing and the settings it was generated with
+ */
+export function GenerationInfo({ generation }: GenerationInfoProps) {
+  const { settings } = generation;
+  const tokensPerSecond = generation.completionTokens && generation.timeToFirstToken !== undefined
+    && generation.latency > generation.timeToFirstToken
+    ? generation.completionTokens / ((generation.latency - generation.timeToFirstToken) / 1000)
+    : null;
+
+  const rows: [string, string][] = [
+    ['Model', getModelInfo(generation.model).name],
+    ['Provider', getProvider(generation.provider)?.name || generation.provider],
+    ['Prompt tokens', formatCount(generation.promptTokens)],
+    ['Completion tokens', formatCount(generation.completionTokens)],
+    ['First token', generation.timeToFirstToken !== undefined ? formatDuration(generation.timeToFirstToken) : '–'],
+    ['Total time', formatDuration(generation.latency)],
+    ...(tokensPerSecond !== null ? [['Speed', `${tokensPerSecond.toFixed(1)} tokens/s`] as [string, string]] : []),
+    ['Finish reason', generation.finishReason || '–']
+  ];
+
+  const settingRows: [string, string | number | undefined][] = [
+    ['Temperature', settings.temperature],
+    ['Top P', settings.topP],
+    ['Top K', settings.topK],
+    ['Max tokens', settings.maxTokens],
+    ['Frequency penalty', settings.frequencyPenalty],
+    ['Presence penalty', settings.presencePenalty]
+  ];
+
+  return (
+    <HoverCard openDelay={200}>
+      <HoverCardTrigger asChild>
+        <button
+          className="text-muted-foreground hover:text-foreground transition-colors bg-background/80 backdrop-blur-sm rounded-full p-1.5"
+          aria-label="Generation details"
+        >
+          <Info className="h-3.5 w-3.5" />
+        </button>
+      </HoverCardTrigger>
+      <HoverCardContent side="top" align="start" className="w-72 p-3 text-xs">
+        <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+          {rows.map(([label, value]) => (
+            <div key={label} className="contents">
+              <dt className="text-muted-foreground">{label}</dt>
+              <dd className="text-right tabular-nums truncate">{value}</dd>
+            </div>
+          ))}
+        </dl>
+        <div className="mt-2 pt-2 border-t">
+          <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+            {settingRows
+              .filter(([, value]) => value !== undefined)
+              .map(([label, value]) => (
+                <div key={label} className="contents">
+                  <dt className="text-muted-foreground">{label}</dt>
+                  <dd className="text-right tabular-nums">{value}</dd>
+                </div>
+              ))}
+          </dl>
+          {settings.systemPrompt && (
+            <p className="mt-2 text-muted-foreground line-clamp-3" title={settings.systemPrompt}>
+              System prompt: {settings.systemPrompt}
+            </p>
+          )}
+        </div>
+      </HoverCardContent>
+    </HoverCard>
+  );
+}
+
+export default GenerationInfo;
@@ -19,7 +19,12 @@ import {
   PopoverTrigger,
 } from '@/components/ui/popover';
 import { AI_MODELS, AIModel } from '@/lib/types';
-import { Sparkles, Bot, Atom } from 'lucide-react';
+import { describeModel, formatTokenCount } from '@/lib/model-registry';
+import { Sparkles, Bot, Atom, Server, Cpu, Eye } from 'lucide-react';
+import { useAvailableModels } from '@/hooks/use-available-models';
+import { useKeyHealth } from '@/hooks/use-key-health';
+import { getProviderForModel } from '@/lib/providers';
+import { KeyStatusBadge } from '@/components/settings/key-status-badge';
 
 interface ModelSelectorProps {
   model: AIModel;
@@ -28,9 +33,12 @@ interface ModelSelectorProps {
 
 export function ModelSelector({ model, onModelChange }: ModelSelectorProps) {
   const [open, setOpen] = React.useState(false);
+  // Built-in models plus custom endpoint and local models, grouped by provider
+  const { models: allModels, groups } = useAvailableModels();
+  const { getState: getKeyState } = useKeyHealth();
 
   // Validate model - ensure we always have a valid model even if somehow an invalid one is passed
-  const validModel: AIModel = AI_MODELS.some(m => m.id === model) 
+  const validModel: AIModel = allModels.some(m => m.id === model) 
     ? model as AIModel 
     : 'gpt-4o'; // Default to GPT-4o if invalid model
 
@@ -44,27 +52,36 @@ export function ModelSelector({ model, onModelChange }: ModelSelectorProps) {
         return <Bot className="mr-2 h-4 w-4" />;
       case 'atom':
         return <Atom className="mr-2 h-4 w-4" />;
+      case 'server':
+        return <Server className="mr-2 h-4 w-4" />;
+      case 'cpu':
+        return <Cpu className="mr-2 h-4 w-4" />;
       default:
         return null;
     }
   };
 
   // Get all models with the matching category as the selected model
-  const selectedModelConfig = AI_MODELS.find(m => m.id === validModel);
+  const selectedModelConfig = allModels.find(m => m.id === validModel);
   const selectedCategory = selectedModelConfig?.category || 'openai';
-  const modelsInCategory = AI_MODELS.filter(m => m.category === selectedCategory);
+  const modelsInCategory = allModels.filter(m => m.category === selectedCategory);
   
   // Get the current model config
-  const selectedModel = AI_MODELS.find(m => m.id === validModel) || AI_MODELS[0];
+  const selectedModel = allModels.find(m => m.id === validModel) || AI_MODELS[0];
 
-  // Group models by category
-  const openaiModels = AI_MODELS.filter(m => m.category === 'openai');
-  const anthropicModels = AI_MODELS.filter(m => m.category === 'anthropic');
-  const geminiModels = AI_MODELS.filter(m => m.category === 'gemini');
+  // Badge for models that can't be used until their provider's key is added or fixed
+  const renderKeyProblem = (modelId: string) => {
+    const provider = getProviderForModel(modelId);
+    if (!provider.requiresApiKey) return null;
+
+    const state = getKeyState(provider.id);
+    if (state !== 'missing' && state !== 'invalid') return null;
+    return <KeyStatusBadge state={state} className="ml-2 shrink-0" />;
+  };
 
   const handleSelect = (value: string) => {
     // Find the model by ID and validate it exists
-    const modelExists = AI_MODELS.some(m => m.id === value);
+    const modelExists = allModels.some(m => m.id === value);
     if (modelExists) {
       onModelChange(value as AIModel);
     } else {
@@ -87,6 +104,7 @@ export function ModelSelector({ model, onModelChange }: ModelSelectorProps) {
           <div className="flex items-center">
             {selectedModel && getModelIcon(selectedModel.icon)}
             <span>{selectedModel?.name || 'Select model...'}</span>
+            {selectedModel && renderKeyProblem(selectedModel.id)}
           </div>
           <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
         </Button>
@@ -96,72 +114,38 @@ export function ModelSelector({ model, onModelChange }: ModelSelectorProps) {
           <CommandInput placeholder="Search models..." />
           <CommandEmpty>No model found.</CommandEmpty>
           <CommandList>
-            <CommandGroup heading="OpenAI">
-              {openaiModels.map((item) => (
-                <CommandItem
-                  key={item.name}
-                  value={item.id}
-                  onSelect={handleSelect}
-                >
-                  <div className="flex items-center">
-                    {getModelIcon(item.icon)}
-                    {item.name}
-                  </div>
-                  <Check
-                    className={cn(
-                      'ml-auto h-4 w-4',
-                      validModel === item.id ? 'opacity-100' : 'opacity-0'
-                    )}
-                  />
-                </CommandItem>
-              ))}
-            </CommandGroup>
-            
-            <CommandSeparator />
-            
-            <CommandGroup heading="Anthropic">
-              {anthropicModels.map((item) => (
-                <CommandItem
-                  key={item.name}
-                  value={item.id}
-                  onSelect={handleSelect}
-                >
-                  <div className="flex items-center">
-                    {getModelIcon(item.icon)}
-                    {item.name}
-                  </div>
-                  <Check
-                    className={cn(
-                      'ml-auto h-4 w-4',
-                      validModel === item.id ? 'opacity-100' : 'opacity-0'
-                    )}
-                  />
-                </CommandItem>
-              ))}
-            </CommandGroup>
-            
-            <CommandSeparator />
-            
-            <CommandGroup heading="Google">
-              {geminiModels.map((item) => (
-                <CommandItem
-                  key={item.name}
-                  value={item.id}
-                  onSelect={handleSelect}
-                >
-                  <div className="flex items-center">
-                    {getModelIcon(item.icon)}
-                    {item.name}
-                  </div>
-                  <Check
-                    className={cn(
-                      'ml-auto h-4 w-4',
-                      validModel === item.id ? 'opacity-100' : 'opacity-0'
-                    )}
-                  />
-                </CommandItem>
-              ))}
-            </CommandGroup>
+            {groups.map((group, index) => (
+              <React.Fragment key={group.id}>
+                {index > 0 && <CommandSeparator />}
+                
+                <CommandGroup heading={group.name}>
+                  {group.models.map((item) => (
+                    <CommandItem
+                      key={item.id}
+                      value={item.id}
+                      onSelect={handleSelect}
+                    >
+                      <div className="flex min-w-0 items-center">
+                        {getModelIcon(item.icon)}
+                        <span className="truncate">{item.name}</span>
+                        {renderKeyProblem(item.id)}
+                      </div>
+                      <div className="ml-auto flex shrink-0 items-center gap-1 pl-2 text-xs text-muted-foreground" title={describeModel(item)}>
+                        {item.supportsVision && <Eye className="h-3 w-3" />}
+                        {item.supportsReasoning && <Brain className="h-3 w-3" />}
+                        {formatTokenCount(item.contextWindow)}
+                      </div>
+                      <Check
+                        className={cn(
+                          'ml-2 h-4 w-4 shrink-0',
+                          validModel === item.id ? 'opacity-100' : 'opacity-0'
+                        )}
+                      />
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              </React.Fragment>
+            ))}
           </CommandList>
         </Command>
       </PopoverContent>
@@ -16,12 +16,15 @@ interface PinnedMessagesDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   messages: Message[];
+  /** Show a pinned message in the conversation */
+  onSelectMessage?: (messageId: string) => void;
 }
 
 export function PinnedMessagesDialog({ 
   open, 
   onOpenChange,
-  messages = []
+  messages = [],
+  onSelectMessage
 }: PinnedMessagesDialogProps) {
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -40,8 +43,10 @@ export function PinnedMessagesDialog({
                   key={message.id} 
                   className={cn(
                     "flex items-start p-3 gap-3 rounded-md hover:bg-muted/50 transition-colors",
-                    message.role === 'user' ? "bg-muted/30" : "bg-transparent"
+                    message.role === 'user' ? "bg-muted/30" : "bg-transparent",
+                    onSelectMessage && "cursor-pointer"
                   )}
+                  onClick={() => onSelectMessage?.(message.id)}
                 >
                   <Avatar className="h-8 w-8 flex-shrink-0">
                     {message.role === 'user' ? (
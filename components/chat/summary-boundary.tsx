@@ -0,0 +1,66 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ScrollText } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { ChatSummary } from '@/lib/types';
+import { getModelInfo } from '@/lib/model-registry';
+
+interface SummaryBoundaryProps {
+  summary: ChatSummary;
+}
+
+/**
+ * Divider shown after the last summarized message, with a dialog to read the summary
+ */
+export function SummaryBoundary({ summary }: SummaryBoundaryProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <>
+      <div className="flex items-center my-4">
+        <div className="flex-grow border-t border-dashed border-gray-300"></div>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="mx-2 h-6 gap-1 px-2 text-xs text-gray-500"
+          onClick={() => setOpen(true)}
+        >
+          <ScrollText className="h-3 w-3" />
+          Messages above are summarized for the model
+        </Button>
+        <div className="flex-grow border-t border-dashed border-gray-300"></div>
+      </div>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>Conversation Summary</DialogTitle>
+            <DialogDescription>
+              {summary.messageCount} earlier {summary.messageCount === 1 ? 'message is' : 'messages are'} sent
+              as this summary. Written by {getModelInfo(summary.model).name} on{' '}
+              {new Date(summary.createdAt).toLocaleString()}.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="max-h-[60vh] overflow-y-auto rounded-md bg-muted/50 p-3">
+            <p className="whitespace-pre-wrap text-sm">{summary.content}</p>
+          </div>
+
+          <div className="flex justify-end">
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Close
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
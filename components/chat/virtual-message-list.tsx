@@ -0,0 +1,266 @@
+'use client';
+
+import React, {
+  forwardRef,
+  ReactNode,
+  RefObject,
+  useCallback,
+  useEffect,
+  useImperativeHandle,
+  useLayoutEffect,
+  useRef,
+  useState
+} from 'react';
+import { Message } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+// Height assumed for messages that haven't been rendered yet
+const ESTIMATED_MESSAGE_HEIGHT = 120;
+// Height rendered above and below the visible area
+const OVERSCAN = 800;
+// Within this distance from the bottom the list follows new content
+const STICK_TO_BOTTOM_THRESHOLD = 40;
+
+export interface VirtualMessageListHandle {
+  /** Scroll a message into view, false if it isn't in the list */
+  scrollToMessage: (messageId: string) => boolean;
+  scrollToBottom: () => void;
+}
+
+interface VirtualMessageListProps {
+  messages: Message[];
+  /** Element the list scrolls in */
+  scrollContainerRef: RefObject<HTMLDivElement>;
+  renderMessage: (message: Message, index: number) => ReactNode;
+  /** Message to draw attention to, e.g. after jumping to it */
+  highlightedMessageId?: string | null;
+}
+
+interface MeasuredItemProps {
+  messageId: string;
+  observer: ResizeObserver | null;
+  highlighted: boolean;
+  children: ReactNode;
+}
+
+/**
+ * Wrapper that reports the rendered height of a message
+ */
+function MeasuredItem({ messageId, observer, highlighted, children }: MeasuredItemProps) {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useLayoutEffect(() => {
+    const element = ref.current;
+    if (!element || !observer) return;
+
+    observer.observe(element);
+    return () => observer.unobserve(element);
+  }, [observer]);
+
+  // flow-root keeps the message's margins inside the measured height
+  return (
+    <div ref={ref} data-message-id={messageId} className="flow-root pb-4">
+      <div className={cn('rounded-lg transition-colors duration-700', highlighted && 'bg-yellow-500/10')}>
+        {children}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Index of the last message starting at or before a position
+ */
+function findIndexAt(offsets: number[], position: number): number {
+  let low = 0;
+  let high = offsets.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (offsets[mid] <= position) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Message list that only mounts the messages in and near the visible area.
+ * Heights are measured as messages render; the scroll position follows the
+ * newest message while scrolled to the bottom and otherwise stays on what's
+ * shown when messages above change height or are loaded.
+ */
+export const VirtualMessageList = forwardRef<VirtualMessageListHandle, VirtualMessageListProps>(
+  function VirtualMessageList({ messages, scrollContainerRef, renderMessage, highlightedMessageId }, ref) {
+    const listRef = useRef<HTMLDivElement>(null);
+    const heightsRef = useRef(new Map<string, number>());
+    const isAtBottomRef = useRef(true);
+    const previousEndsRef = useRef<{ firstId?: string; lastId?: string }>({});
+    const [itemObserver, setItemObserver] = useState<ResizeObserver | null>(null);
+    const [, setMeasureCount] = useState(0);
+    const [viewport, setViewport] = useState({ top: 0, height: 0 });
+
+    // Top of each message within the list
+    const offsets: number[] = [];
+    let totalHeight = 0;
+    for (const message of messages) {
+      offsets.push(totalHeight);
+      totalHeight += heightsRef.current.get(message.id) ?? ESTIMATED_MESSAGE_HEIGHT;
+    }
+
+    // Distance from the top of the scroll container's content to the list
+    const getListOffset = useCallback(() => {
+      const container = scrollContainerRef.current;
+      const list = listRef.current;
+      if (!container || !list) return 0;
+      return list.getBoundingClientRect().top - container.getBoundingClientRect().top + container.scrollTop;
+    }, [scrollContainerRef]);
+
+    const updateViewport = useCallback(() => {
+      const container = scrollContainerRef.current;
+      if (!container) return;
+
+      isAtBottomRef.current =
+        container.scrollHeight - container.scrollTop - container.clientHeight < STICK_TO_BOTTOM_THRESHOLD;
+
+      const top = container.scrollTop - getListOffset();
+      const height = container.clientHeight;
+      setViewport(prev => (prev.top === top && prev.height === height ? prev : { top, height }));
+    }, [scrollContainerRef, getListOffset]);
+
+    // Track the visible area, at most once per frame
+    useEffect(() => {
+      const container = scrollContainerRef.current;
+      if (!container) return;
+
+      let frame = 0;
+      const scheduleUpdate = () => {
+        if (!frame) {
+          frame = requestAnimationFrame(() => {
+            frame = 0;
+            updateViewport();
+          });
+        }
+      };
+
+      const resizeObserver = new ResizeObserver(scheduleUpdate);
+      resizeObserver.observe(container);
+      container.addEventListener('scroll', scheduleUpdate, { passive: true });
+      updateViewport();
+
+      return () => {
+        cancelAnimationFrame(frame);
+        resizeObserver.disconnect();
+        container.removeEventListener('scroll', scheduleUpdate);
+      };
+    }, [scrollContainerRef, updateViewport]);
+
+    // Measure rendered messages
+    useEffect(() => {
+      const observer = new ResizeObserver(entries => {
+        const container = scrollContainerRef.current;
+        const containerTop = container?.getBoundingClientRect().top ?? 0;
+        let changed = false;
+        let shiftAbove = 0;
+
+        for (const entry of entries) {
+          const element = entry.target as HTMLElement;
+          const messageId = element.dataset.messageId;
+          if (!messageId) continue;
+
+          const height = element.offsetHeight;
+          const previous = heightsRef.current.get(messageId);
+          if (height === previous) continue;
+
+          heightsRef.current.set(messageId, height);
+          changed = true;
+
+          // Keep what's on screen in place when a message above it changes height
+          if (element.getBoundingClientRect().bottom <= containerTop) {
+            shiftAbove += height - (previous ?? ESTIMATED_MESSAGE_HEIGHT);
+          }
+        }
+
+        if (container && shiftAbove !== 0 && !isAtBottomRef.current) {
+          container.scrollTop += shiftAbove;
+        }
+        if (changed) {
+          setMeasureCount(count => count + 1);
+        }
+      });
+
+      setItemObserver(observer);
+      return () => observer.disconnect();
+    }, [scrollContainerRef]);
+
+    // Runs after every render: follow the newest message, or keep the
+    // reader's place when earlier messages were added above
+    useLayoutEffect(() => {
+      const container = scrollContainerRef.current;
+      if (!container) return;
+
+      const previous = previousEndsRef.current;
+      const firstId = messages[0]?.id;
+      const lastId = messages[messages.length - 1]?.id;
+      const previousFirstIndex = previous.firstId ? messages.findIndex(msg => msg.id === previous.firstId) : -1;
+
+      if (previousFirstIndex > 0 && lastId === previous.lastId) {
+        container.scrollTop += offsets[previousFirstIndex];
+      } else if (lastId !== previous.lastId || isAtBottomRef.current) {
+        container.scrollTop = container.scrollHeight;
+      }
+
+      previousEndsRef.current = { firstId, lastId };
+      updateViewport();
+    });
+
+    useImperativeHandle(ref, () => ({
+      scrollToMessage(messageId: string) {
+        const container = scrollContainerRef.current;
+        const index = messages.findIndex(msg => msg.id === messageId);
+        if (!container || index < 0) return false;
+
+        // Jump to the estimated position first so the message gets rendered
+        isAtBottomRef.current = false;
+        container.scrollTop = getListOffset() + offsets[index];
+
+        requestAnimationFrame(() => {
+          const element = container.querySelector(`[data-message-id="${CSS.escape(messageId)}"]`);
+          element?.scrollIntoView({ block: 'center' });
+        });
+        return true;
+      },
+      scrollToBottom() {
+        const container = scrollContainerRef.current;
+        if (!container) return;
+
+        isAtBottomRef.current = true;
+        container.scrollTop = container.scrollHeight;
+      }
+    }));
+
+    if (messages.length === 0) return null;
+
+    const startIndex = findIndexAt(offsets, viewport.top - OVERSCAN);
+    const endIndex = findIndexAt(offsets, viewport.top + viewport.height + OVERSCAN);
+    const endOffset = offsets[endIndex] + (heightsRef.current.get(messages[endIndex].id) ?? ESTIMATED_MESSAGE_HEIGHT);
+
+    return (
+      // The list keeps its own scroll position, the browser's anchoring would correct it twice
+      <div ref={listRef} className="[overflow-anchor:none]">
+        <div style={{ height: offsets[startIndex] }} />
+        {messages.slice(startIndex, endIndex + 1).map((message, i) => (
+          <MeasuredItem
+            key={message.id}
+            messageId={message.id}
+            observer={itemObserver}
+            highlighted={message.id === highlightedMessageId}
+          >
+            {renderMessage(message, startIndex + i)}
+          </MeasuredItem>
+        ))}
+        <div style={{ height: totalHeight - endOffset }} />
+      </div>
+    );
+  }
+);
@@ -0,0 +1,78 @@
+'use client';
+
+import React from 'react';
+import { Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { keyVault } from '@/lib/key-vault';
+import { getProvider } from '@/lib/providers';
+import { useKeyVault } from '@/hooks/use-key-vault';
+
+// Select value for "no pick", Radix Select items can't have an empty value
+const PROVIDER_DEFAULT = 'provider-default';
+
+interface ApiKeyPickerProps {
+  /** Picked key ID by provider ID */
+  value?: Record<string, string>;
+  onChange: (value: Record<string, string>) => void;
+  description: string;
+}
+
+/**
+ * Pick which of a provider's keys to use, for providers with several keys
+ */
+export function ApiKeyPicker({ value = {}, onChange, description }: ApiKeyPickerProps) {
+  const { status: vaultStatus, isUnlocked, requestUnlock } = useKeyVault();
+
+  // Providers with a choice to make, read from the unlocked vault on each render
+  const providers = isUnlocked
+    ? Object.entries(keyVault.getKeys())
+        .filter(([, keys]) => keys.length > 1)
+        .map(([id, keys]) => ({ id, name: getProvider(id)?.name || id, keys }))
+    : [];
+
+  const handleChange = (providerId: string, keyId: string) => {
+    const { [providerId]: _previous, ...rest } = value;
+    onChange(keyId === PROVIDER_DEFAULT ? rest : { ...rest, [providerId]: keyId });
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-base font-medium">API Keys</Label>
+      <p className="text-sm text-muted-foreground">{description}</p>
+      {!isUnlocked ? (
+        <Button variant="outline" size="sm" onClick={() => requestUnlock()}>
+          <Lock className="mr-2 h-4 w-4" />
+          {vaultStatus === 'locked' ? 'Unlock API keys to choose' : 'Set up API keys first'}
+        </Button>
+      ) : providers.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Add a second key to a provider under API Keys to choose between them.
+        </p>
+      ) : (
+        providers.map(provider => (
+          <div key={provider.id} className="flex items-center justify-between gap-2">
+            <span className="text-sm">{provider.name}</span>
+            <Select
+              value={provider.keys.some(k => k.id === value[provider.id]) ? value[provider.id] : PROVIDER_DEFAULT}
+              onValueChange={(keyId) => handleChange(provider.id, keyId)}
+            >
+              <SelectTrigger className="h-8 w-[200px]" aria-label={`${provider.name} key`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={PROVIDER_DEFAULT}>Provider default</SelectItem>
+                {provider.keys.map(apiKey => (
+                  <SelectItem key={apiKey.id} value={apiKey.id}>{apiKey.label || 'Unnamed key'}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
+
+export default ApiKeyPicker;
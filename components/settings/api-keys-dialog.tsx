@@ -1,6 +1,7 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { formatDistanceToNow } from 'date-fns';
 import {
   Dialog,
   DialogContent,
@@ -12,22 +13,62 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { apiKeyStorage } from '@/lib/api-keys';
-import { ApiKeys } from '@/lib/types';
+import { ApiKeys, KeyRotation, LabeledApiKey } from '@/lib/types';
+import { Separator } from '@/components/ui/separator';
+import { CustomProvidersSection } from '@/components/settings/custom-providers-section';
+import { LocalModelsSection } from '@/components/settings/local-models-section';
+import { Lock, Plus, RefreshCw, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { ProviderId } from '@/lib/providers';
+import { useAvailableModels } from '@/hooks/use-available-models';
+import { BudgetPeriod, budgetStorage, getProviderSpend } from '@/lib/budgets';
+import { useKeyVault } from '@/hooks/use-key-vault';
+import { useKeyHealth } from '@/hooks/use-key-health';
+import { verifyApiKey } from '@/lib/key-health';
+import { KeyStatusBadge } from '@/components/settings/key-status-badge';
+import { DEFAULT_KEY_LABEL, KeyVaultError } from '@/lib/key-vault';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 
 interface ApiKeysDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
 }
 
+// Providers whose keys are verified and whose spending can be capped
+const HOSTED_PROVIDERS: ProviderId[] = ['openai', 'anthropic', 'gemini'];
+
+// Wait for typing to stop before verifying a key
+const VERIFY_DELAY_MS = 800;
+
+const ROTATION_LABELS: Record<KeyRotation, string> = {
+  off: 'Default key only',
+  failover: 'Fail over on errors',
+  'round-robin': 'Round-robin'
+};
+
+type BudgetInputs = Record<BudgetPeriod, string>;
+
 export function ApiKeysDialog({ open, onOpenChange }: ApiKeysDialogProps) {
+  const { refreshProviderModels } = useAvailableModels();
+  const { status: vaultStatus, isUnlocked, requestUnlock, lock } = useKeyVault();
+  const { getState: getKeyState, getHealth: getKeyHealth } = useKeyHealth();
+  const [verifying, setVerifying] = useState<Record<string, boolean>>({});
+  const verifyTimers = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+  const [loadingModels, setLoadingModels] = useState<ProviderId | null>(null);
   const [apiKeys, setApiKeys] = useState<ApiKeys>({
     openai: '',
     anthropic: '',
     gemini: '',
     firecrawl: '',
   });
+  // Every key of the hosted providers, the default first
+  const [providerKeys, setProviderKeys] = useState<Record<string, LabeledApiKey[]>>({});
+  const [rotations, setRotations] = useState<Record<string, KeyRotation>>({});
+  // Budget fields as typed, saved as numbers
+  const [budgetInputs, setBudgetInputs] = useState<Record<string, BudgetInputs>>({});
+  const [spend, setSpend] = useState<Record<string, Record<BudgetPeriod, number>>>({});
 
-  // Load API keys on mount and when dialog opens
+  // Load API keys when the dialog opens, and again when the vault is unlocked or locked
   useEffect(() => {
     const loadApiKeys = async () => {
       try {
@@ -35,14 +76,41 @@ export function ApiKeysDialog({ open, onOpenChange }: ApiKeysDialogProps) {
         if (keys) {
           setApiKeys(keys);
         }
+        setProviderKeys(Object.fromEntries(HOSTED_PROVIDERS.map(provider => [provider, apiKeyStorage.getProviderKeys(provider)])));
+        setRotations(Object.fromEntries(HOSTED_PROVIDERS.map(provider => [provider, apiKeyStorage.getRotation(provider)])));
       } catch (error) {
         console.error('Error loading API keys:', error);
       }
     };
-    
+
     if (open) {
       loadApiKeys();
     }
+  }, [open, vaultStatus]);
+
+  // Load budgets when the dialog opens
+  useEffect(() => {
+    // Current budgets and what has been spent against them
+    const loadBudgets = async () => {
+      const budgets = budgetStorage.getBudgets();
+      setBudgetInputs(Object.fromEntries(HOSTED_PROVIDERS.map(provider => [provider, {
+        daily: budgets[provider]?.daily?.toString() || '',
+        monthly: budgets[provider]?.monthly?.toString() || ''
+      }])));
+
+      try {
+        const entries = await Promise.all(
+          HOSTED_PROVIDERS.map(async provider => [provider, await getProviderSpend(provider)] as const)
+        );
+        setSpend(Object.fromEntries(entries));
+      } catch (error) {
+        console.error('Error loading provider spend:', error);
+      }
+    };
+    
+    if (open) {
+      loadBudgets();
+    }
   }, [open]);
 
   // Listen for API key updates from other components
@@ -64,6 +132,28 @@ export function ApiKeysDialog({ open, onOpenChange }: ApiKeysDialogProps) {
     };
   }, []);
 
+  // Cancel pending verifications when the dialog goes away
+  useEffect(() => {
+    const timers = verifyTimers.current;
+    return () => {
+      Object.values(timers).forEach(clearTimeout);
+    };
+  }, []);
+
+  const handleVerifyKey = async (provider: ProviderId, apiKey: LabeledApiKey) => {
+    setVerifying(prev => ({ ...prev, [apiKey.id]: true }));
+    try {
+      await verifyApiKey(provider, apiKey);
+    } finally {
+      setVerifying(prev => ({ ...prev, [apiKey.id]: false }));
+    }
+  };
+
+  const scheduleVerification = (provider: ProviderId, apiKey: LabeledApiKey) => {
+    clearTimeout(verifyTimers.current[apiKey.id]);
+    verifyTimers.current[apiKey.id] = setTimeout(() => handleVerifyKey(provider, apiKey), VERIFY_DELAY_MS);
+  };
+
   const handleChangeKey = async (provider: keyof ApiKeys, value: string) => {
     const updatedKeys = { ...apiKeys, [provider]: value };
     setApiKeys(updatedKeys);
@@ -83,58 +173,298 @@ export function ApiKeysDialog({ open, onOpenChange }: ApiKeysDialogProps) {
         }));
       }
     } catch (error) {
-      console.error(`Error saving ${provider} API key:`, error);
+      handleSaveError(String(provider), error);
     }
   };
 
+  // Show why the keys weren't saved and go back to the stored ones
+  const handleSaveError = (provider: string, error: unknown) => {
+    console.error(`Error saving ${provider} API keys:`, error);
+    toast.error(error instanceof KeyVaultError ? error.message : `Could not save the ${provider} API key`);
+
+    const storedKeys = apiKeyStorage.getProviderKeys(provider);
+    setProviderKeys(prev => ({ ...prev, [provider]: storedKeys }));
+    setApiKeys(prev => ({ ...prev, [provider]: storedKeys[0]?.key || '' }));
+  };
+
+  // Save the keys of a hosted provider, the first one is its default
+  const saveProviderKeys = async (provider: ProviderId, keys: LabeledApiKey[]) => {
+    setProviderKeys(prev => ({ ...prev, [provider]: keys }));
+    setApiKeys(prev => ({ ...prev, [provider]: keys[0]?.key || '' }));
+    
+    try {
+      await apiKeyStorage.setProviderKeys(provider, keys);
+      
+      window.dispatchEvent(new CustomEvent('api-key-update', {
+        detail: { provider, key: keys[0]?.key || '' }
+      }));
+    } catch (error) {
+      handleSaveError(provider, error);
+    }
+  };
+
+  // keyId is null while the provider has no key yet
+  const handleChangeProviderKey = (provider: ProviderId, keyId: string | null, updates: Partial<LabeledApiKey>) => {
+    const keys = providerKeys[provider] || [];
+    const updatedKeys = keyId === null
+      ? [apiKeyStorage.createKey(DEFAULT_KEY_LABEL, updates.key)]
+      : keys.map(apiKey => apiKey.id === keyId ? { ...apiKey, ...updates } : apiKey);
+    
+    // Emptying the only key removes it
+    const remainingKeys = updatedKeys.length === 1 && !updatedKeys[0].key ? [] : updatedKeys;
+    saveProviderKeys(provider, remainingKeys);
+    
+    const changedKey = updatedKeys.find(apiKey => keyId === null || apiKey.id === keyId);
+    if (changedKey && updates.key !== undefined) {
+      scheduleVerification(provider, changedKey);
+    }
+  };
+
+  const handleAddKey = (provider: ProviderId) => {
+    const keys = providerKeys[provider] || [];
+    saveProviderKeys(provider, [...keys, apiKeyStorage.createKey(`Key ${keys.length + 1}`)]);
+  };
+
+  const handleRemoveKey = (provider: ProviderId, keyId: string) => {
+    saveProviderKeys(provider, (providerKeys[provider] || []).filter(apiKey => apiKey.id !== keyId));
+  };
+
+  const handleChangeRotation = (provider: ProviderId, rotation: KeyRotation) => {
+    apiKeyStorage.setRotation(provider, rotation);
+    setRotations(prev => ({ ...prev, [provider]: rotation }));
+  };
+
+  const handleChangeBudget = (provider: ProviderId, period: BudgetPeriod, value: string) => {
+    const inputs: BudgetInputs = { ...(budgetInputs[provider] || { daily: '', monthly: '' }), [period]: value };
+    setBudgetInputs(prev => ({ ...prev, [provider]: inputs }));
+
+    budgetStorage.setBudget(provider, {
+      daily: parseFloat(inputs.daily) || undefined,
+      monthly: parseFloat(inputs.monthly) || undefined
+    });
+  };
+
+  // Fetch the models available to a key so they show up in the model selector
+  const handleLoadModels = async (provider: ProviderId) => {
+    setLoadingModels(provider);
+    try {
+      const models = await refreshProviderModels(provider);
+      toast.success(`Loaded ${models.length} ${models.length === 1 ? 'model' : 'models'}`);
+    } catch (error: any) {
+      console.error(`Error loading ${provider} models:`, error);
+      toast.error(`Could not load models: ${error.message}`);
+    } finally {
+      setLoadingModels(null);
+    }
+  };
+
+  const renderLoadModelsButton = (provider: ProviderId) => (
+    <Button
+      variant="ghost"
+      size="sm"
+      className="h-6 shrink-0 px-2 text-xs"
+      onClick={() => handleLoadModels(provider)}
+      disabled={!apiKeys[provider] || loadingModels !== null}
+    >
+      <RefreshCw className={`mr-1 h-3 w-3 ${loadingModels === provider ? 'animate-spin' : ''}`} />
+      Load models
+    </Button>
+  );
+
+  const renderKeyLabel = (provider: ProviderId, label: string) => {
+    const state = getKeyState(provider);
+    return (
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor={`${provider}-key`}>{label}</Label>
+        {(providerKeys[provider] || []).some(apiKey => verifying[apiKey.id]) ? (
+          <span className="text-xs text-muted-foreground">Verifying...</span>
+        ) : state && (
+          <KeyStatusBadge state={state} />
+        )}
+      </div>
+    );
+  };
+
+  // When the key was last verified, its account or why it failed
+  const renderKeyHealth = (provider: ProviderId, apiKey: LabeledApiKey) => {
+    const health = getKeyHealth(apiKey);
+    if (!apiKey.key || !isUnlocked) return null;
+
+    return (
+      <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+        <p className={health && health.status !== 'valid' ? 'text-destructive' : undefined}>
+          {health
+            ? [
+                health.status === 'valid' ? 'Verified' : health.error,
+                health.account,
+                formatDistanceToNow(new Date(health.verifiedAt), { addSuffix: true })
+              ].filter(Boolean).join(' · ')
+            : 'Not verified yet'}
+        </p>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 shrink-0 px-2 text-xs"
+          onClick={() => handleVerifyKey(provider, apiKey)}
+          disabled={verifying[apiKey.id]}
+        >
+          Verify
+        </Button>
+      </div>
+    );
+  };
+
+  // One row per key, with labels and a rotation setting once there are several
+  const renderProviderKeys = (provider: ProviderId, placeholder: string) => {
+    const keys = providerKeys[provider] || [];
+    const rows: (LabeledApiKey | null)[] = keys.length > 0 ? keys : [null];
+
+    return (
+      <>
+        {rows.map((apiKey, index) => (
+          <div key={apiKey?.id || 'new'} className="grid gap-1">
+            <div className="flex items-center gap-2">
+              {apiKey && keys.length > 1 && (
+                <Input
+                  aria-label="Key label"
+                  className="w-28 shrink-0"
+                  value={apiKey.label}
+                  onChange={(e) => handleChangeProviderKey(provider, apiKey.id, { label: e.target.value })}
+                  disabled={!isUnlocked}
+                  placeholder="Label"
+                />
+              )}
+              <Input
+                id={index === 0 ? `${provider}-key` : undefined}
+                type="password"
+                value={apiKey?.key || ''}
+                onChange={(e) => handleChangeProviderKey(provider, apiKey?.id ?? null, { key: e.target.value })}
+                disabled={!isUnlocked}
+                placeholder={placeholder}
+              />
+              {apiKey && keys.length > 1 && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  onClick={() => handleRemoveKey(provider, apiKey.id)}
+                  disabled={!isUnlocked}
+                  aria-label={`Remove ${apiKey.label}`}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+            {apiKey && renderKeyHealth(provider, apiKey)}
+          </div>
+        ))}
+        {keys.length > 0 && isUnlocked && (
+          <div className="flex items-center justify-between gap-2">
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => handleAddKey(provider)}>
+              <Plus className="mr-1 h-3 w-3" />
+              Add key
+            </Button>
+            {keys.length > 1 && (
+              <Select
+                value={rotations[provider] || 'off'}
+                onValueChange={(value) => handleChangeRotation(provider, value as KeyRotation)}
+              >
+                <SelectTrigger className="h-7 w-[170px] text-xs" aria-label="Key rotation">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(ROTATION_LABELS) as KeyRotation[]).map(rotation => (
+                    <SelectItem key={rotation} value={rotation} className="text-xs">
+                      {ROTATION_LABELS[rotation]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        )}
+      </>
+    );
+  };
+
+  const renderBudgetFields = (provider: ProviderId) => (
+    <div className="grid grid-cols-2 gap-2">
+      {(['daily', 'monthly'] as const).map(period => (
+        <div key={period} className="grid gap-1">
+          <Label htmlFor={`${provider}-${period}-budget`} className="text-xs font-normal text-muted-foreground">
+            {period === 'daily' ? 'Daily' : 'Monthly'} budget (USD)
+            {spend[provider] && ` · $${spend[provider][period].toFixed(2)} spent`}
+          </Label>
+          <Input
+            id={`${provider}-${period}-budget`}
+            type="number"
+            min="0"
+            step="0.01"
+            className="h-8"
+            value={budgetInputs[provider]?.[period] || ''}
+            onChange={(e) => handleChangeBudget(provider, period, e.target.value)}
+            placeholder="No limit"
+          />
+        </div>
+      ))}
+    </div>
+  );
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[425px]">
+      <DialogContent className="sm:max-w-[425px] max-h-[85vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>API Keys</DialogTitle>
           <DialogDescription>
-            Enter your API keys for the AI providers you want to use.
+            Enter your API keys for the AI providers you want to use, and optionally cap what each may spend. Keys are stored encrypted with your passphrase. Add several keys to a provider to rotate between them or to pick one per folder or profile.
           </DialogDescription>
         </DialogHeader>
         <div className="grid gap-4 py-4">
+          {!isUnlocked && (
+            <div className="flex items-center justify-between gap-2 rounded-md border p-3">
+              <p className="text-xs text-muted-foreground">
+                {vaultStatus === 'locked'
+                  ? 'Your API keys are locked. Unlock them with your passphrase to view or change them.'
+                  : 'Keys are encrypted with a passphrase. Set one before adding your first key.'}
+              </p>
+              <Button size="sm" variant="outline" className="shrink-0" onClick={() => requestUnlock()}>
+                <Lock className="mr-1 h-3 w-3" />
+                {vaultStatus === 'locked' ? 'Unlock' : 'Set passphrase'}
+              </Button>
+            </div>
+          )}
           <div className="grid gap-2">
-            <Label htmlFor="openai-key">OpenAI API Key</Label>
-            <Input
-              id="openai-key"
-              type="password"
-              value={apiKeys.openai || ''}
-              onChange={(e) => handleChangeKey('openai', e.target.value)}
-              placeholder="sk-..."
-            />
-            <p className="text-xs text-muted-foreground">
-              Used for GPT-4 and other OpenAI models
-            </p>
+            {renderKeyLabel('openai', 'OpenAI API Key')}
+            {renderProviderKeys('openai', 'sk-...')}
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-xs text-muted-foreground">
+                Used for GPT-4 and other OpenAI models
+              </p>
+              {renderLoadModelsButton('openai')}
+            </div>
+            {renderBudgetFields('openai')}
           </div>
           <div className="grid gap-2">
-            <Label htmlFor="anthropic-key">Anthropic API Key</Label>
-            <Input
-              id="anthropic-key"
-              type="password"
-              value={apiKeys.anthropic || ''}
-              onChange={(e) => handleChangeKey('anthropic', e.target.value)}
-              placeholder="sk-ant-..."
-            />
-            <p className="text-xs text-muted-foreground">
-              Used for Claude and other Anthropic models
-            </p>
+            {renderKeyLabel('anthropic', 'Anthropic API Key')}
+            {renderProviderKeys('anthropic', 'sk-ant-...')}
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-xs text-muted-foreground">
+                Used for Claude and other Anthropic models
+              </p>
+              {renderLoadModelsButton('anthropic')}
+            </div>
+            {renderBudgetFields('anthropic')}
           </div>
           <div className="grid gap-2">
-            <Label htmlFor="gemini-key">Google AI API Key</Label>
-            <Input
-              id="gemini-key"
-              type="password"
-              value={apiKeys.gemini || ''}
-              onChange={(e) => handleChangeKey('gemini', e.target.value)}
-              placeholder="AIza..."
-            />
-            <p className="text-xs text-muted-foreground">
-              Used for Gemini and other Google AI models
-            </p>
+            {renderKeyLabel('gemini', 'Google AI API Key')}
+            {renderProviderKeys('gemini', 'AIza...')}
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-xs text-muted-foreground">
+                Used for Gemini and other Google AI models
+              </p>
+              {renderLoadModelsButton('gemini')}
+            </div>
+            {renderBudgetFields('gemini')}
           </div>
           <div className="grid gap-2">
             <Label htmlFor="firecrawl-key">Firecrawl API Key</Label>
@@ -143,18 +473,25 @@ export function ApiKeysDialog({ open, onOpenChange }: ApiKeysDialogProps) {
               type="password"
               value={apiKeys.firecrawl || ''}
               onChange={(e) => handleChangeKey('firecrawl', e.target.value)}
+              disabled={!isUnlocked}
               placeholder="Firecrawl API key..."
             />
             <p className="text-xs text-muted-foreground">
               <strong>Required</strong> for web search functionality. The globe button in the chat panel will not work without this key.
             </p>
           </div>
+          <Separator />
+          <CustomProvidersSection />
+          <Separator />
+          <LocalModelsSection />
         </div>
         <div className="flex justify-between">
           <Button
             className="text-destructive hover:text-destructive border border-input bg-background hover:bg-accent"
+            disabled={!isUnlocked}
             onClick={() => {
               apiKeyStorage.clearAllApiKeys();
+              setProviderKeys({});
               setApiKeys({
                 openai: '',
                 anthropic: '',
@@ -170,12 +507,20 @@ export function ApiKeysDialog({ open, onOpenChange }: ApiKeysDialogProps) {
           >
             Clear All Keys
           </Button>
-          <Button
-            className="bg-primary text-primary-foreground hover:bg-primary/90"
-            onClick={() => onOpenChange(false)}
-          >
-            Done
-          </Button>
+          <div className="flex gap-2">
+            {isUnlocked && (
+              <Button variant="outline" onClick={lock}>
+                <Lock className="mr-1 h-4 w-4" />
+                Lock
+              </Button>
+            )}
+            <Button
+              className="bg-primary text-primary-foreground hover:bg-primary/90"
+              onClick={() => onOpenChange(false)}
+            >
+              Done
+            </Button>
+          </div>
         </div>
       </DialogContent>
     </Dialog>
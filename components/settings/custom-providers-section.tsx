@@ -0,0 +1,243 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Plus, Pencil, Trash2, Server } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from 'sonner';
+import { CustomProvider } from '@/lib/types';
+import { apiKeyStorage } from '@/lib/api-keys';
+import { KeyVaultError } from '@/lib/key-vault';
+import { verifyApiKey } from '@/lib/key-health';
+import { useKeyHealth } from '@/hooks/use-key-health';
+import { KeyStatusBadge } from '@/components/settings/key-status-badge';
+import { formatHeaderLines, isValidBaseUrl, parseHeaderLines } from '@/lib/custom-providers';
+import { useCustomProviders } from '@/hooks/use-custom-providers';
+
+type ProviderForm = {
+  name: string;
+  baseUrl: string;
+  apiKey: string;
+  headers: string;
+  models: string;
+};
+
+const EMPTY_FORM: ProviderForm = {
+  name: '',
+  baseUrl: '',
+  apiKey: '',
+  headers: '',
+  models: ''
+};
+
+/**
+ * Settings section for user-defined OpenAI-compatible endpoints
+ */
+export function CustomProvidersSection() {
+  const { providers, addProvider, updateProvider, removeProvider } = useCustomProviders();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const [form, setForm] = useState<ProviderForm>(EMPTY_FORM);
+  const { getState, getHealth } = useKeyHealth();
+
+  const handleStartAdd = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+    setIsAdding(true);
+  };
+
+  const handleStartEdit = async (provider: CustomProvider) => {
+    const keys = await apiKeyStorage.getApiKeys();
+    setForm({
+      name: provider.name,
+      baseUrl: provider.baseUrl,
+      apiKey: keys[provider.id] || '',
+      headers: formatHeaderLines(provider.headers),
+      models: provider.models.join('\n')
+    });
+    setEditingId(provider.id);
+    setIsAdding(true);
+  };
+
+  const handleCancel = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+    setIsAdding(false);
+  };
+
+  const handleSave = async () => {
+    const name = form.name.trim();
+    const baseUrl = form.baseUrl.trim();
+    const models = form.models
+      .split(/[\n,]/)
+      .map(model => model.trim())
+      .filter(Boolean);
+
+    if (!name) {
+      toast.error('Please enter a name for the endpoint');
+      return;
+    }
+    if (!isValidBaseUrl(baseUrl)) {
+      toast.error('Base URL must start with http:// or https://');
+      return;
+    }
+    if (models.length === 0) {
+      toast.error('Please add at least one model');
+      return;
+    }
+
+    const data = {
+      name,
+      baseUrl,
+      headers: parseHeaderLines(form.headers),
+      models: Array.from(new Set(models))
+    };
+
+    try {
+      let providerId = editingId;
+      if (editingId) {
+        await updateProvider(editingId, data, form.apiKey.trim());
+        toast.success(`${name} updated`);
+      } else {
+        providerId = (await addProvider(data, form.apiKey.trim())).id;
+        toast.success(`${name} added`);
+      }
+      handleCancel();
+
+      // Check the key against the endpoint's model list
+      const [apiKey] = providerId ? apiKeyStorage.getProviderKeys(providerId) : [];
+      if (providerId && apiKey) {
+        verifyApiKey(providerId, apiKey);
+      }
+    } catch (error) {
+      console.error('Error saving custom provider:', error);
+      toast.error(error instanceof KeyVaultError ? error.message : 'Failed to save endpoint');
+    }
+  };
+
+  const handleRemove = async (provider: CustomProvider) => {
+    await removeProvider(provider.id);
+    if (editingId === provider.id) {
+      handleCancel();
+    }
+    toast.success(`${provider.name} removed`);
+  };
+
+  // Only endpoints with a key have something to show, many run without authentication
+  const renderKeyState = (providerId: string) => {
+    const state = getState(providerId);
+    if (!state || state === 'missing') return null;
+
+    const [apiKey] = apiKeyStorage.getProviderKeys(providerId);
+    return <KeyStatusBadge state={state} health={apiKey && getHealth(apiKey)} />;
+  };
+
+  return (
+    <div className="grid gap-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label className="text-base">Custom Endpoints</Label>
+          <p className="text-xs text-muted-foreground">
+            OpenAI-compatible gateways such as vLLM or LiteLLM
+          </p>
+        </div>
+        {!isAdding && (
+          <Button variant="outline" size="sm" onClick={handleStartAdd}>
+            <Plus className="mr-1 h-4 w-4" />
+            Add
+          </Button>
+        )}
+      </div>
+
+      {providers.map(provider => (
+        <div key={provider.id} className="flex items-center justify-between rounded-md border px-3 py-2">
+          <div className="flex min-w-0 items-center">
+            <Server className="mr-2 h-4 w-4 shrink-0 text-muted-foreground" />
+            <div className="min-w-0">
+              <p className="flex items-center gap-2 truncate text-sm font-medium">
+                {provider.name}
+                {renderKeyState(provider.id)}
+              </p>
+              <p className="truncate text-xs text-muted-foreground">
+                {provider.baseUrl} · {provider.models.length} {provider.models.length === 1 ? 'model' : 'models'}
+              </p>
+            </div>
+          </div>
+          <div className="flex shrink-0 items-center">
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => handleStartEdit(provider)} aria-label={`Edit ${provider.name}`}>
+              <Pencil className="h-3.5 w-3.5" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive hover:text-destructive" onClick={() => handleRemove(provider)} aria-label={`Remove ${provider.name}`}>
+              <Trash2 className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      {isAdding && (
+        <div className="grid gap-3 rounded-md border p-3">
+          <div className="grid gap-1.5">
+            <Label htmlFor="custom-provider-name">Name</Label>
+            <Input
+              id="custom-provider-name"
+              value={form.name}
+              onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+              placeholder="Team LiteLLM"
+            />
+          </div>
+          <div className="grid gap-1.5">
+            <Label htmlFor="custom-provider-url">Base URL</Label>
+            <Input
+              id="custom-provider-url"
+              value={form.baseUrl}
+              onChange={(e) => setForm(prev => ({ ...prev, baseUrl: e.target.value }))}
+              placeholder="https://llm.example.com/v1"
+            />
+          </div>
+          <div className="grid gap-1.5">
+            <Label htmlFor="custom-provider-key">API Key (optional)</Label>
+            <Input
+              id="custom-provider-key"
+              type="password"
+              value={form.apiKey}
+              onChange={(e) => setForm(prev => ({ ...prev, apiKey: e.target.value }))}
+              placeholder="sk-..."
+            />
+          </div>
+          <div className="grid gap-1.5">
+            <Label htmlFor="custom-provider-headers">Extra Headers (optional)</Label>
+            <Textarea
+              id="custom-provider-headers"
+              value={form.headers}
+              onChange={(e) => setForm(prev => ({ ...prev, headers: e.target.value }))}
+              rows={2}
+              placeholder="X-Team-Id: research"
+            />
+            <p className="text-xs text-muted-foreground">One header per line, as Name: value</p>
+          </div>
+          <div className="grid gap-1.5">
+            <Label htmlFor="custom-provider-models">Models</Label>
+            <Textarea
+              id="custom-provider-models"
+              value={form.models}
+              onChange={(e) => setForm(prev => ({ ...prev, models: e.target.value }))}
+              rows={3}
+              placeholder="meta-llama/Llama-3.1-8B-Instruct"
+            />
+            <p className="text-xs text-muted-foreground">One model name per line, exactly as the endpoint expects it</p>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={handleCancel}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleSave}>
+              {editingId ? 'Save' : 'Add Endpoint'}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { ExportFormat, ExportScope } from '@/lib/chat-export';
+import { EXPORT_FORMAT_OPTIONS, runExport } from '@/components/chat/export-menu';
+
+interface DataExportSectionProps {
+  scope: ExportScope;
+  title?: string;
+  description?: string;
+}
+
+/**
+ * Settings section with one download button per export format
+ */
+export function DataExportSection({
+  scope,
+  title = 'Export Data',
+  description = 'Download all chats, folders, profiles and settings. API keys are never included.'
+}: DataExportSectionProps) {
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format);
+    try {
+      await runExport(scope, format);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-base">{title}</Label>
+      <p className="text-muted-foreground text-sm">{description}</p>
+      <div className="flex flex-wrap gap-2">
+        {EXPORT_FORMAT_OPTIONS.map(({ format, label, icon: Icon }) => (
+          <Button
+            key={format}
+            variant="outline"
+            size="sm"
+            disabled={exporting !== null}
+            onClick={() => handleExport(format)}
+          >
+            {exporting === format ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Icon className="mr-2 h-4 w-4" />
+            )}
+            {label}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
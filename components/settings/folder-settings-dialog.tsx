@@ -15,12 +15,15 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { ArrowLeft, FolderOpen } from 'lucide-react';
 import { toast } from 'sonner';
+import { DataExportSection } from '@/components/settings/data-export-section';
+import { ApiKeyPicker } from '@/components/settings/api-key-picker';
 
 interface FolderSettingsDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   folderId: string;
   folderName: string;
+  folderApiKeyIds?: Record<string, string>;
   onUpdateFolder?: (folderId: string, updates: any) => void;
   onDeleteFolder?: (folderId: string) => void;
 }
@@ -30,17 +33,19 @@ export function FolderSettingsDialog({
   onOpenChange,
   folderId,
   folderName,
+  folderApiKeyIds,
   onUpdateFolder,
   onDeleteFolder
 }: FolderSettingsDialogProps) {
   // State for folder settings
   const [name, setName] = useState<string>(folderName);
   const [instructions, setInstructions] = useState<string>("");
+  const [apiKeyIds, setApiKeyIds] = useState<Record<string, string>>(folderApiKeyIds || {});
 
   // Handle save changes
   const saveChanges = () => {
     if (onUpdateFolder && name.trim()) {
-      onUpdateFolder(folderId, { name: name.trim() });
+      onUpdateFolder(folderId, { name: name.trim(), apiKeyIds });
       toast.success("Folder updated successfully");
       onOpenChange(false);
     } else if (!name.trim()) {
@@ -98,6 +103,20 @@ export function FolderSettingsDialog({
               className="min-h-[150px]"
             />
           </div>
+          
+          {/* API Keys */}
+          <ApiKeyPicker
+            value={apiKeyIds}
+            onChange={setApiKeyIds}
+            description="Key used for the chats in this folder, instead of the provider's default or rotation."
+          />
+          
+          {/* Folder Export */}
+          <DataExportSection
+            scope={{ type: 'folder', folderId }}
+            title="Export Folder"
+            description="Download the chats in this folder."
+          />
         </div>
         
         <DialogFooter className="flex justify-end items-center">
@@ -0,0 +1,132 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { Loader2, Upload } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { toast } from 'sonner';
+import { IMPORT_SOURCE_NAMES, ImportResult, importConversations } from '@/lib/chat-import';
+
+interface ImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Dialog for importing conversations.json from a ChatGPT or Claude export
+ */
+export function ImportDialog({ open, onOpenChange }: ImportDialogProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setProgress({ done: 0, total: 0 });
+    setResult(null);
+    setError(null);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    // Don't close halfway through writing an import
+    if (isImporting) return;
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    reset();
+    setIsImporting(true);
+    try {
+      const text = await file.text();
+      const importResult = await importConversations(text, (done, total) => setProgress({ done, total }));
+      setResult(importResult);
+      toast.success(`Imported conversations from ${IMPORT_SOURCE_NAMES[importResult.source]}`);
+    } catch (err) {
+      console.error('Error importing conversations:', err);
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const percent = progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Import Conversations</DialogTitle>
+          <DialogDescription>
+            Select the conversations.json file from an unzipped ChatGPT or Claude data export.
+            Importing the same file again only updates conversations that changed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={handleFileChange}
+          />
+          <Button
+            variant="outline"
+            className="w-full"
+            disabled={isImporting}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            {isImporting ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Upload className="mr-2 h-4 w-4" />
+            )}
+            {isImporting ? 'Importing...' : 'Choose file'}
+          </Button>
+
+          {isImporting && (
+            <div className="space-y-1">
+              <Progress value={percent} className="h-2" />
+              <p className="text-xs text-muted-foreground">
+                {progress.total > 0 ? `${progress.done} of ${progress.total} conversations written` : 'Reading file...'}
+              </p>
+            </div>
+          )}
+
+          {result && (
+            <div className="rounded-md bg-muted/50 p-3 text-sm">
+              <p className="font-medium">{IMPORT_SOURCE_NAMES[result.source]} import complete</p>
+              <p className="text-muted-foreground">
+                {result.imported} new, {result.updated} updated, {result.skipped} unchanged
+              </p>
+            </div>
+          )}
+
+          {error && (
+            <p className="text-sm text-destructive">{error}</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" disabled={isImporting} onClick={() => handleOpenChange(false)}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,44 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { KeyHealth, KeyState, describeKeyState } from '@/lib/key-health';
+
+interface KeyStatusBadgeProps {
+  state: KeyState;
+  health?: KeyHealth;
+  className?: string;
+}
+
+const LABELS: Record<KeyState, string> = {
+  valid: 'Verified',
+  invalid: 'Invalid key',
+  unreachable: 'Unreachable',
+  missing: 'No key',
+  unverified: 'Unverified'
+};
+
+const COLORS: Record<KeyState, string> = {
+  valid: 'border-transparent bg-green-600 text-white hover:bg-green-600',
+  invalid: 'border-transparent bg-destructive text-destructive-foreground hover:bg-destructive',
+  unreachable: 'border-transparent bg-amber-500 text-white hover:bg-amber-500',
+  missing: 'border-transparent bg-destructive text-destructive-foreground hover:bg-destructive',
+  unverified: 'text-muted-foreground'
+};
+
+/**
+ * Green/red badge with the verification status of a provider's API key
+ */
+export function KeyStatusBadge({ state, health, className }: KeyStatusBadgeProps) {
+  return (
+    <Badge
+      variant="outline"
+      className={cn('px-1.5 py-0 text-[10px] font-medium', COLORS[state], className)}
+      title={describeKeyState(state, health)}
+    >
+      {LABELS[state]}
+    </Badge>
+  );
+}
+
+export default KeyStatusBadge;
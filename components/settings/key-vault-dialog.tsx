@@ -0,0 +1,231 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Lock } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  KEY_VAULT_UNLOCK_REQUEST_EVENT,
+  KeyVaultError,
+  MIN_PASSPHRASE_LENGTH,
+  keyVault
+} from '@/lib/key-vault';
+import { toast } from 'sonner';
+
+// migrate: plaintext keys from an older version need a passphrase before anything else
+type VaultDialogMode = 'create' | 'migrate' | 'unlock';
+
+// User activity that postpones the auto-lock
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel'] as const;
+
+const TITLES: Record<VaultDialogMode, string> = {
+  create: 'Set a passphrase',
+  migrate: 'Encrypt your API keys',
+  unlock: 'Unlock API keys'
+};
+
+const DESCRIPTIONS: Record<VaultDialogMode, string> = {
+  create: 'Your API keys are encrypted with this passphrase before they are stored. You will need it to unlock them in each session.',
+  migrate: 'Your API keys are currently stored unencrypted. Choose a passphrase to encrypt them; you will need it to unlock them in each session.',
+  unlock: 'Enter your passphrase to decrypt your API keys for this session. They lock again after a while without activity.'
+};
+
+/**
+ * Passphrase prompt of the API key vault
+ * Opens at startup to unlock the vault or encrypt plaintext keys, and whenever
+ * something needs the keys while the vault is locked.
+ */
+export function KeyVaultDialog() {
+  const [mode, setMode] = useState<VaultDialogMode | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [confirmReset, setConfirmReset] = useState(false);
+
+  const open = (nextMode: VaultDialogMode) => {
+    setPassphrase('');
+    setConfirmation('');
+    setError(null);
+    setConfirmReset(false);
+    setMode(nextMode);
+  };
+
+  // Startup prompt, plus prompts requested while the vault is locked
+  useEffect(() => {
+    const status = keyVault.getVaultStatus();
+    if (status === 'none' && keyVault.hasPlaintextKeys()) {
+      open('migrate');
+    } else if (status === 'locked') {
+      open('unlock');
+    }
+
+    const handleUnlockRequest = () => {
+      open(keyVault.getVaultStatus() === 'locked' ? 'unlock' : 'create');
+    };
+
+    window.addEventListener(KEY_VAULT_UNLOCK_REQUEST_EVENT, handleUnlockRequest);
+    return () => {
+      window.removeEventListener(KEY_VAULT_UNLOCK_REQUEST_EVENT, handleUnlockRequest);
+    };
+  }, []);
+
+  // Postpone the auto-lock while the user is active
+  useEffect(() => {
+    const handleActivity = () => keyVault.touch();
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+    };
+  }, []);
+
+  const close = () => {
+    setMode(null);
+    setPassphrase('');
+    setConfirmation('');
+    keyVault.cancelUnlockRequest();
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!mode) return;
+
+    if (mode !== 'unlock' && passphrase !== confirmation) {
+      setError('The passphrases do not match');
+      return;
+    }
+
+    setIsWorking(true);
+    setError(null);
+    try {
+      if (mode === 'unlock') {
+        await keyVault.unlock(passphrase);
+      } else {
+        await keyVault.createVault(passphrase);
+        if (mode === 'migrate') {
+          toast.success('Your API keys are now encrypted');
+        }
+      }
+      setMode(null);
+      setPassphrase('');
+      setConfirmation('');
+    } catch (err) {
+      console.error('Key vault error:', err);
+      setError(err instanceof KeyVaultError ? err.message : 'Could not access the key vault');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // Forgotten passphrase: the encrypted keys can't be recovered, start over
+  const handleReset = () => {
+    if (!confirmReset) {
+      setConfirmReset(true);
+      return;
+    }
+    keyVault.resetVault();
+    toast.success('Your stored API keys were deleted');
+    open('create');
+  };
+
+  const handleDiscardPlaintextKeys = () => {
+    keyVault.discardPlaintextKeys();
+    toast.success('Your stored API keys were deleted');
+    close();
+  };
+
+  return (
+    <Dialog
+      open={mode !== null}
+      onOpenChange={(isOpen) => {
+        // The plaintext keys have to be encrypted or deleted
+        if (!isOpen && mode !== 'migrate') close();
+      }}
+    >
+      <DialogContent
+        className="sm:max-w-[425px]"
+        onInteractOutside={(e) => mode === 'migrate' && e.preventDefault()}
+        onEscapeKeyDown={(e) => mode === 'migrate' && e.preventDefault()}
+      >
+        {mode && (
+          <form onSubmit={handleSubmit}>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <Lock className="h-4 w-4" />
+                {TITLES[mode]}
+              </DialogTitle>
+              <DialogDescription>{DESCRIPTIONS[mode]}</DialogDescription>
+            </DialogHeader>
+            <div className="grid gap-4 py-4">
+              <div className="grid gap-2">
+                <Label htmlFor="vault-passphrase">Passphrase</Label>
+                <Input
+                  id="vault-passphrase"
+                  type="password"
+                  autoFocus
+                  autoComplete={mode === 'unlock' ? 'current-password' : 'new-password'}
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  disabled={isWorking}
+                />
+                {mode !== 'unlock' && (
+                  <p className="text-xs text-muted-foreground">
+                    At least {MIN_PASSPHRASE_LENGTH} characters. It can&apos;t be recovered if you forget it.
+                  </p>
+                )}
+              </div>
+              {mode !== 'unlock' && (
+                <div className="grid gap-2">
+                  <Label htmlFor="vault-passphrase-confirmation">Confirm passphrase</Label>
+                  <Input
+                    id="vault-passphrase-confirmation"
+                    type="password"
+                    autoComplete="new-password"
+                    value={confirmation}
+                    onChange={(e) => setConfirmation(e.target.value)}
+                    disabled={isWorking}
+                  />
+                </div>
+              )}
+              {error && <p className="text-sm text-destructive">{error}</p>}
+            </div>
+            <DialogFooter className="gap-2 sm:justify-between">
+              {mode === 'unlock' && (
+                <Button type="button" variant="ghost" className="text-destructive hover:text-destructive" onClick={handleReset}>
+                  {confirmReset ? 'Delete keys and start over' : 'Forgot passphrase?'}
+                </Button>
+              )}
+              {mode === 'migrate' && (
+                <Button type="button" variant="ghost" className="text-destructive hover:text-destructive" onClick={handleDiscardPlaintextKeys}>
+                  Delete stored keys
+                </Button>
+              )}
+              <div className="flex gap-2 sm:ml-auto">
+                {mode !== 'migrate' && (
+                  <Button type="button" variant="outline" onClick={close}>
+                    Not now
+                  </Button>
+                )}
+                <Button type="submit" disabled={isWorking || !passphrase}>
+                  {isWorking ? 'Working...' : mode === 'unlock' ? 'Unlock' : 'Encrypt keys'}
+                </Button>
+              </div>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default KeyVaultDialog;
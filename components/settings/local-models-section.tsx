@@ -0,0 +1,104 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Cpu, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { toast } from 'sonner';
+import { isValidBaseUrl } from '@/lib/custom-providers';
+import { useLocalModels } from '@/hooks/use-local-models';
+
+/**
+ * Settings section for models served by a local Ollama or LM Studio server
+ */
+export function LocalModelsSection() {
+  const { config, localModels, isDiscovering, error, refresh, updateConfig } = useLocalModels();
+  const [baseUrl, setBaseUrl] = useState(config.baseUrl);
+
+  // Keep the input in sync when the config is loaded or changed elsewhere
+  useEffect(() => {
+    setBaseUrl(config.baseUrl);
+  }, [config.baseUrl]);
+
+  const handleToggle = async (enabled: boolean) => {
+    updateConfig({ enabled });
+    if (enabled) {
+      await refresh();
+    }
+  };
+
+  const handleDiscover = async () => {
+    const url = baseUrl.trim();
+    if (!isValidBaseUrl(url)) {
+      toast.error('Server URL must start with http:// or https://');
+      return;
+    }
+
+    updateConfig({ baseUrl: url });
+    const models = await refresh(url);
+    if (models) {
+      toast.success(`Found ${models.length} local ${models.length === 1 ? 'model' : 'models'}`);
+    }
+  };
+
+  return (
+    <div className="grid gap-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label htmlFor="local-models-enabled" className="text-base">Local Models</Label>
+          <p className="text-xs text-muted-foreground">
+            Models installed in Ollama or LM Studio, no API key required
+          </p>
+        </div>
+        <Switch
+          id="local-models-enabled"
+          checked={config.enabled}
+          onCheckedChange={handleToggle}
+        />
+      </div>
+
+      {config.enabled && (
+        <>
+          <div className="grid gap-1.5">
+            <Label htmlFor="local-models-url">Server URL</Label>
+            <div className="flex gap-2">
+              <Input
+                id="local-models-url"
+                value={baseUrl}
+                onChange={(e) => setBaseUrl(e.target.value)}
+                placeholder="http://localhost:11434"
+              />
+              <Button variant="outline" size="sm" className="h-10 shrink-0" onClick={handleDiscover} disabled={isDiscovering}>
+                <RefreshCw className={`mr-1 h-4 w-4 ${isDiscovering ? 'animate-spin' : ''}`} />
+                Discover
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Ollama uses port 11434 and LM Studio uses port 1234. When the app runs in the browser,
+              allow it in Ollama by setting OLLAMA_ORIGINS, or enable CORS in LM Studio&apos;s server settings.
+            </p>
+          </div>
+
+          {error && <p className="text-xs text-destructive">{error}</p>}
+
+          {localModels.length > 0 ? (
+            <div className="flex flex-wrap gap-1.5">
+              {localModels.map(model => (
+                <span key={model.id} className="flex items-center rounded-md border px-2 py-1 text-xs">
+                  <Cpu className="mr-1 h-3 w-3 text-muted-foreground" />
+                  {model.name}
+                </span>
+              ))}
+            </div>
+          ) : (
+            !error && !isDiscovering && (
+              <p className="text-xs text-muted-foreground">No local models found yet</p>
+            )
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -23,12 +23,15 @@ import {
 import { Slider } from '@/components/ui/slider';
 import { Switch } from '@/components/ui/switch';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { ModelSettings } from '@/lib/types';
+import { AIModel, ModelSettings } from '@/lib/types';
+import { getModelInfo } from '@/lib/model-registry';
 import { useSettingsStore } from '@/hooks/use-settings-store';
 
 interface ModelSettingsDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
+  /** Model of the current chat, whose limits bound the settings */
+  model?: AIModel;
 }
 
 type SafetyLevel = 'none' | 'few' | 'some' | 'most';
@@ -37,6 +40,7 @@ type SafetySettingKey = 'harassment' | 'hateSpeech' | 'sexuallyExplicit' | 'dang
 export function ModelSettingsDialog({
   open,
   onOpenChange,
+  model,
 }: ModelSettingsDialogProps) {
   const { 
     settings, 
@@ -67,6 +71,10 @@ export function ModelSettingsDialog({
     }));
   }, [settings.modelSettings]);
 
+  // Limits of the model the settings apply to
+  const modelInfo = getModelInfo(model || localSettings.defaultModel);
+  const maxOutputTokens = modelInfo.maxOutputTokens;
+
   const handleSave = () => {
     updateModelSettings(localSettings);
     onOpenChange(false);
@@ -169,6 +177,26 @@ export function ModelSettingsDialog({
               </p>
             </div>
 
+            {/* Context Strategy */}
+            <div className="grid gap-2">
+              <Label htmlFor="contextStrategy">Context Strategy</Label>
+              <Select 
+                value={localSettings.contextStrategy} 
+                onValueChange={(value: string) => handleChange('contextStrategy', value)}
+              >
+                <SelectTrigger id="contextStrategy">
+                  <SelectValue placeholder="Select context strategy" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="basic">Drop older messages</SelectItem>
+                  <SelectItem value="summarize">Summarize older messages</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                What happens to messages that no longer fit the model&apos;s context window. Summarizing sends an extra request to the model when the summary needs updating
+              </p>
+            </div>
+
             {/* Temperature */}
             <div className="grid gap-2">
               <div className="flex items-center justify-between">
@@ -196,16 +224,24 @@ export function ModelSettingsDialog({
                 id="maxTokens"
                 type="number"
                 min="0"
-                max="32000"
+                max={maxOutputTokens}
                 value={localSettings.maxTokens === 0 ? "" : localSettings.maxTokens.toString()}
                 onChange={(e) => {
                   const value = e.target.value === "" ? 0 : parseInt(e.target.value);
-                  handleChange('maxTokens', isNaN(value) ? 0 : Math.max(0, Math.min(32000, value)));
+                  handleChange('maxTokens', isNaN(value) ? 0 : Math.max(0, Math.min(maxOutputTokens, value)));
                 }}
                 placeholder="0 (no limit)"
               />
+              <Slider
+                min={0}
+                max={maxOutputTokens}
+                step={256}
+                value={[Math.min(localSettings.maxTokens, maxOutputTokens)]}
+                onValueChange={(values: number[]) => handleChange('maxTokens', values[0])}
+              />
               <p className="text-xs text-muted-foreground">
-                The maximum number of tokens to generate before stopping (0 or empty means no limit)
+                The maximum number of tokens to generate before stopping (0 or empty means no limit).
+                {' '}{modelInfo.name} can generate up to {maxOutputTokens.toLocaleString()} tokens
               </p>
             </div>
 
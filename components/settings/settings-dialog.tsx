@@ -12,10 +12,13 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
-import { ArrowLeft, Image as ImageIcon } from 'lucide-react';
+import { ArrowLeft, Image as ImageIcon, Upload } from 'lucide-react';
 import { toast } from 'sonner';
 import { storage } from '@/lib/storage';
 import { UserProfile } from '@/lib/types';
+import { DataExportSection } from '@/components/settings/data-export-section';
+import { ImportDialog } from '@/components/settings/import-dialog';
+import { ApiKeyPicker } from '@/components/settings/api-key-picker';
 
 interface SettingsDialogProps {
   open: boolean;
@@ -36,7 +39,9 @@ export function SettingsDialog({
   const [customInstructions, setCustomInstructions] = useState<string>('');
   const [userProfileId, setUserProfileId] = useState<string>('default');
   const [profileImageUrl, setProfileImageUrl] = useState<string>('');
+  const [apiKeyIds, setApiKeyIds] = useState<Record<string, string>>({});
   const [imageError, setImageError] = useState<boolean>(false);
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
 
   // Load user profile from storage on initial render or when dialog opens
   useEffect(() => {
@@ -52,6 +57,7 @@ export function SettingsDialog({
           setUserInformation(currentProfile.preferences?.information || '');
           setCustomInstructions(currentProfile.preferences?.customInstruction || '');
           setProfileImageUrl(currentProfile.avatar || '');
+          setApiKeyIds(currentProfile.apiKeyIds || {});
           setUserProfileId(currentProfile.id);
           return;
         }
@@ -96,6 +102,7 @@ export function SettingsDialog({
       avatar: profileImageUrl,
       createdAt: new Date(),
       updatedAt: new Date(),
+      apiKeyIds,
       preferences: {
         information: userInformation,
         customInstruction: customInstructions
@@ -243,6 +250,28 @@ export function SettingsDialog({
               className="min-h-[150px]"
             />
           </div>
+          
+          {/* API Keys */}
+          <ApiKeyPicker
+            value={apiKeyIds}
+            onChange={setApiKeyIds}
+            description="Key used while this profile is active. A folder's choice takes precedence."
+          />
+          
+          {/* Data Export */}
+          <DataExportSection scope={{ type: 'all' }} />
+          
+          {/* Data Import */}
+          <div className="space-y-2">
+            <Label className="text-base">Import Data</Label>
+            <p className="text-muted-foreground text-sm">
+              Bring over your history from a ChatGPT or Claude data export.
+            </p>
+            <Button variant="outline" size="sm" onClick={() => setImportDialogOpen(true)}>
+              <Upload className="mr-2 h-4 w-4" />
+              Import conversations
+            </Button>
+          </div>
         </div>
         
         <DialogFooter>
@@ -250,6 +279,8 @@ export function SettingsDialog({
             Done
           </Button>
         </DialogFooter>
+        
+        <ImportDialog open={importDialogOpen} onOpenChange={setImportDialogOpen} />
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,281 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { DateRange } from 'react-day-picker';
+import { eachDayOfInterval, endOfDay, format, startOfDay, startOfMonth, subDays } from 'date-fns';
+import { CalendarIcon, Download } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { chatDB } from '@/lib/chat-db';
+import { getModelInfo } from '@/lib/model-registry';
+import { getProvider } from '@/lib/providers';
+import { Chat, Folder, UsageRecord, UserProfile } from '@/lib/types';
+import {
+  USAGE_RECORDED_EVENT,
+  UsageGroupBy,
+  exportUsageCSV,
+  getDayKey,
+  groupUsage,
+  sumUsage
+} from '@/lib/usage';
+import { toast } from 'sonner';
+
+interface UsageDashboardDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  chats: Chat[];
+  folders: Folder[];
+  profiles: UserProfile[];
+}
+
+const GROUP_LABELS: Record<UsageGroupBy, string> = {
+  day: 'Day',
+  provider: 'Provider',
+  model: 'Model',
+  folder: 'Folder',
+  profile: 'Profile'
+};
+
+const RANGE_PRESETS: { label: string; getRange: () => DateRange | undefined }[] = [
+  { label: '7 days', getRange: () => ({ from: subDays(new Date(), 6), to: new Date() }) },
+  { label: '30 days', getRange: () => ({ from: subDays(new Date(), 29), to: new Date() }) },
+  { label: 'This month', getRange: () => ({ from: startOfMonth(new Date()), to: new Date() }) },
+  { label: 'All time', getRange: () => undefined }
+];
+
+const chartConfig = {
+  cost: {
+    label: 'Cost',
+    color: 'hsl(var(--chart-1))'
+  }
+} satisfies ChartConfig;
+
+function formatCost(cost: number): string {
+  return cost > 0 && cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+export function UsageDashboardDialog({ open, onOpenChange, chats, folders, profiles }: UsageDashboardDialogProps) {
+  const [range, setRange] = useState<DateRange | undefined>(RANGE_PRESETS[1].getRange());
+  const [groupBy, setGroupBy] = useState<UsageGroupBy>('provider');
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Load the records of the selected range, and again when a reply is recorded
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    const loadRecords = async () => {
+      setIsLoading(true);
+      try {
+        const from = range?.from ? startOfDay(range.from) : undefined;
+        const to = range?.from ? endOfDay(range.to || range.from) : undefined;
+        const loaded = await chatDB.getUsageRecords(from, to);
+        if (!cancelled) setRecords(loaded);
+      } catch (error) {
+        console.error('Error loading usage records:', error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadRecords();
+    window.addEventListener(USAGE_RECORDED_EVENT, loadRecords);
+    return () => {
+      cancelled = true;
+      window.removeEventListener(USAGE_RECORDED_EVENT, loadRecords);
+    };
+  }, [open, range]);
+
+  // Records are attributed to the chat's current folder, or the folder it was in if it was deleted
+  const labels = useMemo(() => {
+    const chatsById = new Map(chats.map(chat => [chat.id, chat]));
+    const folderNames = new Map(folders.map(folder => [folder.id, folder.name]));
+    const profileNames = new Map(profiles.map(profile => [profile.id, profile.name]));
+
+    const getFolderId = (record: UsageRecord) =>
+      chatsById.has(record.chatId) ? chatsById.get(record.chatId)!.folderId : record.folderId;
+
+    return {
+      chat: (chatId: string) => chatsById.get(chatId)?.title || 'Deleted chat',
+      folder: (record: UsageRecord) => {
+        const folderId = getFolderId(record);
+        return folderId ? folderNames.get(folderId) || 'Deleted folder' : 'No folder';
+      },
+      profile: (record: UsageRecord) =>
+        record.profileId ? profileNames.get(record.profileId) || 'Deleted profile' : 'No profile',
+      model: (model: string) => getModelInfo(model).name,
+      provider: (providerId: string) => getProvider(providerId)?.name || providerId
+    };
+  }, [chats, folders, profiles]);
+
+  const totals = useMemo(() => sumUsage(records), [records]);
+
+  const groups = useMemo(() => {
+    const getKey: Record<UsageGroupBy, (record: UsageRecord) => string> = {
+      day: record => getDayKey(record.createdAt),
+      provider: record => labels.provider(record.provider),
+      model: record => labels.model(record.model),
+      folder: labels.folder,
+      profile: labels.profile
+    };
+    const grouped = groupUsage(records, getKey[groupBy]);
+    return groupBy === 'day' ? grouped.sort((a, b) => b.key.localeCompare(a.key)) : grouped;
+  }, [records, groupBy, labels]);
+
+  // Cost per day, including the days without usage
+  const dailyCost = useMemo(() => {
+    const byDay = new Map(groupUsage(records, record => getDayKey(record.createdAt)).map(group => [group.key, group.cost]));
+    const firstDay = range?.from || (records.length > 0 ? new Date(records[0].createdAt) : null);
+    const lastDay = range?.to || range?.from || new Date();
+    if (!firstDay || firstDay > lastDay) return [];
+
+    return eachDayOfInterval({ start: firstDay, end: lastDay }).map(day => ({
+      day: format(day, 'd MMM'),
+      cost: Number((byDay.get(getDayKey(day)) || 0).toFixed(4))
+    }));
+  }, [records, range]);
+
+  const rangeLabel = range?.from
+    ? `${format(range.from, 'd MMM yyyy')} – ${format(range.to || range.from, 'd MMM yyyy')}`
+    : 'All time';
+
+  const handleExport = () => {
+    if (records.length === 0) {
+      toast.error('No usage in the selected range');
+      return;
+    }
+
+    const suffix = range?.from
+      ? `${getDayKey(range.from)}_${getDayKey(range.to || range.from)}`
+      : 'all-time';
+    exportUsageCSV(records, labels, `usage-${suffix}.csv`);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Usage & Costs</DialogTitle>
+          <DialogDescription>
+            Tokens and estimated spend of your replies, at each model&apos;s list price.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" size="sm" className="justify-start font-normal">
+                <CalendarIcon className="mr-2 h-4 w-4" />
+                {rangeLabel}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <Calendar
+                mode="range"
+                selected={range}
+                onSelect={setRange}
+                numberOfMonths={2}
+                defaultMonth={range?.from}
+                disabled={{ after: new Date() }}
+              />
+            </PopoverContent>
+          </Popover>
+          {RANGE_PRESETS.map(preset => (
+            <Button key={preset.label} variant="ghost" size="sm" onClick={() => setRange(preset.getRange())}>
+              {preset.label}
+            </Button>
+          ))}
+          <Button variant="outline" size="sm" className="ml-auto" onClick={handleExport}>
+            <Download className="mr-2 h-4 w-4" />
+            Export CSV
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          {[
+            ['Spend', formatCost(totals.cost)],
+            ['Replies', totals.requests.toLocaleString()],
+            ['Prompt tokens', totals.promptTokens.toLocaleString()],
+            ['Completion tokens', totals.completionTokens.toLocaleString()]
+          ].map(([label, value]) => (
+            <div key={label} className="rounded-md border p-3">
+              <div className="text-xs text-muted-foreground">{label}</div>
+              <div className="text-lg font-semibold tabular-nums">{value}</div>
+            </div>
+          ))}
+        </div>
+        {totals.unpricedRequests > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {totals.unpricedRequests} {totals.unpricedRequests === 1 ? 'reply' : 'replies'} from models without a known price are not included in the spend.
+          </p>
+        )}
+
+        {dailyCost.length > 0 && (
+          <ChartContainer config={chartConfig} className="h-48 w-full aspect-auto">
+            <BarChart data={dailyCost}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="day" tickLine={false} axisLine={false} minTickGap={16} />
+              <YAxis tickLine={false} axisLine={false} width={48} tickFormatter={value => `$${value}`} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="cost" fill="var(--color-cost)" radius={2} />
+            </BarChart>
+          </ChartContainer>
+        )}
+
+        <Tabs value={groupBy} onValueChange={value => setGroupBy(value as UsageGroupBy)}>
+          <TabsList className="grid grid-cols-5">
+            {(Object.keys(GROUP_LABELS) as UsageGroupBy[]).map(key => (
+              <TabsTrigger key={key} value={key}>{GROUP_LABELS[key]}</TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        {groups.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">
+            {isLoading ? 'Loading usage...' : 'No usage in the selected range'}
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{GROUP_LABELS[groupBy]}</TableHead>
+                <TableHead className="text-right">Replies</TableHead>
+                <TableHead className="text-right">Prompt tokens</TableHead>
+                <TableHead className="text-right">Completion tokens</TableHead>
+                <TableHead className="text-right">Cost</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {groups.map(group => (
+                <TableRow key={group.key}>
+                  <TableCell className="font-medium">{group.key}</TableCell>
+                  <TableCell className="text-right tabular-nums">{group.requests.toLocaleString()}</TableCell>
+                  <TableCell className="text-right tabular-nums">{group.promptTokens.toLocaleString()}</TableCell>
+                  <TableCell className="text-right tabular-nums">{group.completionTokens.toLocaleString()}</TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {group.unpricedRequests === group.requests ? '–' : formatCost(group.cost)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default UsageDashboardDialog;
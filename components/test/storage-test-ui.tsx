@@ -5,6 +5,7 @@
 'use client';
 
 import { useState } from 'react';
+import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -12,6 +13,7 @@ import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { storage } from '@/lib/storage';
 import { apiKeyStorage } from '@/lib/api-keys';
+import { KeyVaultError } from '@/lib/key-vault';
 import { testStorageFunctions } from '@/lib/utils/storage-test';
 
 export function StorageTestUI() {
@@ -56,25 +58,30 @@ export function StorageTestUI() {
   };
   
   // Set API key
-  const saveApiKey = () => {
+  const saveApiKey = async () => {
     if (!apiKey) return;
     
-    switch (provider) {
-      case 'openai':
-        apiKeyStorage.setOpenAIKey(apiKey);
-        break;
-      case 'anthropic':
-        apiKeyStorage.setAnthropicKey(apiKey);
-        break;
-      case 'gemini':
-        apiKeyStorage.setGeminiKey(apiKey);
-        break;
-      case 'firecrawl':
-        apiKeyStorage.setFirecrawlKey(apiKey);
-        break;
+    try {
+      switch (provider) {
+        case 'openai':
+          await apiKeyStorage.setOpenAIKey(apiKey);
+          break;
+        case 'anthropic':
+          await apiKeyStorage.setAnthropicKey(apiKey);
+          break;
+        case 'gemini':
+          await apiKeyStorage.setGeminiKey(apiKey);
+          break;
+        case 'firecrawl':
+          await apiKeyStorage.setFirecrawlKey(apiKey);
+          break;
+      }
+      
+      setApiKey('');
+    } catch (error) {
+      console.error(`Error saving ${provider} API key:`, error);
+      toast.error(error instanceof KeyVaultError ? error.message : `Could not save the ${provider} API key`);
     }
-    
-    setApiKey('');
   };
   
   // Get API key
@@ -0,0 +1,90 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { AI_MODELS, ModelInfo } from '@/lib/types';
+import { LOCAL_PROVIDER_ID } from '@/lib/local-models';
+import { ProviderId } from '@/lib/providers';
+import { apiKeyStorage } from '@/lib/api-keys';
+import { fetchProviderModels, modelRegistryStorage } from '@/lib/model-registry';
+import { useCustomProviders } from '@/hooks/use-custom-providers';
+import { useLocalModels } from '@/hooks/use-local-models';
+
+export type ModelOption = ModelInfo;
+
+export type ModelGroup = {
+  id: string;
+  name: string;
+  models: ModelOption[];
+};
+
+// Event dispatched whenever a provider's live model list is fetched
+const PROVIDER_MODELS_UPDATED_EVENT = 'provider-models-updated';
+
+// Headings of the built-in provider groups, in display order
+const BUILT_IN_GROUPS = [
+  { id: 'openai', name: 'OpenAI' },
+  { id: 'anthropic', name: 'Anthropic' },
+  { id: 'gemini', name: 'Google' }
+];
+
+/**
+ * Hook returning every model that can be selected right now:
+ * the built-in models, models listed live by the providers, models of
+ * custom endpoints and discovered local models
+ */
+export function useAvailableModels() {
+  const { providers: customProviders, customModels } = useCustomProviders();
+  const { localModels } = useLocalModels();
+  const [liveModels, setLiveModels] = useState<ModelOption[]>([]);
+
+  // Load the stored live model lists and listen for refreshes
+  useEffect(() => {
+    const loadLiveModels = () => setLiveModels(modelRegistryStorage.getLiveModels());
+    loadLiveModels();
+
+    window.addEventListener(PROVIDER_MODELS_UPDATED_EVENT, loadLiveModels);
+
+    return () => {
+      window.removeEventListener(PROVIDER_MODELS_UPDATED_EVENT, loadLiveModels);
+    };
+  }, []);
+
+  /**
+   * Fetch a provider's live model list with the stored API key
+   */
+  const refreshProviderModels = useCallback(async (providerId: ProviderId) => {
+    const keys = await apiKeyStorage.getApiKeys();
+    const apiKey = keys[providerId];
+    if (!apiKey) {
+      throw new Error('Add an API key first');
+    }
+
+    const models = await fetchProviderModels(providerId, apiKey);
+    window.dispatchEvent(new CustomEvent(PROVIDER_MODELS_UPDATED_EVENT));
+    return models;
+  }, []);
+
+  const models = useMemo<ModelOption[]>(
+    () => [...AI_MODELS, ...liveModels, ...customModels, ...localModels],
+    [liveModels, customModels, localModels]
+  );
+
+  const groups = useMemo<ModelGroup[]>(() => [
+    ...BUILT_IN_GROUPS.map(group => ({
+      ...group,
+      models: [...AI_MODELS, ...liveModels].filter(m => m.category === group.id)
+    })),
+    ...customProviders.map(provider => ({
+      id: provider.id,
+      name: provider.name,
+      models: customModels.filter(m => m.category === provider.id)
+    })),
+    { id: LOCAL_PROVIDER_ID, name: 'Local', models: localModels }
+  ].filter(group => group.models.length > 0), [liveModels, customProviders, customModels, localModels]);
+
+  return {
+    models,
+    groups,
+    refreshProviderModels
+  };
+}
+
+export default useAvailableModels;
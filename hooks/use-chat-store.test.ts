@@ -0,0 +1,59 @@
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import { chatDB } from '@/lib/chat-db';
+import { streamChatRequest } from '@/lib/chat-transport';
+import { getActivePath } from '@/lib/message-tree';
+import { Chat, Message } from '@/lib/types';
+import { useChatStore } from './use-chat-store';
+
+vi.mock('@/lib/chat-transport', () => ({ streamChatRequest: vi.fn() }));
+vi.mock('@/lib/api-keys', () => ({
+  apiKeyStorage: { getRequestKeys: () => [{ id: 'key', label: 'Default', key: 'sk-test' }] }
+}));
+
+function message(id: string, role: Message['role'], parentId: string | null, minute: number): Message {
+  return { id, role, content: id, createdAt: new Date(Date.UTC(2024, 0, 1, 0, minute)), isPinned: false, parentId };
+}
+
+// u1 ─ a1b
+//    └ a1 ─ u2 ─ a2
+const chat: Chat = {
+  id: 'chat',
+  title: 'Branches',
+  model: 'gpt-4o',
+  createdAt: new Date(Date.UTC(2024, 0, 1)),
+  updatedAt: new Date(Date.UTC(2024, 0, 1)),
+  messages: [
+    message('u1', 'user', null, 0),
+    message('a1b', 'assistant', 'u1', 1),
+    message('a1', 'assistant', 'u1', 2),
+    message('u2', 'user', 'a1', 3),
+    message('a2', 'assistant', 'u2', 4)
+  ]
+};
+
+describe('useChatStore', () => {
+  it('keeps the edited branch selected after navigating between siblings', async () => {
+    vi.mocked(streamChatRequest).mockImplementation(async function* () {
+      yield { type: 'text', value: 'Edited reply' };
+      yield { type: 'done', value: { finishReason: 'stop' } };
+    });
+    await chatDB.saveChat(structuredClone(chat));
+
+    const { result } = renderHook(() => useChatStore());
+    await waitFor(() => expect(result.current.currentChat?.messages).toHaveLength(5));
+
+    // Navigating stores a selection at every branch point on the way
+    await act(() => result.current.selectMessageBranch('chat', 'a2'));
+    await act(() => result.current.editAndResendMessage('chat', 'u2', 'Edited question'));
+
+    const expected = ['u1', 'a1', 'Edited question', 'Edited reply'];
+    expect(getActivePath(result.current.currentChat!).map(msg => msg.content)).toEqual(expected);
+
+    // What a reload shows
+    const stored = await chatDB.getChat('chat');
+    const storedMessages = await chatDB.getChatMessages('chat');
+    expect(getActivePath({ messages: storedMessages, activeBranches: stored?.activeBranches }).map(msg => msg.content))
+      .toEqual(expected);
+  });
+});
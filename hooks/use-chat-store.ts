@@ -1,15 +1,62 @@
 'use client';
 
-import { useEffect, useState, useCallback, useMemo } from 'react';
-import { Chat, Message, AIModel, Folder, Settings } from '@/lib/types';
+import { useEffect, useState, useCallback, useMemo, useRef } from 'react';
+import { flushSync } from 'react-dom';
+import { Chat, Message, AIModel, Folder, Settings, DEFAULT_SETTINGS, GenerationMetadata, LabeledApiKey } from '@/lib/types';
 import { 
   loadChatsFromLocalStorage, 
   loadFoldersFromStorage,
   generateId
 } from '@/lib/utils/chat-storage';
 import { chatDB } from '@/lib/chat-db';
+import { DatabaseMigrationError } from '@/lib/db-migrations';
+import { chatWriteQueue } from '@/lib/chat-write-queue';
+import { ChatsImportedDetail } from '@/lib/chat-import';
+import { StreamingBuffer, createStreamingBuffer } from '@/lib/streaming-buffer';
 import { useSettingsStore } from '@/hooks/use-settings-store';
 import { storage } from '@/lib/storage';
+import { ChatRequestMessage, getProviderForModel, RequestModelSettings, TokenUsage } from '@/lib/providers';
+import { apiKeyStorage } from '@/lib/api-keys';
+import { keyVault } from '@/lib/key-vault';
+import { ChatRequestBody } from '@/lib/chat-request';
+import { streamChatRequest } from '@/lib/chat-transport';
+import { estimateCost, getModelInfo } from '@/lib/model-registry';
+import { buildContext, estimateRequestTokens, estimateTokens, isNoticeMessage } from '@/lib/context-builder';
+import { recordUsage } from '@/lib/usage';
+import { checkBudget, describeBudgetCheck } from '@/lib/budgets';
+import { getCurrentProfile, getCurrentProfileId } from '@/hooks/use-profile-store';
+import { SUMMARY_MAX_TOKENS, estimateSummaryTokens, getRollingSummary, isMessageSummarized, toSummaryMessage } from '@/lib/chat-summary';
+import { getActivePath, getBranchKey, getPathTo, selectBranch, withParentIds } from '@/lib/message-tree';
+import { toast } from 'sonner';
+
+// Messages loaded at a time when a chat is opened or scrolled up
+const MESSAGE_PAGE_SIZE = 50;
+// Chats that keep their messages in memory after switching away from them
+const MAX_LOADED_CHATS = 10;
+// Messages kept in memory across those chats
+const MAX_LOADED_MESSAGES = 5000;
+
+/**
+ * Loading state of a chat's messages
+ */
+type MessagePageState = {
+  /** Older messages are still only in IndexedDB */
+  hasMore: boolean;
+  isLoading: boolean;
+};
+
+/**
+ * Combine messages read from IndexedDB with those in memory, in creation order.
+ * The in-memory copy wins as it may be newer (e.g. while streaming).
+ */
+function mergeMessages(stored: Message[], inMemory: Message[]): Message[] {
+  const byId = new Map(stored.map(msg => [msg.id, msg]));
+  for (const message of inMemory) {
+    byId.set(message.id, message);
+  }
+  return Array.from(byId.values())
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+}
 
 /**
  * React hook for managing chat state with IndexedDB persistence
@@ -20,9 +67,14 @@ export function useChatStore() {
   const [currentChatId, setCurrentChatId] = useState<string | null>(null);
   const [isLoaded, setIsLoaded] = useState(false);
   const [usingFallback, setUsingFallback] = useState(false);
+  const [databaseError, setDatabaseError] = useState<DatabaseMigrationError | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
   const [abortController, setAbortController] = useState<AbortController | null>(null);
-  const [pendingSaves, setPendingSaves] = useState<Set<string>>(new Set());
+  const [messagePages, setMessagePages] = useState<Record<string, MessagePageState>>({});
+  // Chats with messages in memory, most recently opened first
+  const recentChatIds = useRef<string[]>([]);
+  // Reply being streamed, its text is only in the streaming buffer until it's complete
+  const activeStreamRef = useRef<{ chatId: string; message: Message; buffer: StreamingBuffer } | null>(null);
 
   // Load chats from IndexedDB on initial render
   useEffect(() => {
@@ -44,6 +96,12 @@ export function useChatStore() {
         // We don't try to load from localStorage anymore
         // Just load directly from IndexedDB
         
+        // Write messages a previous session couldn't before it closed
+        const recovered = await chatWriteQueue.recoverJournal();
+        if (recovered > 0) {
+          console.log(`Recovered ${recovered} unsaved messages`);
+        }
+        
         // Load data from IndexedDB
         const [loadedChats, loadedFolders] = await Promise.all([
           chatDB.getAllChats(),
@@ -52,25 +110,13 @@ export function useChatStore() {
         
         console.log(`Loaded ${loadedChats.length} chats from IndexedDB`);
         
-        // Load messages for each chat to ensure they're fully populated
-        const populatedChats = await Promise.all(
-          loadedChats.map(async (chat) => {
-            // Only load messages if the chat object doesn't already have them
-            if (!chat.messages || chat.messages.length === 0) {
-              const messages = await chatDB.getChatMessages(chat.id);
-              return { ...chat, messages };
-            }
-            return chat;
-          })
-        );
-        
-        // Set state with loaded data
-        setChats(populatedChats);
+        // Only chat metadata is loaded here, messages are loaded when a chat is opened
+        setChats(loadedChats.map(chat => ({ ...chat, messages: [] })));
         setFolders(loadedFolders);
         
         // Set current chat to the most recent one, or create a new one if none exist
-        if (populatedChats.length > 0) {
-          setCurrentChatId(populatedChats[0].id);
+        if (loadedChats.length > 0) {
+          setCurrentChatId(loadedChats[0].id);
         } else {
           const newChat = createNewChat();
           await chatDB.saveChat(newChat);
@@ -80,6 +126,13 @@ export function useChatStore() {
       } catch (error) {
         console.error('Error initializing chat store:', error);
         
+        // The stored chats are intact but unreadable by this version,
+        // show the recovery screen instead of an empty chat
+        if (error instanceof DatabaseMigrationError) {
+          setDatabaseError(error);
+          return;
+        }
+        
         // No fallback to localStorage anymore
         // Just create a new chat on error
         const newChat = createNewChat();
@@ -95,11 +148,39 @@ export function useChatStore() {
     initializeStore();
   }, []);
 
+  // Write queued messages, and the reply being streamed so far, before the
+  // tab is hidden or closed
+  useEffect(() => {
+    const handlePageHide = () => {
+      const stream = activeStreamRef.current;
+      if (stream) {
+        chatWriteQueue.queueMessage({ ...stream.message, content: stream.buffer.content, chatId: stream.chatId });
+      }
+      chatWriteQueue.flushBeforeUnload();
+    };
+    
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        handlePageHide();
+      }
+    };
+    
+    window.addEventListener('beforeunload', handlePageHide);
+    window.addEventListener('pagehide', handlePageHide);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    
+    return () => {
+      window.removeEventListener('beforeunload', handlePageHide);
+      window.removeEventListener('pagehide', handlePageHide);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, []);
+
   // Listen for API key updates
   useEffect(() => {
     const handleApiKeyUpdate = (event: CustomEvent<{ provider: string, key: string }>) => {
       console.log(`API key updated for ${event.detail.provider}`);
-      // No need to do anything else here, as getApiKey will fetch the latest key from localStorage
+      // No need to do anything else here, as getRequestKeys will fetch the latest keys from the vault
     };
     
     window.addEventListener('api-key-update', handleApiKeyUpdate as EventListener);
@@ -109,6 +190,44 @@ export function useChatStore() {
     };
   }, []);
 
+  // Reload from IndexedDB after conversations were imported
+  useEffect(() => {
+    const handleChatsImported = async (event: Event) => {
+      const { chatIds } = (event as CustomEvent<ChatsImportedDetail>).detail;
+      try {
+        const [loadedChats, loadedFolders] = await Promise.all([
+          chatDB.getAllChats(),
+          chatDB.getAllFolders()
+        ]);
+
+        // Chats the import wrote load their messages again when opened, unless
+        // they have unsaved messages or a reply is being streamed into them
+        const reloadIds = new Set(chatIds.filter(chatId =>
+          !chatWriteQueue.hasPendingWrites(chatId) && activeStreamRef.current?.chatId !== chatId
+        ));
+
+        setChats(prev => {
+          const inMemory = new Map(prev.map(chat => [chat.id, chat]));
+          return loadedChats.map(chat => (!reloadIds.has(chat.id) && inMemory.get(chat.id)) || { ...chat, messages: [] });
+        });
+        setMessagePages(prev => {
+          const next = { ...prev };
+          reloadIds.forEach(chatId => delete next[chatId]);
+          return next;
+        });
+        setFolders(loadedFolders);
+      } catch (error) {
+        console.error('Error loading imported chats:', error);
+      }
+    };
+
+    window.addEventListener('chats-imported', handleChatsImported);
+
+    return () => {
+      window.removeEventListener('chats-imported', handleChatsImported);
+    };
+  }, []);
+
   // Current chat getter
   const currentChat = useMemo(() => {
     if (!currentChatId) return null;
@@ -119,6 +238,118 @@ export function useChatStore() {
     return chat;
   }, [chats, currentChatId]);
   
+  /**
+   * Load the page of a chat's messages before the oldest one in memory
+   */
+  const loadMessagePage = useCallback(async (chatId: string) => {
+    const chat = chats.find(c => c.id === chatId);
+    const page = messagePages[chatId];
+    if (!chat || page?.isLoading || page?.hasMore === false) return;
+    
+    const oldest = chat.messages.reduce<Message | undefined>((first, msg) =>
+      !first || new Date(msg.createdAt) < new Date(first.createdAt) ? msg : first, undefined);
+    
+    setMessagePages(prev => ({ ...prev, [chatId]: { hasMore: true, isLoading: true } }));
+    
+    try {
+      const result = await chatDB.getChatMessagesPage(chatId, { before: oldest, limit: MESSAGE_PAGE_SIZE });
+      console.log(`Loaded ${result.messages.length} messages for chat ${chatId}`);
+      
+      setChats(prev => prev.map(c => 
+        c.id === chatId ? { ...c, messages: mergeMessages(result.messages, c.messages) } : c
+      ));
+      setMessagePages(prev => ({ ...prev, [chatId]: { hasMore: result.hasMore, isLoading: false } }));
+    } catch (error) {
+      console.error('Error loading messages:', error);
+      setMessagePages(prev => ({ ...prev, [chatId]: { hasMore: true, isLoading: false } }));
+    }
+  }, [chats, messagePages]);
+  
+  // Load the opened chat's messages and unload those of chats that weren't
+  // opened recently once too many are in memory
+  useEffect(() => {
+    if (!currentChatId) return;
+    
+    recentChatIds.current = [currentChatId, ...recentChatIds.current.filter(id => id !== currentChatId)];
+    
+    if (!messagePages[currentChatId]) {
+      loadMessagePage(currentChatId);
+    }
+    
+    let loadedMessages = 0;
+    const evictIds = new Set<string>();
+    recentChatIds.current.forEach((chatId, index) => {
+      loadedMessages += chats.find(c => c.id === chatId)?.messages.length || 0;
+      
+      // Unsaved messages only exist in memory
+      if (chatId === currentChatId || chatWriteQueue.hasPendingWrites(chatId)) return;
+      if (index >= MAX_LOADED_CHATS || loadedMessages > MAX_LOADED_MESSAGES) {
+        evictIds.add(chatId);
+      }
+    });
+    
+    if (evictIds.size === 0) return;
+    
+    console.log(`Unloading messages of ${evictIds.size} chats`);
+    recentChatIds.current = recentChatIds.current.filter(id => !evictIds.has(id));
+    setChats(prev => prev.map(chat => 
+      evictIds.has(chat.id) ? { ...chat, messages: [] } : chat
+    ));
+    setMessagePages(prev => {
+      const next = { ...prev };
+      evictIds.forEach(id => delete next[id]);
+      return next;
+    });
+  }, [currentChatId, chats, messagePages, loadMessagePage]);
+  
+  /**
+   * Load the messages of the current chat before the ones shown
+   */
+  const loadOlderMessages = useCallback(async () => {
+    if (currentChatId) {
+      await loadMessagePage(currentChatId);
+    }
+  }, [currentChatId, loadMessagePage]);
+  
+  const currentMessagePage = currentChatId ? messagePages[currentChatId] : undefined;
+  const hasMoreMessages = currentMessagePage?.hasMore ?? false;
+  const isLoadingMessages = currentChat !== null && (!currentMessagePage || currentMessagePage.isLoading);
+  
+  /**
+   * Get a chat with all of its messages, reading the ones not loaded yet.
+   * Sending, branching and forking need the whole conversation.
+   */
+  const getFullChat = useCallback(async (chatId: string): Promise<Chat | undefined> => {
+    const chat = chats.find(c => c.id === chatId);
+    if (!chat || messagePages[chatId]?.hasMore === false) return chat;
+    
+    const stored = await chatDB.getChatMessages(chatId);
+    
+    setChats(prev => prev.map(c => 
+      c.id === chatId ? { ...c, messages: mergeMessages(stored, c.messages) } : c
+    ));
+    setMessagePages(prev => ({ ...prev, [chatId]: { hasMore: false, isLoading: false } }));
+    
+    return { ...chat, messages: mergeMessages(stored, chat.messages) };
+  }, [chats, messagePages]);
+  
+  /**
+   * Get the pinned messages of a chat in the order they were written,
+   * including pinned messages on pages that aren't loaded yet
+   */
+  const getPinnedMessages = useCallback(async (chatId: string): Promise<Message[]> => {
+    const chat = chats.find(c => c.id === chatId);
+    if (!chat) return [];
+    
+    const loadedIds = new Set(chat.messages.map(msg => msg.id));
+    const unloadedIds = (chat.pinnedMessageIds || []).filter(id => !loadedIds.has(id));
+    const stored = unloadedIds.length > 0 ? await chatDB.getMessages(unloadedIds) : [];
+    
+    return [...chat.messages, ...stored]
+      .filter(msg => msg.isPinned)
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }, [chats]);
+  
   /**
    * Create a new folder
    */
@@ -266,7 +497,7 @@ export function useChatStore() {
     ));
     
     // Persist to IndexedDB with explicit favorite property
-    await chatDB.saveChat(updatedChat);
+    await chatDB.updateChat(chatId, { favorite: newFavoriteStatus });
     
     console.log(`Chat ${chatId} favorite status toggled to: ${newFavoriteStatus}`);
   }, [chats]);
@@ -279,7 +510,9 @@ export function useChatStore() {
     const chatToUpdate = chats.find(c => c.id === chatId);
     if (!chatToUpdate) return;
     
-    const messageToUpdate = chatToUpdate.messages.find(m => m.id === messageId);
+    // Pinned messages can be unpinned from the pinned list before their page is loaded
+    const messageToUpdate = chatToUpdate.messages.find(m => m.id === messageId)
+      || (await chatDB.getMessages([messageId]))[0];
     if (!messageToUpdate) return;
     
     // Create updated message with toggled pin status
@@ -316,13 +549,13 @@ export function useChatStore() {
     ));
     
     // Persist message to IndexedDB
-    await chatDB.saveMessage({
+    chatWriteQueue.queueMessage({
       ...updatedMessage,
       chatId
     });
     
     // Persist chat to IndexedDB without clearing messages
-    await chatDB.saveChat(updatedChat);
+    await chatDB.updateChat(chatId, { pinnedMessageIds });
     
     console.log(`Message ${messageId} pin status toggled to: ${updatedMessage.isPinned}`);
   }, [chats]);
@@ -330,11 +563,12 @@ export function useChatStore() {
   /**
    * Create a new chat
    */
-  const createChat = useCallback(async (model: AIModel = 'gpt-4o') => {
-    const newChat = createNewChat(model);
+  const createChat = useCallback(async (model: AIModel = 'gpt-4o', initial: Partial<Omit<Chat, 'id'>> = {}) => {
+    const newChat = { ...createNewChat(model), ...initial };
     
     // Update local state (optimistic update)
     setChats(prev => [newChat, ...prev]);
+    setMessagePages(prev => ({ ...prev, [newChat.id]: { hasMore: false, isLoading: false } }));
     setCurrentChatId(newChat.id);
     
     // Persist to IndexedDB
@@ -343,10 +577,48 @@ export function useChatStore() {
     return newChat;
   }, []);
 
+  /**
+   * Fork a chat into a new one containing copies of the messages up to
+   * (and including) a message on its branch
+   */
+  const forkChat = useCallback(async (chatId: string, messageId: string) => {
+    const source = await getFullChat(chatId);
+    if (!source) return null;
+    
+    const path = getPathTo(source.messages, messageId);
+    if (path.length === 0) return null;
+    
+    // Copies get new IDs so both chats can be edited independently
+    const messages: Message[] = [];
+    for (const message of path) {
+      const copy: Message & { chatId?: string } = {
+        ...message,
+        id: generateId(),
+        parentId: messages.length > 0 ? messages[messages.length - 1].id : null
+      };
+      // Messages loaded from IndexedDB carry the source chat's ID
+      delete copy.chatId;
+      messages.push(copy);
+    }
+    
+    const newChat = await createChat(source.model, {
+      title: `${source.title} (fork)`,
+      messages,
+      pinnedMessageIds: messages.filter(msg => msg.isPinned).map(msg => msg.id),
+      forkedFrom: { chatId, messageId }
+    });
+    
+    if (source.folderId) {
+      await moveChatToFolder(newChat.id, source.folderId);
+    }
+    
+    return newChat;
+  }, [getFullChat, createChat, moveChatToFolder]);
+
   /**
    * Update a chat
    */
-  const updateChat = useCallback(async (chatId: string, updates: Partial<Chat>) => {
+  const updateChat = useCallback(async (chatId: string, updates: Partial<Omit<Chat, 'id' | 'messages'>>) => {
     // Find the chat to update
     const chatToUpdate = chats.find(c => c.id === chatId);
     if (!chatToUpdate) return;
@@ -364,7 +636,7 @@ export function useChatStore() {
     ));
     
     // Persist to IndexedDB
-    await chatDB.saveChat(updatedChat);
+    await chatDB.updateChat(chatId, updates);
   }, [chats]);
 
   /**
@@ -417,55 +689,26 @@ export function useChatStore() {
     }
     
     // Persist to IndexedDB
+    await chatWriteQueue.discardPendingWrites(chatId);
     await chatDB.deleteChat(chatId);
   }, [chats, currentChatId, folders]);
 
-  // Debounced save function
-  const debouncedSave = useCallback(
-    async (chatId: string) => {
-      if (!chatDB.isAvailable || usingFallback) return;
-      
-      const chat = chats.find(c => c.id === chatId);
-      if (!chat) return;
-
-      try {
-        await chatDB.saveChat(chat);
-        setPendingSaves(prev => {
-          const next = new Set(prev);
-          next.delete(chatId);
-          return next;
-        });
-      } catch (error) {
-        console.error('Error saving chat:', error);
-      }
-    },
-    [chats, usingFallback]
-  );
-
-  // Queue a chat for saving
-  const queueChatSave = useCallback((chatId: string) => {
-    setPendingSaves(prev => {
-      const next = new Set(prev);
-      next.add(chatId);
-      return next;
-    });
-    
-    const timeoutId = setTimeout(() => {
-      debouncedSave(chatId);
-    }, 1000); // Debounce for 1 second
-
-    return () => clearTimeout(timeoutId);
-  }, [debouncedSave]);
-
-  // Use the debounced save in addMessage
+  /**
+   * Add a message to a chat; it's written to IndexedDB with the next batch
+   */
   const addMessage = useCallback(
     async (chatId: string, message: Partial<Message>) => {
+      // Without an explicit parent the message continues the active branch
+      const chat = chats.find(c => c.id === chatId);
+      const lastMessage = chat ? getActivePath(chat).pop() : undefined;
+      
       const newMessage: Message = {
         id: generateId(),
         content: message.content || '',
         role: message.role || 'user',
         createdAt: new Date(),
         isPinned: false,
+        parentId: lastMessage?.id || null,
         ...message
       };
 
@@ -480,44 +723,31 @@ export function useChatStore() {
         return chat;
       }));
 
-      // Queue the save instead of saving immediately
-      queueChatSave(chatId);
+      chatWriteQueue.queueMessage({ ...newMessage, chatId });
 
       return newMessage;
     },
-    [queueChatSave]
+    [chats]
   );
 
   /**
-   * Get API key from localStorage based on model provider
+   * Get the API keys to try for a request from the key vault, based on model
+   * provider and the key picked by the chat's folder or the current profile
    */
-  const getApiKey = useCallback((model: AIModel): string => {
+  const getRequestKeys = useCallback((folderId: string | undefined, model: AIModel): LabeledApiKey[] => {
     try {
       // Determine provider based on model ID
-      let provider: string;
+      const provider = getProviderForModel(model).id;
       
-      if (['gpt-4o', 'gpt-4o-mini', 'gpt-45-preview'].includes(model as string)) {
-        provider = 'openai';
-      } else if (['claude-3-sonnet', 'claude-3-sonnet-reasoning'].includes(model as string)) {
-        provider = 'anthropic';
-      } else if (model === 'gemini-flash-2') {
-        provider = 'gemini';
-      } else {
-        // Default to OpenAI for unknown models
-        provider = 'openai';
-      }
+      const pickedKeyId = folders.find(f => f.id === folderId)?.apiKeyIds?.[provider]
+        || getCurrentProfile()?.apiKeyIds?.[provider];
       
-      // Get API keys from localStorage
-      const keysJson = localStorage.getItem('APP_api-keys');
-      if (keysJson) {
-        const keys = JSON.parse(keysJson);
-        return keys[provider] || '';
-      }
+      return apiKeyStorage.getRequestKeys(provider, pickedKeyId);
     } catch (error) {
       console.error('Error getting API key:', error);
     }
-    return '';
-  }, []);
+    return [];
+  }, [folders]);
 
   /**
    * Convert internal model ID to API-specific model ID
@@ -530,7 +760,12 @@ export function useChatStore() {
   /**
    * Generate AI response to a message
    */
-const generateAIResponse = useCallback(async (chatId: string, model: AIModel, messages: Message[]) => {
+const generateAIResponse = useCallback(async (
+    chatId: string,
+    model: AIModel,
+    messages: Message[],
+    options: { ignoreBudget?: boolean } = {}
+  ) => {
     
     console.log('Generating AI response for chat:', chatId);
 console.log('Chat messages count:', messages.length);
@@ -546,11 +781,25 @@ if (messages.length > 0) {
       console.warn('No messages found in chat, will use default message');
     }
     
-    // Get stored API key
-    const apiKey = getApiKey(model);
+    // Keys are only readable while the vault is unlocked, ask for the passphrase first.
+    // Plaintext keys from older versions are read once they're moved into a new vault.
+    const vaultStatus = keyVault.getVaultStatus();
+    if (vaultStatus === 'locked' || (vaultStatus === 'none' && keyVault.hasPlaintextKeys())) {
+      await keyVault.requestUnlock();
+    }
+    
+    // Read the chat's folder and summary as stored, the chats in this callback
+    // may be from before the caller's own updates
+    const storedChat = await chatDB.getChat(chatId);
+    const folderId = storedChat?.folderId;
+    
+    // Get stored API keys, the first one is used unless the provider fails over
+    const requestKeys = getRequestKeys(folderId, model);
+    const apiKey = requestKeys[0]?.key || '';
+    const provider = getProviderForModel(model);
     
     // Get model settings using the storage utility
-    let modelSettings;
+    let modelSettings: RequestModelSettings;
     try {
       // Use the storage utility which handles the APP_ prefix internally
       const settings = storage.get<Settings>('settings');
@@ -562,7 +811,9 @@ if (messages.length > 0) {
           frequencyPenalty: settings.modelSettings.frequencyPenalty || 0,
           presencePenalty: settings.modelSettings.presencePenalty || 0,
           maxTokens: settings.modelSettings.maxTokens || 1000,
-          systemPrompt: settings.modelSettings.systemPrompt || ''
+          systemPrompt: settings.modelSettings.systemPrompt || '',
+          topK: settings.modelSettings.topK ?? DEFAULT_SETTINGS.modelSettings.topK,
+          safetySettings: settings.modelSettings.safetySettings || DEFAULT_SETTINGS.modelSettings.safetySettings
         };
         
         console.log('Using model settings from storage:', modelSettings);
@@ -575,7 +826,9 @@ if (messages.length > 0) {
           frequencyPenalty: 0,
           presencePenalty: 0,
           maxTokens: 1000,
-          systemPrompt: ''
+          systemPrompt: '',
+          topK: DEFAULT_SETTINGS.modelSettings.topK,
+          safetySettings: DEFAULT_SETTINGS.modelSettings.safetySettings
         };
       }
     } catch (error) {
@@ -587,18 +840,30 @@ if (messages.length > 0) {
         frequencyPenalty: 0,
         presencePenalty: 0,
         maxTokens: 1000,
-        systemPrompt: ''
+        systemPrompt: '',
+        topK: DEFAULT_SETTINGS.modelSettings.topK,
+        safetySettings: DEFAULT_SETTINGS.modelSettings.safetySettings
       };
     }
     
+    // Never ask for more output than the model can generate
+    const { maxOutputTokens } = getModelInfo(model);
+    modelSettings.maxTokens = Math.min(modelSettings.maxTokens, maxOutputTokens);
+    
+    // The reply (or error) becomes a child of the last message on the path
+    const parentId = messages.length > 0 ? messages[messages.length - 1].id : null;
+    
     // If no API key is available, add system message indicating error
-    if (!apiKey) {
+    // (self-hosted endpoints may not need one)
+    if (!apiKey && provider.requiresApiKey) {
       const errorMessage: Message = {
         id: generateId(),
         content: `API key required for ${model}. Please add your API key in settings.`,
         role: 'system',
         createdAt: new Date(),
-        isPinned: false
+        isPinned: false,
+        parentId,
+        isNotice: true
       };
       
       // Update local state with error message
@@ -614,7 +879,7 @@ if (messages.length > 0) {
       }));
       
       // Save error message to IndexedDB
-      await chatDB.saveMessage({
+      chatWriteQueue.queueMessage({
         ...errorMessage,
         chatId
       });
@@ -623,14 +888,16 @@ if (messages.length > 0) {
     }
     
     // Format messages for the API - do this BEFORE creating placeholder message
-    // Extract current messages, excluding any empty assistant messages
+    // Extract current messages, excluding any empty assistant messages and notices shown to the user only
 const existingMessages = messages
-      .filter(msg => msg.role !== 'assistant' || msg.content.trim() !== '');  // Filter out empty assistant messages
+      .filter(msg => msg.role !== 'assistant' || msg.content.trim() !== '')  // Filter out empty assistant messages
+      .filter(msg => !isNoticeMessage(msg));
     
     // Ensure we have at least one user message (this is the critical fix)
     
     // Format messages for the API
     const apiMessages = existingMessages.map(msg => ({
+      id: msg.id,
       role: msg.role,
       content: msg.content
     }));
@@ -646,7 +913,9 @@ const existingMessages = messages
         content: 'Error: No valid messages to send. Please try again or refresh the page.',
         role: 'system',
         createdAt: new Date(),
-        isPinned: false
+        isPinned: false,
+        parentId,
+        isNotice: true
       };
       
       // Update chat with error message
@@ -662,7 +931,7 @@ const existingMessages = messages
       }));
       
       // Save error message
-      await chatDB.saveMessage({
+      chatWriteQueue.queueMessage({
         ...errorMessage,
         chatId
       });
@@ -670,37 +939,143 @@ const existingMessages = messages
       return null;
     }
     
-    // Get the latest chat state again to ensure we have any new messages that might have been added
-    // after we started generating the response
-    const latestChat = chats.find(c => c.id === chatId);
-if (latestChat && latestChat.messages.length > messages.length) {
-      console.log('Chat messages changed during processing, using latest state');
+    const contextSettings = storage.get<Settings>('settings')?.modelSettings;
+    const contextStrategy = contextSettings?.contextStrategy || 'basic';
+    
+    // Fit the conversation into the model's context window
+    const context = buildContext(apiMessages, {
+      model,
+      settings: {
+        contextLimit: contextSettings?.contextLimit || 'all',
+        maxTokens: modelSettings.maxTokens,
+        systemPrompt: modelSettings.systemPrompt
+      },
+      // Leave room for the summary of the dropped messages
+      reservedTokens: contextStrategy === 'summarize' ? SUMMARY_MAX_TOKENS : 0
+    });
+    
+    console.log('Context built:', {
+      messagesCount: context.messages.length,
+      droppedCount: context.dropped.length,
+      estimatedTokens: context.tokenCount,
+      tokenBudget: context.tokenBudget
+    });
+    
+    // Strip the message IDs, providers only accept role and content
+    const contextMessages: ChatRequestMessage[] = context.messages.map(({ role, content }) => ({ role, content }));
+    
+    // Older messages that were dropped are replaced with a rolling summary
+    const summarize = contextStrategy === 'summarize' && context.dropped.length > 0;
+    const cachedSummary = storedChat?.summary;
+    const conversation = apiMessages.filter(msg => msg.role !== 'system');
+    
+    // Check the request against the provider's budget, unless the user chose to send it anyway.
+    // Summarizing older messages is a request of its own and counts too.
+    const estimatedPromptTokens = estimateRequestTokens(contextMessages, model)
+      + estimateTokens(modelSettings.systemPrompt, model)
+      + (summarize ? SUMMARY_MAX_TOKENS : 0);
+    const summaryTokens = summarize
+      ? estimateSummaryTokens(cachedSummary, conversation, context.dropped, model)
+      : { promptTokens: 0, maxTokens: 0 };
+    const budgetCheck = await checkBudget({
+      provider: provider.id,
+      model,
+      promptTokens: estimatedPromptTokens + summaryTokens.promptTokens,
+      maxTokens: modelSettings.maxTokens + summaryTokens.maxTokens
+    });
+    
+    if (budgetCheck.status === 'exceeded' && !options.ignoreBudget) {
+      console.warn('Request blocked by budget:', budgetCheck);
       
-      // Refresh our messages from the latest state
-      const latestMessages = latestChat.messages
-        .filter(msg => msg.role !== 'assistant' || msg.content.trim() !== '');
-        
-      // Update the API messages
-      if (latestMessages.length > existingMessages.length) {
-        const updatedApiMessages = latestMessages.map(msg => ({
-          role: msg.role,
-          content: msg.content
-        }));
+      const blockedMessage: Message = {
+        id: generateId(),
+        content: `${describeBudgetCheck(budgetCheck, provider.name)} The request was not sent. You can change your budgets in the API keys settings or send it anyway.`,
+        role: 'system',
+        createdAt: new Date(),
+        isPinned: false,
+        parentId,
+        blockedByBudget: true
+      };
+      
+      // Show the notice, also when it's an alternative to an existing reply
+      setChats(prev => prev.map(chat => {
+        if (chat.id === chatId) {
+          return {
+            ...chat,
+            messages: [...chat.messages, blockedMessage],
+            activeBranches: { ...chat.activeBranches, [getBranchKey(parentId)]: blockedMessage.id },
+            updatedAt: new Date()
+          };
+        }
+        return chat;
+      }));
+      
+      chatWriteQueue.queueMessage({
+        ...blockedMessage,
+        chatId
+      });
+      await chatDB.setActiveBranch(chatId, getBranchKey(parentId), blockedMessage.id);
+      
+      return null;
+    }
+    
+    if (budgetCheck.status === 'warning') {
+      toast.warning(describeBudgetCheck(budgetCheck, provider.name));
+    }
+    
+    // Set generating state to true
+    setIsGenerating(true);
+    
+    // Create an AbortController for cancellation, stopping also cancels summarizing
+    const controller = new AbortController();
+    setAbortController(controller);
+    
+    // Replace the dropped messages with a rolling summary
+    if (summarize) {
+      try {
+        const summary = await getRollingSummary(
+          cachedSummary,
+          conversation,
+          context.dropped,
+          {
+            apiKey,
+            apiKeys: requestKeys,
+            model,
+            signal: controller.signal,
+            usage: {
+              chatId,
+              folderId,
+              profileId: getCurrentProfileId() || undefined
+            }
+          }
+        );
         
-        console.log('Updated API messages count:', updatedApiMessages.length);
+        if (summary !== cachedSummary) {
+          console.log('Summarized older messages:', summary.messageCount);
+          setChats(prev => prev.map(chat => 
+            chat.id === chatId ? { ...chat, summary } : chat
+          ));
+          await chatDB.updateChat(chatId, { summary });
+        }
         
-        // Only use the updated messages if we found more than before
-        if (updatedApiMessages.length > 0) {
-          // Replace our apiMessages array with the updated one
-          apiMessages.length = 0;
-          apiMessages.push(...updatedApiMessages);
+        // The summary goes after the leading system messages
+        const insertAt = contextMessages.findIndex(msg => msg.role !== 'system');
+        contextMessages.splice(insertAt < 0 ? contextMessages.length : insertAt, 0, toSummaryMessage(summary));
+      } catch (error: any) {
+        // Stopped before the reply was requested
+        if (error.name === 'AbortError') {
+          console.log('Request was aborted while summarizing');
+          return null;
         }
+        
+        // Fall back to sending the recent messages only
+        console.error('Error summarizing older messages:', error);
       }
     }
     
     // Create a payload object with all needed data
-    const payload = {
-      messages: apiMessages.length > 0 ? apiMessages : [{ 
+    const payload: ChatRequestBody = {
+      messages: contextMessages.length > 0 ? contextMessages : [{ 
         role: 'system', 
         content: modelSettings?.systemPrompt || 'The user is starting a new conversation.' 
       }],
@@ -740,15 +1115,18 @@ if (latestChat && latestChat.messages.length > messages.length) {
       content: '',
       role: 'assistant',
       createdAt: new Date(),
-      isPinned: false
+      isPinned: false,
+      parentId
     };
     
-    // Add empty message to the chat first (will be updated with streaming content)
+    // Add empty message to the chat first (will be updated with streaming content),
+    // showing the new reply also when it's an alternative to an existing one
     setChats(prev => prev.map(chat => {
       if (chat.id === chatId) {
         return {
           ...chat,
           messages: [...chat.messages, assistantMessage],
+          activeBranches: { ...chat.activeBranches, [getBranchKey(parentId)]: assistantMessageId },
           updatedAt: new Date()
         };
       }
@@ -756,17 +1134,86 @@ if (latestChat && latestChat.messages.length > messages.length) {
     }));
     
     // Save initial empty message to IndexedDB
-    await chatDB.saveMessage({
+    chatWriteQueue.queueMessage({
       ...assistantMessage,
       chatId
     });
+    await chatDB.setActiveBranch(chatId, getBranchKey(parentId), assistantMessageId);
     
-    // Set generating state to true
-    setIsGenerating(true);
     
-    // Create an AbortController for cancellation
-    const controller = new AbortController();
-    setAbortController(controller);
+    // Tokens are collected in the streaming buffer and shown from there,
+    // the chat is only updated once the reply is complete or stopped
+    const streamBuffer = createStreamingBuffer(chatId, assistantMessageId);
+    activeStreamRef.current = { chatId, message: assistantMessage, buffer: streamBuffer };
+    
+    // Measured from here, usage and finish reason are filled in from the stream
+    const requestStartedAt = Date.now();
+    let firstTokenAt: number | undefined;
+    let usage: TokenUsage = {};
+    let finishReason: string | undefined;
+    
+    const commitStreamedMessage = async (content: string) => {
+      activeStreamRef.current = null;
+      
+      const generation: GenerationMetadata = {
+        model,
+        provider: provider.id,
+        ...usage,
+        timeToFirstToken: firstTokenAt !== undefined ? firstTokenAt - requestStartedAt : undefined,
+        latency: Date.now() - requestStartedAt,
+        finishReason,
+        settings: modelSettings
+      };
+      
+      // Rendered before the streaming slot is emptied, so the message isn't shown blank in between
+      flushSync(() => {
+        setChats(prev => prev.map(chat => {
+          if (chat.id === chatId) {
+            return {
+              ...chat,
+              messages: chat.messages.map(msg => 
+                msg.id === assistantMessageId 
+                  ? { ...msg, content, generation }
+                  : msg
+              ),
+              updatedAt: new Date()
+            };
+          }
+          return chat;
+        }));
+      });
+      streamBuffer.close();
+      
+      chatWriteQueue.queueMessage({
+        ...assistantMessage,
+        content,
+        generation,
+        chatId
+      });
+      
+      // Failed requests only cost something when the provider reported usage
+      const hasUsage = usage.promptTokens !== undefined || usage.completionTokens !== undefined;
+      if (hasUsage || (finishReason !== 'error' && content)) {
+        const promptTokens = usage.promptTokens ?? estimatedPromptTokens;
+        const completionTokens = usage.completionTokens ?? estimateTokens(content, model);
+        
+        recordUsage({
+          id: assistantMessageId,
+          chatId,
+          folderId,
+          profileId: getCurrentProfileId() || undefined,
+          model,
+          provider: provider.id,
+          promptTokens,
+          completionTokens,
+          estimated: usage.promptTokens === undefined || usage.completionTokens === undefined,
+          cost: estimateCost(model, promptTokens, completionTokens),
+          createdAt: new Date()
+        }).catch(error => console.error('Error recording usage:', error));
+      }
+      
+      await chatWriteQueue.flush();
+    };
     
     try {
       // Call the simplechat API directly
@@ -793,208 +1240,71 @@ if (latestChat && latestChat.messages.length > messages.length) {
         });
       }
       
-      const response = await fetch('/api/simplechat', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(payload),
-        signal: controller.signal,
-      });
-      
-      console.log('Simplechat API status:', response.status);
-      
-      if (!response.ok) {
-        // Get more detailed error info if available
-        try {
-          const errorBody = await response.json();
-          console.error('API error details:', errorBody);
-          
-          // Create an error message with more details
-          const errorMessage: Message = {
-            id: generateId(),
-            content: `Sorry, there was an error: ${errorBody.error || `HTTP error! status: ${response.status}`}. Please try again.`,
-            role: 'system',
-            createdAt: new Date(),
-            isPinned: false
-          };
-          
-          // Update the UI with the error message
-          setChats(prev => prev.map(chat => {
-            if (chat.id === chatId) {
-              // Replace the empty assistant message with the error message
-              const updatedMessages = chat.messages.filter(msg => msg.id !== assistantMessageId);
-              return {
-                ...chat,
-                messages: [...updatedMessages, errorMessage],
-                updatedAt: new Date()
-              };
-            }
-            return chat;
-          }));
-          
-          // Save the error message
-          await chatDB.saveMessage({
-            ...errorMessage,
-            chatId
-          });
-          
-          throw new Error(`HTTP error! status: ${response.status}. Details: ${JSON.stringify(errorBody)}`);
-        } catch (parseError) {
-          // If we can't parse the error JSON, fall back to basic error
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
-      }
-      
-      if (!response.body) {
-        throw new Error('No response body from API');
-      }
-      
-      // Process the stream
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
-      let responseText = '';
+      // Process the stream, which fails over to the provider's next key when needed.
+      // A rejected request throws and the placeholder becomes the error message below,
+      // so the active branch keeps pointing at it.
       let chunkCount = 0;
       
       console.log('Starting to process stream...');
       
-      while (true) {
-        const { done, value } = await reader.read();
-        
-        if (done) {
-          console.log('Stream done, total chunks processed:', chunkCount);
-          break;
-        }
-        
+      for await (const chunk of streamChatRequest(payload, requestKeys, controller.signal)) {
         chunkCount++;
         
-        // Decode the chunk
-        const chunk = decoder.decode(value);
-        if (chunkCount === 1 || chunkCount % 10 === 0) {
-          console.log(`Received chunk #${chunkCount}, length: ${chunk.length} bytes`);
+        // The next key starts the reply over
+        if (chunk.type === 'restart') {
+          streamBuffer.replace('');
+          firstTokenAt = undefined;
+          usage = {};
+          finishReason = undefined;
+          continue;
         }
         
-        const dataLines = chunk.split('\n').filter(line => line.trim() !== '');
+        if ((chunk.type === 'text' || chunk.type === 'reasoning') && firstTokenAt === undefined) {
+          firstTokenAt = Date.now();
+        }
         
-        for (const line of dataLines) {
-          if (line.startsWith('data:')) {
-            try {
-              const content = line.slice(5).trim();
-              
-              if (content === '[DONE]') {
-                console.log('Received [DONE] signal');
-                continue;
-              }
-              
-              // Parse the data
-              const data = JSON.parse(content);
-              
-              if (data.type === 'text') {
-                // Update the accumulated content
-                responseText += data.value || '';
-                
-                if (chunkCount === 1 || responseText.length % 100 === 0) {
-                  console.log(`Current response length: ${responseText.length} chars`);
-                }
-                
-                // Update in-memory chat state
-                setChats(prev => prev.map(chat => {
-                  if (chat.id === chatId) {
-                    return {
-                      ...chat,
-                      messages: chat.messages.map(msg => 
-                        msg.id === assistantMessageId 
-                          ? { ...msg, content: responseText }
-                          : msg
-                      ),
-                      updatedAt: new Date()
-                    };
-                  }
-                  return chat;
-                }));
-                
-                // Update message in IndexedDB periodically (not on every token)
-                if (responseText.length % 100 === 0) {
-                  await chatDB.saveMessage({
-                    ...assistantMessage,
-                    content: responseText,
-                    chatId
-                  });
-                }
-              } else if (data.type === 'error') {
-                console.error('Error in stream:', data.value);
-                responseText = `Error: ${data.value}`;
-                
-                // Update in-memory chat state with error
-                setChats(prev => prev.map(chat => {
-                  if (chat.id === chatId) {
-                    return {
-                      ...chat,
-                      messages: chat.messages.map(msg => 
-                        msg.id === assistantMessageId 
-                          ? { ...msg, content: responseText }
-                          : msg
-                      ),
-                      updatedAt: new Date()
-                    };
-                  }
-                  return chat;
-                }));
-              }
-            } catch (err) {
-              console.error('Error parsing stream data:', err, 'Line:', line);
-            }
+        if (chunk.type === 'text') {
+          // Update the accumulated content
+          streamBuffer.append(chunk.value);
+          
+          if (chunkCount === 1 || chunkCount % 50 === 0) {
+            console.log(`Current response length: ${streamBuffer.content.length} chars`);
           }
+        } else if (chunk.type === 'error') {
+          console.error('Error in stream:', chunk.value);
+          streamBuffer.replace(`Error: ${chunk.value}`);
+          finishReason = 'error';
+        } else if (chunk.type === 'usage') {
+          usage = chunk.value;
+        } else if (chunk.type === 'done') {
+          console.log('Stream done, total chunks processed:', chunkCount, 'finish reason:', chunk.value.finishReason);
+          finishReason = finishReason ?? chunk.value.finishReason;
         }
       }
       
-      console.log('Stream processing complete, final response length:', responseText.length);
+      console.log('Stream processing complete, final response length:', streamBuffer.content.length);
       
-      // Final update to IndexedDB once streaming is complete
-      await chatDB.saveMessage({
-        ...assistantMessage,
-        content: responseText,
-        chatId
-      });
+      // Commit the reply to the chat and IndexedDB once streaming is complete
+      await commitStreamedMessage(streamBuffer.content);
       
     } catch (error: any) {
       console.error('Error generating AI response:', error);
       
-      // Don't show error for aborted requests
+      // Don't show error for aborted requests, keep what was streamed until then
       if (error.name === 'AbortError') {
         console.log('Request was aborted');
+        finishReason = 'aborted';
+        await commitStreamedMessage(streamBuffer.content);
       } else {
         // Update with error message
-        const errorContent = `Sorry, there was an error: ${error.message}. Please try again.`;
-        
-        // Update in-memory message
-        setChats(prev => prev.map(chat => {
-          if (chat.id === chatId) {
-            return {
-              ...chat,
-              messages: chat.messages.map(msg => 
-                msg.id === assistantMessageId 
-                  ? { ...msg, content: errorContent }
-                  : msg
-              ),
-              updatedAt: new Date()
-            };
-          }
-          return chat;
-        }));
-        
-        // Update message in IndexedDB
-        await chatDB.saveMessage({
-          ...assistantMessage,
-          content: errorContent,
-          chatId
-        });
+        finishReason = 'error';
+        await commitStreamedMessage(`Sorry, there was an error: ${error.message}. Please try again.`);
       }
     } finally {
       setIsGenerating(false);
       setAbortController(null);
     }
-  }, [chats, getApiKey]);
+  }, [getRequestKeys]);
 
   /**
    * Stop generating AI response
@@ -1007,10 +1317,136 @@ if (latestChat && latestChat.messages.length > messages.length) {
     }
   }, [abortController]);
 
+  /**
+   * Send a user message on the active branch and generate the reply
+   */
+  const sendMessage = useCallback(async (chatId: string, content: string) => {
+    const chat = await getFullChat(chatId);
+    if (!chat) return;
+    
+    const path = getActivePath(chat);
+    const parentId = path.length > 0 ? path[path.length - 1].id : null;
+    const userMessage = await addMessage(chatId, { content, role: 'user', parentId });
+    
+    await generateAIResponse(chatId, chat.model, [...path, userMessage]);
+  }, [getFullChat, addMessage, generateAIResponse]);
+
+  /**
+   * Generate an alternative to an assistant reply; the original is kept as a sibling
+   */
+  const regenerateMessage = useCallback(async (chatId: string, messageId: string) => {
+    const chat = await getFullChat(chatId);
+    if (!chat) return;
+    
+    // The conversation up to the message the reply answered
+    const path = getPathTo(chat.messages, messageId).slice(0, -1);
+    
+    await generateAIResponse(chatId, chat.model, path);
+  }, [getFullChat, generateAIResponse]);
+
+  /**
+   * Send a request that was blocked by a budget anyway; the reply replaces the notice
+   */
+  const sendOverBudget = useCallback(async (chatId: string, noticeId: string) => {
+    const chat = await getFullChat(chatId);
+    const notice = chat?.messages.find(msg => msg.id === noticeId);
+    if (!chat || !notice?.blockedByBudget) return;
+    
+    const path = notice.parentId ? getPathTo(chat.messages, notice.parentId) : [];
+    
+    // The notice may still be queued, write it first so deleting it sticks
+    await chatWriteQueue.flush();
+    await chatDB.deleteMessage(noticeId);
+    setChats(prev => prev.map(c => 
+      c.id === chatId ? { ...c, messages: c.messages.filter(msg => msg.id !== noticeId) } : c
+    ));
+    
+    await generateAIResponse(chatId, chat.model, path, { ignoreBudget: true });
+  }, [getFullChat, generateAIResponse]);
+
+  /**
+   * Send an edited copy of a user message as a new branch and generate its reply.
+   * The original message and everything after it stay reachable as a sibling.
+   */
+  const editAndResendMessage = useCallback(async (chatId: string, messageId: string, content: string) => {
+    const chat = await getFullChat(chatId);
+    const original = chat && withParentIds(chat.messages).find(msg => msg.id === messageId);
+    if (!chat || !original) return;
+    
+    const parentId = original.parentId || null;
+    const editedMessage = await addMessage(chatId, { content, role: 'user', parentId });
+    
+    setChats(prev => prev.map(c => 
+      c.id === chatId ? { ...c, activeBranches: { ...c.activeBranches, [getBranchKey(parentId)]: editedMessage.id } } : c
+    ));
+    await chatDB.setActiveBranch(chatId, getBranchKey(parentId), editedMessage.id);
+    
+    const path = parentId ? getPathTo(chat.messages, parentId) : [];
+    await generateAIResponse(chatId, chat.model, [...path, editedMessage]);
+  }, [getFullChat, addMessage, generateAIResponse]);
+
+  /**
+   * Switch the active branch to the one containing a message. Pages of older
+   * messages are loaded until the message is in memory; resolves with whether
+   * it was found.
+   */
+  const selectMessageBranch = useCallback(async (chatId: string, messageId: string) => {
+    const chat = chats.find(c => c.id === chatId);
+    if (!chat) return false;
+    
+    let messages = chat.messages;
+    if (!messages.some(msg => msg.id === messageId)) {
+      let hasMore = messagePages[chatId]?.hasMore ?? true;
+      const loaded: Message[] = [];
+      setMessagePages(prev => ({ ...prev, [chatId]: { hasMore, isLoading: true } }));
+      
+      try {
+        // Messages are sorted by creation, so the oldest one marks the next page
+        let oldest = messages.reduce<Message | undefined>((first, msg) =>
+          !first || new Date(msg.createdAt) < new Date(first.createdAt) ? msg : first, undefined);
+        while (hasMore && !loaded.some(msg => msg.id === messageId)) {
+          const result = await chatDB.getChatMessagesPage(chatId, { before: oldest, limit: MESSAGE_PAGE_SIZE });
+          loaded.unshift(...result.messages);
+          hasMore = result.hasMore;
+          oldest = result.messages[0] || oldest;
+          if (result.messages.length === 0) break;
+        }
+        console.log(`Loaded ${loaded.length} messages for chat ${chatId} to show message ${messageId}`);
+      } catch (error) {
+        console.error('Error loading messages:', error);
+      } finally {
+        setMessagePages(prev => ({ ...prev, [chatId]: { hasMore, isLoading: false } }));
+      }
+      
+      messages = mergeMessages(loaded, messages);
+      if (!messages.some(msg => msg.id === messageId)) {
+        setChats(prev => prev.map(c => 
+          c.id === chatId ? { ...c, messages: mergeMessages(loaded, c.messages) } : c
+        ));
+        return false;
+      }
+    }
+    
+    const activeBranches = selectBranch({ messages, activeBranches: chat.activeBranches }, messageId);
+    
+    setChats(prev => prev.map(c => 
+      c.id === chatId ? { ...c, messages: mergeMessages(messages, c.messages), activeBranches } : c
+    ));
+    await chatDB.updateChat(chatId, { activeBranches });
+    return true;
+  }, [chats, messagePages]);
+
   /**
    * Update a message in a chat
    */
   const updateMessage = useCallback(async (chatId: string, messageId: string, content: string) => {
+    // Get the updated message from state
+    const chat = chats.find(c => c.id === chatId);
+    const message = chat?.messages.find(m => m.id === messageId);
+    
+    // Editing a summarized message makes the cached summary stale
+    const summary = chat?.summary && !isMessageSummarized(chat, messageId) ? chat.summary : undefined;
+    
     // Update local state
     setChats(prev => prev.map(chat => {
       if (chat.id === chatId) {
@@ -1022,29 +1458,23 @@ if (latestChat && latestChat.messages.length > messages.length) {
         return {
           ...chat,
           messages: updatedMessages,
+          summary,
           updatedAt: new Date()
         };
       }
       return chat;
     }));
     
-    // Get the updated message from state
-    const chat = chats.find(c => c.id === chatId);
-    const message = chat?.messages.find(m => m.id === messageId);
-    
     if (message) {
       // Persist to IndexedDB
-      await chatDB.saveMessage({
+      chatWriteQueue.queueMessage({
         ...message,
         content,
         chatId
       });
       
       // Update chat's updatedAt
-      await chatDB.saveChat({
-        ...chat!,
-        updatedAt: new Date()
-      });
+      await chatDB.updateChat(chatId, { summary });
     }
   }, [chats]);
 
@@ -1055,23 +1485,17 @@ if (latestChat && latestChat.messages.length > messages.length) {
     // Update local state
     setChats(prev => prev.map(chat => 
       chat.id === chatId 
-        ? { ...chat, messages: [], updatedAt: new Date() }
+        ? { ...chat, messages: [], activeBranches: undefined, summary: undefined, updatedAt: new Date() }
         : chat
     ));
     
     // Persist to IndexedDB
+    await chatWriteQueue.discardPendingWrites(chatId);
     await chatDB.clearChatMessages(chatId);
     
     // Update chat in IndexedDB
-    const updatedChat = chats.find(c => c.id === chatId);
-    if (updatedChat) {
-      await chatDB.saveChat({
-        ...updatedChat,
-        messages: [],
-        updatedAt: new Date()
-      });
-    }
-  }, [chats]);
+    await chatDB.updateChat(chatId, { activeBranches: undefined, summary: undefined });
+  }, []);
 
   /**
    * Change the model for a chat
@@ -1084,35 +1508,30 @@ if (latestChat && latestChat.messages.length > messages.length) {
         : chat
     ));
     
-    // Get the updated chat from state
-    const updatedChat = chats.find(c => c.id === chatId);
-    if (updatedChat) {
-      // Persist to IndexedDB
-      await chatDB.saveChat({
-        ...updatedChat,
-        model: newModel,
-        updatedAt: new Date()
-      });
-    }
-  }, [chats]);
+    // Persist to IndexedDB
+    await chatDB.updateChat(chatId, { model: newModel });
+  }, []);
 
   /**
    * Search for chats matching a query
    */
-  const searchChats = useCallback((query: string) => {
+  const searchChats = useCallback(async (query: string) => {
     if (!query.trim()) {
       return chats;
     }
     
+    // Most messages aren't in memory, search them in IndexedDB
     const lowerQuery = query.toLowerCase();
+    const matchingChatIds = await chatDB.searchMessages(query);
+    
     return chats.filter(chat => {
       // Search in title
       if (chat.title.toLowerCase().includes(lowerQuery)) {
         return true;
       }
       
-      // Search in messages
-      return chat.messages.some(msg => 
+      // Search in messages, including ones not saved yet
+      return matchingChatIds.has(chat.id) || chat.messages.some(msg => 
         msg.content.toLowerCase().includes(lowerQuery)
       );
     });
@@ -1141,8 +1560,13 @@ if (latestChat && latestChat.messages.length > messages.length) {
     currentChatId,
     isLoaded,
     usingFallback,
+    databaseError,
     isGenerating,
+    hasMoreMessages,
+    isLoadingMessages,
     setCurrentChatId,
+    loadOlderMessages,
+    getPinnedMessages,
     createFolder,
     updateFolder,
     deleteFolder,
@@ -1151,9 +1575,15 @@ if (latestChat && latestChat.messages.length > messages.length) {
     toggleFavorite,
     togglePinMessage,
     createChat,
+    forkChat,
     updateChat,
     deleteChat,
     addMessage,
+    sendMessage,
+    regenerateMessage,
+    sendOverBudget,
+    editAndResendMessage,
+    selectMessageBranch,
     updateMessage,
     clearMessages,
     changeModel,
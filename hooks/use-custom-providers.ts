@@ -0,0 +1,101 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { CustomProvider } from '@/lib/types';
+import { apiKeyStorage } from '@/lib/api-keys';
+import { customProviderStorage, getCustomModelId } from '@/lib/custom-providers';
+import { createModelInfo } from '@/lib/model-registry';
+
+// Event dispatched whenever custom providers change so every hook instance stays in sync
+const CUSTOM_PROVIDERS_UPDATED_EVENT = 'custom-providers-updated';
+
+/**
+ * Hook for managing user-defined OpenAI-compatible endpoints
+ * Providers are persisted to localStorage using the storage utility
+ */
+export function useCustomProviders() {
+  const [providers, setProviders] = useState<CustomProvider[]>([]);
+
+  // Load providers on first render and whenever another component changes them
+  useEffect(() => {
+    const loadProviders = () => setProviders(customProviderStorage.getProviders());
+    loadProviders();
+
+    window.addEventListener(CUSTOM_PROVIDERS_UPDATED_EVENT, loadProviders);
+
+    return () => {
+      window.removeEventListener(CUSTOM_PROVIDERS_UPDATED_EVENT, loadProviders);
+    };
+  }, []);
+
+  const notifyUpdated = () => {
+    window.dispatchEvent(new CustomEvent(CUSTOM_PROVIDERS_UPDATED_EVENT));
+  };
+
+  /**
+   * Add a new endpoint, optionally with its API key
+   */
+  const addProvider = useCallback(async (
+    data: Pick<CustomProvider, 'name' | 'baseUrl' | 'headers' | 'models'>,
+    apiKey?: string
+  ) => {
+    const provider = customProviderStorage.createProvider(data);
+    try {
+      if (apiKey) {
+        await apiKeyStorage.setApiKey(provider.id, apiKey);
+      }
+    } finally {
+      // The endpoint is saved even when its key couldn't be
+      notifyUpdated();
+    }
+    return provider;
+  }, []);
+
+  /**
+   * Update an endpoint and optionally replace its API key
+   */
+  const updateProvider = useCallback(async (
+    providerId: string,
+    updates: Partial<Pick<CustomProvider, 'name' | 'baseUrl' | 'headers' | 'models'>>,
+    apiKey?: string
+  ) => {
+    customProviderStorage.updateProvider(providerId, updates);
+    try {
+      if (apiKey !== undefined) {
+        if (apiKey) {
+          await apiKeyStorage.setApiKey(providerId, apiKey);
+        } else {
+          await apiKeyStorage.removeApiKey(providerId);
+        }
+      }
+    } finally {
+      notifyUpdated();
+    }
+  }, []);
+
+  /**
+   * Remove an endpoint and its API key
+   */
+  const removeProvider = useCallback(async (providerId: string) => {
+    customProviderStorage.deleteProvider(providerId);
+    await apiKeyStorage.removeApiKey(providerId);
+    notifyUpdated();
+  }, []);
+
+  /**
+   * Model registry entries for the models of all endpoints
+   */
+  const customModels = useMemo(() => providers.flatMap(provider =>
+    provider.models.map(modelName =>
+      createModelInfo(getCustomModelId(provider.id, modelName), modelName, provider.id, modelName)
+    )
+  ), [providers]);
+
+  return {
+    providers,
+    customModels,
+    addProvider,
+    updateProvider,
+    removeProvider
+  };
+}
+
+export default useCustomProviders;
@@ -0,0 +1,47 @@
+import { useState, useEffect } from 'react';
+import { KEY_HEALTH_CHANGED_EVENT, KeyHealth, KeyState, getKeyHealth, getKeyState } from '@/lib/key-health';
+import { LabeledApiKey } from '@/lib/types';
+import { useKeyVault } from '@/hooks/use-key-vault';
+
+/**
+ * Hook for the verification status of the stored API keys
+ * Re-renders when a key is verified or changed, or the key vault locks
+ */
+export function useKeyHealth() {
+  const { status: vaultStatus } = useKeyVault();
+  // Bumped to re-render, the getters read the stored health on each render
+  const [, setRevision] = useState(0);
+
+  useEffect(() => {
+    const handleChange = () => setRevision(prev => prev + 1);
+
+    window.addEventListener(KEY_HEALTH_CHANGED_EVENT, handleChange);
+    window.addEventListener('api-key-update', handleChange);
+    return () => {
+      window.removeEventListener(KEY_HEALTH_CHANGED_EVENT, handleChange);
+      window.removeEventListener('api-key-update', handleChange);
+    };
+  }, []);
+
+  /**
+   * State of a provider's key, null while the vault is locked and the keys can't be read
+   */
+  const getState = (provider: string): KeyState | null => {
+    if (vaultStatus === 'locked') return null;
+    return getKeyState(provider);
+  };
+
+  /**
+   * Stored verification of one of the keys
+   */
+  const getHealth = (apiKey: LabeledApiKey): KeyHealth | undefined => {
+    return getKeyHealth(apiKey);
+  };
+
+  return {
+    getState,
+    getHealth
+  };
+}
+
+export default useKeyHealth;
@@ -0,0 +1,39 @@
+import { useState, useEffect, useCallback } from 'react';
+import { KEY_VAULT_CHANGED_EVENT, VaultStatus, keyVault } from '@/lib/key-vault';
+
+/**
+ * Hook for the status of the encrypted API key vault
+ * Re-renders when the vault is created, unlocked, locked or reset anywhere in the app
+ */
+export function useKeyVault() {
+  const [status, setStatus] = useState<VaultStatus>('none');
+
+  useEffect(() => {
+    const loadStatus = () => setStatus(keyVault.getVaultStatus());
+    loadStatus();
+
+    window.addEventListener(KEY_VAULT_CHANGED_EVENT, loadStatus);
+    return () => {
+      window.removeEventListener(KEY_VAULT_CHANGED_EVENT, loadStatus);
+    };
+  }, []);
+
+  /**
+   * Ask for the passphrase, resolves with whether the vault is unlocked
+   */
+  const requestUnlock = useCallback(() => keyVault.requestUnlock(), []);
+
+  /**
+   * Lock the vault now
+   */
+  const lock = useCallback(() => keyVault.lock(), []);
+
+  return {
+    status,
+    isUnlocked: status === 'unlocked',
+    requestUnlock,
+    lock
+  };
+}
+
+export default useKeyVault;
@@ -0,0 +1,98 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  LocalProviderConfig,
+  LOCAL_PROVIDER_ID,
+  discoverLocalModels,
+  getLocalModelId,
+  localModelStorage
+} from '@/lib/local-models';
+import { createModelInfo } from '@/lib/model-registry';
+
+// Event dispatched whenever the local server config or its model list changes
+const LOCAL_MODELS_UPDATED_EVENT = 'local-models-updated';
+
+// Only the first hook instance discovers on startup
+let hasDiscovered = false;
+
+/**
+ * Hook for local Ollama/LM Studio models
+ * Discovers installed models on startup and keeps the last list in localStorage
+ * so the model selector works while the server is starting up
+ */
+export function useLocalModels() {
+  const [config, setConfig] = useState<LocalProviderConfig>(localModelStorage.getConfig);
+  const [modelNames, setModelNames] = useState<string[]>([]);
+  const [isDiscovering, setIsDiscovering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Query the local server and store the installed models
+   */
+  const refresh = useCallback(async (baseUrl?: string) => {
+    const currentConfig = localModelStorage.getConfig();
+    const url = baseUrl || currentConfig.baseUrl;
+
+    setIsDiscovering(true);
+    setError(null);
+    try {
+      const models = await discoverLocalModels(url);
+      localModelStorage.setModels(models);
+      window.dispatchEvent(new CustomEvent(LOCAL_MODELS_UPDATED_EVENT));
+      return models;
+    } catch (err) {
+      console.error('Error discovering local models:', err);
+      setError(`Could not reach a local model server at ${url}`);
+      return null;
+    } finally {
+      setIsDiscovering(false);
+    }
+  }, []);
+
+  // Load the stored state and listen for changes made by other components
+  useEffect(() => {
+    const loadState = () => {
+      setConfig(localModelStorage.getConfig());
+      setModelNames(localModelStorage.getModels());
+    };
+    loadState();
+
+    window.addEventListener(LOCAL_MODELS_UPDATED_EVENT, loadState);
+
+    if (!hasDiscovered && localModelStorage.getConfig().enabled) {
+      hasDiscovered = true;
+      refresh();
+    }
+
+    return () => {
+      window.removeEventListener(LOCAL_MODELS_UPDATED_EVENT, loadState);
+    };
+  }, [refresh]);
+
+  /**
+   * Update the local server configuration
+   */
+  const updateConfig = useCallback((updates: Partial<LocalProviderConfig>) => {
+    const nextConfig = { ...localModelStorage.getConfig(), ...updates };
+    localModelStorage.setConfig(nextConfig);
+    window.dispatchEvent(new CustomEvent(LOCAL_MODELS_UPDATED_EVENT));
+    return nextConfig;
+  }, []);
+
+  /**
+   * Model registry entries for the discovered models
+   */
+  const localModels = useMemo(() => (config.enabled ? modelNames : []).map(modelName =>
+    createModelInfo(getLocalModelId(modelName), modelName, LOCAL_PROVIDER_ID, modelName)
+  ), [config.enabled, modelNames]);
+
+  return {
+    config,
+    localModels,
+    isDiscovering,
+    error,
+    refresh,
+    updateConfig
+  };
+}
+
+export default useLocalModels;
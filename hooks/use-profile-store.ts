@@ -5,6 +5,21 @@ import { storage } from '@/lib/storage';
 const USER_PROFILES_KEY = 'userProfiles';
 const CURRENT_PROFILE_ID_KEY = 'currentProfileId';
 
+/**
+ * ID of the active profile, for code outside of components
+ */
+export function getCurrentProfileId(): string {
+  return storage.get<string>(CURRENT_PROFILE_ID_KEY, '');
+}
+
+/**
+ * The active profile, for code outside of components
+ */
+export function getCurrentProfile(): UserProfile | undefined {
+  const profileId = getCurrentProfileId();
+  return storage.get<UserProfile[]>(USER_PROFILES_KEY, []).find(profile => profile.id === profileId);
+}
+
 /**
  * Hook for managing user profiles
  * Profiles are persisted to localStorage using the storage utility
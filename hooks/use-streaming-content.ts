@@ -0,0 +1,19 @@
+'use client';
+
+import { useCallback, useSyncExternalStore } from 'react';
+import { getStreamingMessage, subscribeToStreamingMessage } from '@/lib/streaming-buffer';
+
+/**
+ * Text of a message while it's being streamed, null otherwise.
+ * Only components of the streamed message re-render as tokens arrive.
+ */
+export function useStreamingContent(messageId: string): string | null {
+  const getSnapshot = useCallback(() => {
+    const streamingMessage = getStreamingMessage();
+    return streamingMessage?.messageId === messageId ? streamingMessage.content : null;
+  }, [messageId]);
+
+  return useSyncExternalStore(subscribeToStreamingMessage, getSnapshot, () => null);
+}
+
+export default useStreamingContent;
@@ -1,12 +1,30 @@
 /**
  * API Key management utilities
- * Handles secure storage and retrieval of API keys for different providers
+ * Handles secure storage and retrieval of API keys for different providers.
+ * Keys live in the encrypted key vault and are only readable while it's unlocked.
+ * A provider can hold several labeled keys; the first is its default key.
  */
 
+import { ApiKeys, KeyRotation, LabeledApiKey } from './types';
+import { customProviderStorage } from './custom-providers';
+import { DEFAULT_KEY_LABEL, KeyVaultError, keyVault } from './key-vault';
 import { storage } from './storage';
-import { ApiKeys } from './types';
+import { generateId } from './utils/chat-storage';
 
-const API_KEYS_STORAGE_KEY = 'api-keys';
+// Rotation settings aren't secret, they stay outside the vault
+const KEY_ROTATION_STORAGE_KEY = 'api-key-rotation';
+
+// Position of the next round-robin key per provider, for this session
+const nextRoundRobinIndex = new Map<string, number>();
+
+/**
+ * Only openai, anthropic, gemini, firecrawl and custom endpoints have keys
+ */
+function isSupportedProvider(provider: string): boolean {
+  return provider === 'openai' || provider === 'anthropic' ||
+    provider === 'gemini' || provider === 'firecrawl' ||
+    !!customProviderStorage.getProvider(provider);
+}
 
 /**
  * Utility for API key management
@@ -17,17 +35,29 @@ export const apiKeyStorage = {
    */
   getApiKeys: async (): Promise<ApiKeys> => {
     try {
-      // Get from storage
-      const keys = await storage.get<ApiKeys>(API_KEYS_STORAGE_KEY);
+      // Default key of each provider from the vault's session cache, empty while locked
+      const keys: ApiKeys = Object.fromEntries(
+        Object.entries(keyVault.getKeys()).map(([provider, providerKeys]) => [provider, providerKeys[0]?.key])
+      );
       
-      if (keys) {
+      if (Object.keys(keys).length > 0) {
         // Filter out any non-allowed keys (gpt-4o, etc.)
-        const { openai, anthropic, gemini, firecrawl, ...rest } = keys;
+        const { openai, anthropic, gemini, firecrawl } = keys;
+        
+        // Keep keys for custom endpoints that still exist
+        const customKeys: ApiKeys = {};
+        for (const provider of customProviderStorage.getProviders()) {
+          if (keys[provider.id]) {
+            customKeys[provider.id] = keys[provider.id];
+          }
+        }
+        
         return { 
           openai: openai || '', 
           anthropic: anthropic || '', 
           gemini: gemini || '',
-          firecrawl: firecrawl || ''
+          firecrawl: firecrawl || '',
+          ...customKeys
         };
       }
       
@@ -39,27 +69,96 @@ export const apiKeyStorage = {
   },
   
   /**
-   * Set an API key for a specific provider
+   * Set the default API key of a specific provider, an empty key removes it.
+   * Throws a KeyVaultError when the vault stays locked.
    */
   setApiKey: async (provider: keyof ApiKeys, key: string): Promise<void> => {
-    try {
-      // Only allow openai, anthropic, gemini, and firecrawl
-      if (provider !== 'openai' && provider !== 'anthropic' && 
-          provider !== 'gemini' && provider !== 'firecrawl') {
-        console.error(`API key provider ${provider} is not supported`);
-        return;
+    const [defaultKey, ...otherKeys] = apiKeyStorage.getProviderKeys(String(provider));
+    await apiKeyStorage.setProviderKeys(String(provider), key
+      ? [{ ...(defaultKey || apiKeyStorage.createKey(DEFAULT_KEY_LABEL)), key }, ...otherKeys]
+      : otherKeys);
+  },
+
+  /**
+   * Get every key of a provider, the default first
+   */
+  getProviderKeys: (provider: string): LabeledApiKey[] => {
+    return keyVault.getKeys()[provider] || [];
+  },
+
+  /**
+   * Replace the keys of a provider, the first becomes its default.
+   * Throws a KeyVaultError when the vault stays locked and nothing was saved.
+   */
+  setProviderKeys: async (provider: string, keys: LabeledApiKey[]): Promise<void> => {
+    if (!isSupportedProvider(provider)) {
+      console.error(`API key provider ${provider} is not supported`);
+      return;
+    }
+    
+    // Ask for the passphrase if the vault is locked or not set up yet
+    if (!(await keyVault.requestUnlock())) {
+      throw new KeyVaultError(`Unlock your API keys to save the ${provider} key`);
+    }
+    
+    const { [provider]: _previous, ...keyring } = keyVault.getKeys();
+    
+    // Encrypt into the vault
+    await keyVault.setKeys(keys.length > 0 ? { ...keyring, [provider]: keys } : keyring);
+  },
+
+  /**
+   * A new labeled key, not stored until passed to setProviderKeys
+   */
+  createKey: (label: string, key = ''): LabeledApiKey => {
+    return { id: generateId(), label, key };
+  },
+
+  /**
+   * How requests choose among a provider's keys
+   */
+  getRotation: (provider: string): KeyRotation => {
+    return storage.get<Record<string, KeyRotation>>(KEY_ROTATION_STORAGE_KEY, {})[provider] || 'off';
+  },
+
+  setRotation: (provider: string, rotation: KeyRotation): void => {
+    const rotations = storage.get<Record<string, KeyRotation>>(KEY_ROTATION_STORAGE_KEY, {});
+    storage.set(KEY_ROTATION_STORAGE_KEY, { ...rotations, [provider]: rotation });
+  },
+
+  /**
+   * Keys to try for a request, in order. Starts with the key picked by a folder
+   * or profile, or the next one in turn for round-robin, and continues with the
+   * others when the provider fails over.
+   */
+  getRequestKeys: (provider: string, pickedKeyId?: string): LabeledApiKey[] => {
+    const keys = apiKeyStorage.getProviderKeys(provider).filter(k => k.key);
+    if (keys.length === 0) return [];
+    
+    const rotation = apiKeyStorage.getRotation(provider);
+    let start = keys.findIndex(k => k.id === pickedKeyId);
+    if (start < 0) {
+      start = 0;
+      if (rotation === 'round-robin') {
+        start = (nextRoundRobinIndex.get(provider) || 0) % keys.length;
+        nextRoundRobinIndex.set(provider, start + 1);
       }
-      
-      // Get current keys
-      const keys = await apiKeyStorage.getApiKeys();
-      
-      // Update the specific key
-      const updatedKeys = { ...keys, [provider]: key };
-      
-      // Save to storage
-      await storage.set(API_KEYS_STORAGE_KEY, updatedKeys);
+    }
+    
+    const ordered = [...keys.slice(start), ...keys.slice(0, start)];
+    return rotation === 'off' ? ordered.slice(0, 1) : ordered;
+  },
+  
+  /**
+   * Remove the API key for a specific provider
+   */
+  removeApiKey: async (provider: keyof ApiKeys): Promise<void> => {
+    try {
+      if (keyVault.getVaultStatus() !== 'unlocked') return;
+      const { [provider]: _removed, ...rest } = keyVault.getKeys();
+      await keyVault.setKeys(rest);
     } catch (error) {
-      console.error(`Error setting ${provider} API key:`, error);
+      console.error(`Error removing ${provider} API key:`, error);
     }
   },
   
@@ -68,19 +167,27 @@ export const apiKeyStorage = {
    */
   clearAllApiKeys: async (): Promise<void> => {
     try {
-      // Clear from storage
-      await storage.remove(API_KEYS_STORAGE_KEY);
+      // Keep the vault and its passphrase, just empty it
+      if (keyVault.getVaultStatus() === 'unlocked') {
+        await keyVault.setKeys({});
+      }
     } catch (error) {
       console.error('Error clearing API keys:', error);
     }
   },
 
+  /**
+   * Get the default key of any provider, empty while the vault is locked
+   */
+  getKey: (provider: keyof ApiKeys): string => {
+    return keyVault.getKeys()[String(provider)]?.[0]?.key || '';
+  },
+
   /**
    * Get OpenAI API key
    */
   getOpenAIKey: (): string => {
-    const keys = storage.get<ApiKeys>(API_KEYS_STORAGE_KEY, {});
-    return keys.openai || '';
+    return apiKeyStorage.getKey('openai');
   },
 
   /**
@@ -94,8 +201,7 @@ export const apiKeyStorage = {
    * Get Anthropic API key
    */
   getAnthropicKey: (): string => {
-    const keys = storage.get<ApiKeys>(API_KEYS_STORAGE_KEY, {});
-    return keys.anthropic || '';
+    return apiKeyStorage.getKey('anthropic');
   },
 
   /**
@@ -109,8 +215,7 @@ export const apiKeyStorage = {
    * Get Gemini API key
    */
   getGeminiKey: (): string => {
-    const keys = storage.get<ApiKeys>(API_KEYS_STORAGE_KEY, {});
-    return keys.gemini || '';
+    return apiKeyStorage.getKey('gemini');
   },
 
   /**
@@ -124,8 +229,7 @@ export const apiKeyStorage = {
    * Get Firecrawl API key
    */
   getFirecrawlKey: (): string => {
-    const keys = storage.get<ApiKeys>(API_KEYS_STORAGE_KEY, {});
-    return keys.firecrawl || '';
+    return apiKeyStorage.getKey('firecrawl');
   },
 
   /**
@@ -138,9 +242,8 @@ export const apiKeyStorage = {
   /**
    * Check if a key exists for a provider
    */
-  hasKey: (provider: 'openai' | 'anthropic' | 'gemini' | 'firecrawl'): boolean => {
-    const keys = storage.get<ApiKeys>(API_KEYS_STORAGE_KEY, {});
-    return !!keys[provider];
+  hasKey: (provider: keyof ApiKeys): boolean => {
+    return !!apiKeyStorage.getKey(provider);
   },
 
   /**
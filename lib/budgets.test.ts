@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { budgetStorage, checkBudget } from './budgets';
+import { chatDB } from './chat-db';
+import { UsageRecord } from './types';
+
+vi.mock('./chat-db', () => ({
+  chatDB: { getUsageRecords: vi.fn() }
+}));
+
+// $1 per 1M prompt tokens and $2 per 1M completion tokens, unknown models have no price
+vi.mock('./model-registry', () => ({
+  estimateCost: (model: string, promptTokens: number, completionTokens: number) =>
+    model === 'unpriced' ? null : (promptTokens * 1 + completionTokens * 2) / 1000000
+}));
+
+const NOW = new Date(2024, 5, 15, 12);
+
+function usage(cost: number | null, createdAt: Date, provider = 'openai'): UsageRecord {
+  return {
+    id: `${provider}-${createdAt.getTime()}`,
+    chatId: 'chat',
+    model: 'gpt-4o',
+    provider,
+    promptTokens: 0,
+    completionTokens: 0,
+    estimated: false,
+    cost,
+    createdAt
+  };
+}
+
+// A request that costs at most $0.10
+const request = { provider: 'openai', model: 'gpt-4o', promptTokens: 40000, maxTokens: 30000 };
+
+describe('checkBudget', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    vi.mocked(chatDB.getUsageRecords).mockResolvedValue([
+      usage(0.5, new Date(2024, 5, 15, 9)),
+      usage(2, new Date(2024, 5, 3)),
+      usage(null, new Date(2024, 5, 15, 10)),
+      usage(5, new Date(2024, 5, 15, 11), 'anthropic')
+    ]);
+    return () => vi.useRealTimers();
+  });
+
+  it('passes every request without a budget', async () => {
+    expect(await checkBudget(request)).toEqual({ status: 'ok', estimatedCost: 0.1 });
+    expect(chatDB.getUsageRecords).not.toHaveBeenCalled();
+  });
+
+  it('counts only the provider\'s spend in each period', async () => {
+    budgetStorage.setBudget('openai', { daily: 10, monthly: 100 });
+
+    expect(await checkBudget(request)).toEqual({
+      status: 'ok',
+      estimatedCost: 0.1,
+      period: 'daily',
+      spent: 0.5,
+      limit: 10
+    });
+  });
+
+  it('warns when the request brings spend close to a cap', async () => {
+    budgetStorage.setBudget('openai', { daily: 0.7 });
+
+    expect(await checkBudget(request)).toMatchObject({ status: 'warning', period: 'daily', spent: 0.5 });
+  });
+
+  it('blocks a request that could exceed a cap', async () => {
+    budgetStorage.setBudget('openai', { daily: 0.55 });
+
+    expect(await checkBudget(request)).toMatchObject({ status: 'exceeded', period: 'daily', limit: 0.55 });
+  });
+
+  it('reports the cap that is closest to being reached', async () => {
+    budgetStorage.setBudget('openai', { daily: 10, monthly: 2.5 });
+
+    expect(await checkBudget(request)).toMatchObject({ status: 'exceeded', period: 'monthly', spent: 2.5 });
+  });
+
+  it('checks only the recorded spend for a model without a price', async () => {
+    budgetStorage.setBudget('openai', { daily: 0.55 });
+
+    expect(await checkBudget({ ...request, model: 'unpriced' })).toMatchObject({
+      status: 'warning',
+      estimatedCost: null
+    });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Spending budgets
+ * Daily and monthly caps in USD per provider, checked against the recorded
+ * usage plus an estimate of the request about to be sent: its prompt tokens
+ * and the most it can generate (maxTokens).
+ */
+
+import { startOfDay, startOfMonth } from 'date-fns';
+import { chatDB } from './chat-db';
+import { estimateCost } from './model-registry';
+import { storage } from './storage';
+
+const BUDGETS_STORAGE_KEY = 'provider-budgets';
+
+// Share of a cap at which sending warns
+export const BUDGET_WARNING_RATIO = 0.8;
+
+/**
+ * Caps in USD, unset means unlimited
+ */
+export type ProviderBudget = {
+  daily?: number;
+  monthly?: number;
+};
+
+export type BudgetPeriod = 'daily' | 'monthly';
+
+/**
+ * Outcome of checking a request against its provider's budget
+ */
+export type BudgetCheck = {
+  status: 'ok' | 'warning' | 'exceeded';
+  /** Highest possible cost of the request, null when the model's price is unknown */
+  estimatedCost: number | null;
+  /** The cap that is closest to being reached */
+  period?: BudgetPeriod;
+  spent?: number;
+  limit?: number;
+};
+
+/**
+ * Spend of a provider today and this month, in USD
+ */
+export async function getProviderSpend(provider: string, now = new Date()): Promise<Record<BudgetPeriod, number>> {
+  const records = await chatDB.getUsageRecords(startOfMonth(now));
+  const today = startOfDay(now);
+
+  const spend = { daily: 0, monthly: 0 };
+  for (const record of records) {
+    if (record.provider !== provider || record.cost === null) continue;
+
+    spend.monthly += record.cost;
+    if (new Date(record.createdAt) >= today) {
+      spend.daily += record.cost;
+    }
+  }
+  return spend;
+}
+
+/**
+ * Check whether a request fits the budget of its provider
+ */
+export async function checkBudget(request: {
+  provider: string;
+  model: string;
+  promptTokens: number;
+  maxTokens: number;
+}): Promise<BudgetCheck> {
+  const estimatedCost = estimateCost(request.model, request.promptTokens, request.maxTokens);
+  const budget = budgetStorage.getBudget(request.provider);
+  if (!budget.daily && !budget.monthly) {
+    return { status: 'ok', estimatedCost };
+  }
+
+  const spend = await getProviderSpend(request.provider);
+  let result: BudgetCheck = { status: 'ok', estimatedCost };
+  let highestRatio = 0;
+
+  for (const period of ['daily', 'monthly'] as const) {
+    const limit = budget[period];
+    if (!limit) continue;
+
+    const ratio = (spend[period] + (estimatedCost ?? 0)) / limit;
+    if (ratio <= highestRatio) continue;
+
+    highestRatio = ratio;
+    result = {
+      status: ratio > 1 ? 'exceeded' : ratio >= BUDGET_WARNING_RATIO ? 'warning' : 'ok',
+      estimatedCost,
+      period,
+      spent: spend[period],
+      limit
+    };
+  }
+
+  return result;
+}
+
+/**
+ * Describe a warning or exceeded check for the user
+ */
+export function describeBudgetCheck(check: BudgetCheck, providerName: string): string {
+  if (!check.period || check.limit === undefined || check.spent === undefined) return '';
+
+  const estimate = check.estimatedCost !== null ? ` This request could cost up to $${check.estimatedCost.toFixed(4)}.` : '';
+
+  return check.status === 'exceeded'
+    ? `This request would exceed your ${check.period} ${providerName} budget of $${check.limit.toFixed(2)} ($${check.spent.toFixed(2)} spent).${estimate}`
+    : `You have used $${check.spent.toFixed(2)} of your ${check.period} ${providerName} budget of $${check.limit.toFixed(2)}.${estimate}`;
+}
+
+/**
+ * Storage of the budgets, keyed by provider ID
+ */
+export const budgetStorage = {
+  getBudgets: (): Record<string, ProviderBudget> => {
+    return storage.get<Record<string, ProviderBudget>>(BUDGETS_STORAGE_KEY, {});
+  },
+
+  getBudget: (provider: string): ProviderBudget => {
+    return budgetStorage.getBudgets()[provider] || {};
+  },
+
+  setBudget: (provider: string, budget: ProviderBudget): void => {
+    const budgets = budgetStorage.getBudgets();
+    const cleaned: ProviderBudget = {
+      ...(budget.daily && budget.daily > 0 && { daily: budget.daily }),
+      ...(budget.monthly && budget.monthly > 0 && { monthly: budget.monthly })
+    };
+
+    if (cleaned.daily || cleaned.monthly) {
+      budgets[provider] = cleaned;
+    } else {
+      delete budgets[provider];
+    }
+    storage.set(BUDGETS_STORAGE_KEY, budgets);
+  }
+};
+
+export default budgetStorage;
@@ -5,20 +5,21 @@
  * Handles persistent storage of chats, messages, and folders
  */
 
-import { openDB, DBSchema, IDBPDatabase } from 'idb';
-import { Chat, Message, Folder } from './types';
+import { openDB, deleteDB, DBSchema, IDBPDatabase } from 'idb';
+import { Chat, Message, Folder, UsageRecord } from './types';
+import { DatabaseMigrationError, LATEST_DB_VERSION, createBackup, getBackup, runMigrations } from './db-migrations';
 
 /**
  * Extended Message type that includes chatId for IndexedDB storage
  */
-interface DBMessage extends Message {
+export interface DBMessage extends Message {
   chatId: string;
 }
 
 /**
  * Define database schema for TypeScript
  */
-interface ChatDBSchema extends DBSchema {
+export interface ChatDBSchema extends DBSchema {
   chats: {
     key: string;
     value: Chat;
@@ -33,6 +34,7 @@ interface ChatDBSchema extends DBSchema {
     indexes: {
       'chatId': string;
       'createdAt': Date;
+      'chatId_createdAt': [string, Date];
     };
   };
   folders: {
@@ -42,42 +44,73 @@ interface ChatDBSchema extends DBSchema {
       'updatedAt': Date;
     };
   };
+  usage: {
+    key: string;
+    value: UsageRecord;
+    indexes: {
+      'createdAt': Date;
+    };
+  };
 }
 
 const DB_NAME = 'chatApp';
-const DB_VERSION = 1;
 
 /**
  * Check if we're running in a browser environment
  */
 const isBrowser = typeof window !== 'undefined' && typeof window.indexedDB !== 'undefined';
 
+let dbPromise: Promise<IDBPDatabase<ChatDBSchema>> | null = null;
+
 /**
- * Initialize database connection
+ * Open the database at the latest schema version.
+ * An existing database that needs migrating is backed up first; if the backup
+ * or a migration fails the upgrade is rolled back and a DatabaseMigrationError
+ * is thrown. A database from a newer version of the app throws one too.
  */
-const dbPromise = isBrowser 
-  ? openDB<ChatDBSchema>(DB_NAME, DB_VERSION, {
-      upgrade(db) {
-        // Create stores with indexes
-        if (!db.objectStoreNames.contains('chats')) {
-          const chatStore = db.createObjectStore('chats', { keyPath: 'id' });
-          chatStore.createIndex('updatedAt', 'updatedAt');
-          chatStore.createIndex('folderId', 'folderId');
-        }
-        
-        if (!db.objectStoreNames.contains('messages')) {
-          const messageStore = db.createObjectStore('messages', { keyPath: 'id' });
-          messageStore.createIndex('chatId', 'chatId');
-          messageStore.createIndex('createdAt', 'createdAt');
-        }
-        
-        if (!db.objectStoreNames.contains('folders')) {
-          const folderStore = db.createObjectStore('folders', { keyPath: 'id' });
-          folderStore.createIndex('updatedAt', 'updatedAt');
-        }
+async function openChatDB(): Promise<IDBPDatabase<ChatDBSchema>> {
+  // Opening without a version reads the stored version without upgrading
+  const existing = await openDB<ChatDBSchema>(DB_NAME);
+  const storedVersion = existing.objectStoreNames.length > 0 ? existing.version : 0;
+
+  // A newer version of the app upgraded the database, opening it at an older version fails
+  if (storedVersion > LATEST_DB_VERSION) {
+    existing.close();
+    throw new DatabaseMigrationError(storedVersion, LATEST_DB_VERSION, null,
+      new Error(`Database version ${storedVersion} is newer than version ${LATEST_DB_VERSION}`));
+  }
+
+  let backupId: string | null = null;
+  let migrationError: unknown = null;
+
+  try {
+    if (storedVersion > 0 && storedVersion < LATEST_DB_VERSION) {
+      backupId = await createBackup(existing);
+      console.log(`Backed up chat database version ${storedVersion} as ${backupId}`);
+    }
+    existing.close();
+
+    return await openDB<ChatDBSchema>(DB_NAME, LATEST_DB_VERSION, {
+      upgrade(db, oldVersion, _newVersion, transaction) {
+        // Roll the whole upgrade back if any migration fails
+        runMigrations(db, oldVersion, transaction).catch(error => {
+          console.error('Database migration failed:', error);
+          migrationError = error;
+          transaction.abort();
+        });
+      },
+      blocking(_currentVersion, _blockedVersion, event) {
+        // Let a newer version of the app in another tab upgrade the database,
+        // the next operation opens it again instead of using the closed connection
+        (event.target as IDBDatabase).close();
+        dbPromise = null;
       }
-    })
-  : null;
+    });
+  } catch (error) {
+    existing.close();
+    throw new DatabaseMigrationError(storedVersion, LATEST_DB_VERSION, backupId, migrationError || error);
+  }
+}
 
 /**
  * Safely get database instance
@@ -86,6 +119,9 @@ async function getDB() {
   if (!isBrowser) {
     return null;
   }
+  if (!dbPromise) {
+    dbPromise = openChatDB();
+  }
   return dbPromise;
 }
 
@@ -110,21 +146,55 @@ export const chatDB = {
     const messages = chatToSave.messages || [];
     chatToSave.messages = []; // Set to empty array to maintain schema consistency
     
-    // Save the chat without messages
-    await db.put('chats', chatToSave);
+    // Save the chat and its new messages in a single transaction
+    const tx = db.transaction(['chats', 'messages'], 'readwrite');
+    await tx.objectStore('chats').put(chatToSave);
     
-    // If this is a new chat with messages, save them separately
     for (const message of messages) {
       // Only save messages that don't already have a chatId property
       // This prevents re-saving messages that are already in the store
       if (message.id && !('chatId' in message)) {
-        await this.saveMessage({ ...message, chatId: chat.id });
+        await tx.objectStore('messages').put({ ...message, chatId: chat.id });
       }
     }
     
+    await tx.done;
     return chat.id;
   },
   
+  /**
+   * Update fields of a stored chat without touching its messages
+   */
+  async updateChat(id: string, updates: Partial<Omit<Chat, 'id' | 'messages'>>): Promise<void> {
+    const db = await getDB();
+    if (!db) return;
+    
+    const chat = await db.get('chats', id);
+    if (!chat) return;
+    
+    await db.put('chats', { ...chat, ...updates, updatedAt: new Date() });
+  },
+  
+  /**
+   * Select a message at one branch point of a stored chat. The selections at
+   * the other branch points are read in the same transaction and kept as stored.
+   */
+  async setActiveBranch(id: string, branchKey: string, messageId: string): Promise<void> {
+    const db = await getDB();
+    if (!db) return;
+    
+    const tx = db.transaction('chats', 'readwrite');
+    const chat = await tx.store.get(id);
+    if (chat) {
+      await tx.store.put({
+        ...chat,
+        activeBranches: { ...chat.activeBranches, [branchKey]: messageId },
+        updatedAt: new Date()
+      });
+    }
+    await tx.done;
+  },
+  
   /**
    * Get a chat by ID
    */
@@ -183,33 +253,37 @@ export const chatDB = {
    * Save a message
    */
   async saveMessage(message: Omit<Message, 'chatId'> & { chatId: string }): Promise<string> {
+    await this.saveMessages([message]);
+    return message.id;
+  },
+  
+  /**
+   * Save messages in a single transaction, updating the updatedAt timestamp
+   * of each of their chats once
+   */
+  async saveMessages(messages: DBMessage[]): Promise<void> {
     const db = await getDB();
-    if (!db) return message.id;
+    if (!db || messages.length === 0) return;
     
-    // Ensure createdAt is set if not already
-    if (!message.createdAt) {
-      message.createdAt = new Date();
-    }
+    const tx = db.transaction(['chats', 'messages'], 'readwrite');
+    const messageStore = tx.objectStore('messages');
     
-    // Save the message to the messages store
-    await db.put('messages', message);
+    for (const message of messages) {
+      // Ensure createdAt is set if not already
+      await messageStore.put({ ...message, createdAt: message.createdAt || new Date() });
+    }
     
-    // Update the associated chat's updatedAt timestamp WITHOUT modifying the messages array
-    // We'll use a transaction to ensure atomicity and prevent race conditions
-    const tx = db.transaction('chats', 'readwrite');
+    // Only update the timestamp, don't touch the messages array
     const chatStore = tx.objectStore('chats');
-    const chat = await chatStore.get(message.chatId);
-    
-    if (chat) {
-      // Only update the timestamp, don't touch the messages array
-      chat.updatedAt = new Date();
-      await chatStore.put(chat);
+    for (const chatId of new Set(messages.map(msg => msg.chatId))) {
+      const chat = await chatStore.get(chatId);
+      if (chat) {
+        await chatStore.put({ ...chat, updatedAt: new Date() });
+      }
     }
     
     // Commit the transaction
     await tx.done;
-    
-    return message.id;
   },
   
   /**
@@ -219,7 +293,83 @@ export const chatDB = {
     const db = await getDB();
     if (!db) return [];
     
-    return db.getAllFromIndex('messages', 'chatId', chatId);
+    // Keys are random IDs, so restore the order the messages were written in
+    const messages = await db.getAllFromIndex('messages', 'chatId', chatId);
+    return messages.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  },
+  
+  /**
+   * Get messages by ID, skipping IDs that aren't stored
+   */
+  async getMessages(ids: string[]): Promise<Message[]> {
+    const db = await getDB();
+    if (!db || ids.length === 0) return [];
+    
+    const tx = db.transaction('messages');
+    const messages = await Promise.all(ids.map(id => tx.store.get(id)));
+    await tx.done;
+    return messages.filter((message): message is DBMessage => message !== undefined);
+  },
+  
+  /**
+   * Get a page of a chat's messages, newest first from the end or before a
+   * message that was already loaded. The page is returned in creation order.
+   */
+  async getChatMessagesPage(
+    chatId: string,
+    { before, limit }: { before?: Pick<Message, 'id' | 'createdAt'>; limit: number }
+  ): Promise<{ messages: Message[]; hasMore: boolean }> {
+    const db = await getDB();
+    if (!db) return { messages: [], hasMore: false };
+    
+    // [chatId] sorts before and [chatId, []] after every [chatId, createdAt] key
+    const range = before
+      ? IDBKeyRange.bound([chatId], [chatId, new Date(before.createdAt)])
+      : IDBKeyRange.bound([chatId], [chatId, []]);
+    
+    const index = db.transaction('messages').store.index('chatId_createdAt');
+    let cursor = await index.openCursor(range, 'prev');
+    const messages: Message[] = [];
+    
+    // Read one extra message to know whether there are more
+    while (cursor && messages.length <= limit) {
+      const message = cursor.value;
+      // Messages created at the same time as `before` are ordered by ID
+      const alreadyLoaded = before
+        && new Date(message.createdAt).getTime() === new Date(before.createdAt).getTime()
+        && message.id >= before.id;
+      
+      if (!alreadyLoaded) {
+        messages.push(message);
+      }
+      cursor = await cursor.continue();
+    }
+    
+    return {
+      messages: messages.slice(0, limit).reverse(),
+      hasMore: messages.length > limit
+    };
+  },
+  
+  /**
+   * Get the IDs of chats with a message containing a text (case-insensitive)
+   */
+  async searchMessages(query: string): Promise<Set<string>> {
+    const db = await getDB();
+    const chatIds = new Set<string>();
+    if (!db) return chatIds;
+    
+    const lowerQuery = query.toLowerCase();
+    let cursor = await db.transaction('messages').store.openCursor();
+    
+    while (cursor) {
+      if (!chatIds.has(cursor.value.chatId) && cursor.value.content.toLowerCase().includes(lowerQuery)) {
+        chatIds.add(cursor.value.chatId);
+      }
+      cursor = await cursor.continue();
+    }
+    
+    return chatIds;
   },
   
   /**
@@ -324,6 +474,30 @@ export const chatDB = {
     }
   },
   
+  /**
+   * Save the usage of a reply
+   */
+  async saveUsageRecord(record: UsageRecord): Promise<void> {
+    const db = await getDB();
+    if (!db) return;
+    
+    await db.put('usage', record);
+  },
+  
+  /**
+   * Get the usage records created within a date range (both ends included), oldest first
+   */
+  async getUsageRecords(from?: Date, to?: Date): Promise<UsageRecord[]> {
+    const db = await getDB();
+    if (!db) return [];
+    
+    const range = from && to ? IDBKeyRange.bound(from, to)
+      : from ? IDBKeyRange.lowerBound(from)
+      : to ? IDBKeyRange.upperBound(to)
+      : undefined;
+    return db.getAllFromIndex('usage', 'createdAt', range);
+  },
+  
   /**
    * Import data from localStorage to IndexedDB
    * Used for migrating data from previous storage implementation
@@ -361,6 +535,46 @@ export const chatDB = {
     await tx.done;
   },
   
+  /**
+   * Write imported chats with their messages and folders.
+   * Chats are written in batches of separate transactions so large archives
+   * don't keep a single transaction open and progress can be reported.
+   */
+  async importChats(
+    chats: Chat[],
+    folders: Folder[],
+    onProgress?: (done: number, total: number) => void,
+    batchSize = 25
+  ): Promise<void> {
+    const db = await getDB();
+    if (!db) return;
+    
+    // Import folders
+    const folderTx = db.transaction('folders', 'readwrite');
+    for (const folder of folders) {
+      await folderTx.store.put(folder);
+    }
+    await folderTx.done;
+    
+    // Import chats and their messages batch by batch
+    for (let start = 0; start < chats.length; start += batchSize) {
+      const tx = db.transaction(['chats', 'messages'], 'readwrite');
+      
+      for (const chat of chats.slice(start, start + batchSize)) {
+        // Save chat without messages array to avoid duplication
+        await tx.objectStore('chats').put({ ...chat, messages: [] });
+        
+        for (const message of chat.messages || []) {
+          const messageToSave = { ...message, chatId: chat.id } as DBMessage;
+          await tx.objectStore('messages').put(messageToSave);
+        }
+      }
+      
+      await tx.done;
+      onProgress?.(Math.min(start + batchSize, chats.length), chats.length);
+    }
+  },
+  
   /**
    * Check if database is empty (used to determine if we need to import)
    */
@@ -372,6 +586,65 @@ export const chatDB = {
     return chatsCount === 0;
   },
   
+  /**
+   * Delete the whole database, used to start over when it can't be migrated
+   */
+  async deleteDatabase(): Promise<void> {
+    if (!isBrowser) return;
+    
+    dbPromise = null;
+    await deleteDB(DB_NAME);
+  },
+
+  /**
+   * Replace the database with a backup taken before a migration. The database
+   * is recreated at the backup's version; reopening it migrates it again.
+   */
+  async restoreBackup(backupId: string): Promise<void> {
+    if (!isBrowser) return;
+
+    const backup = await getBackup(backupId);
+    if (!backup) {
+      throw new Error(`Backup ${backupId} not found`);
+    }
+    if (backup.version > LATEST_DB_VERSION) {
+      throw new Error(`Backup ${backupId} is from a newer version of the app`);
+    }
+
+    await chatDB.deleteDatabase();
+
+    let migrationError: unknown = null;
+    const db = await openDB<ChatDBSchema>(DB_NAME, backup.version, {
+      upgrade(db, oldVersion, _newVersion, transaction) {
+        runMigrations(db, oldVersion, transaction, backup.version).catch(error => {
+          console.error('Database migration failed:', error);
+          migrationError = error;
+          transaction.abort();
+        });
+      }
+    }).catch(error => {
+      throw migrationError || error;
+    });
+
+    try {
+      const storeNames = (['chats', 'messages', 'folders', 'usage'] as const)
+        .filter(name => db.objectStoreNames.contains(name));
+      const tx = db.transaction(storeNames, 'readwrite');
+      const puts: Promise<unknown>[] = [
+        ...backup.chats.map(chat => tx.objectStore('chats').put(chat)),
+        ...backup.messages.map(message => tx.objectStore('messages').put(message)),
+        ...backup.folders.map(folder => tx.objectStore('folders').put(folder))
+      ];
+      if (backup.usage && storeNames.includes('usage')) {
+        puts.push(...backup.usage.map(record => tx.objectStore('usage').put(record)));
+      }
+      await Promise.all([...puts, tx.done]);
+      console.log(`Restored chat database backup ${backupId}`);
+    } finally {
+      db.close();
+    }
+  },
+  
   /**
    * Check if running in browser environment
    */
@@ -0,0 +1,286 @@
+/**
+ * Chat export
+ * Collects chats from IndexedDB and writes them out as a versioned JSON
+ * backup, readable Markdown or a self-contained HTML page
+ */
+
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown from 'react-markdown';
+import { Chat, Folder, Message, Settings, UserProfile } from './types';
+import { chatDB } from './chat-db';
+import { storage } from './storage';
+import { getActivePath } from './message-tree';
+import { getModelInfo } from './model-registry';
+
+/**
+ * Identifies files written by this exporter
+ */
+export const EXPORT_SCHEMA = 'ai-chatbot-export';
+
+/**
+ * Bump when the shape of ChatExport changes
+ */
+export const EXPORT_SCHEMA_VERSION = 1;
+
+export type ExportFormat = 'json' | 'markdown' | 'html';
+
+/**
+ * What to export
+ */
+export type ExportScope =
+  | { type: 'chat'; chatId: string }
+  | { type: 'folder'; folderId: string }
+  | { type: 'all' };
+
+/**
+ * A stored message, with the chat it belongs to
+ */
+export type ExportedMessage = Message & { chatId: string };
+
+/**
+ * Versioned JSON export.
+ * Chats are stored without their messages, which are listed separately like
+ * in IndexedDB. API keys are never exported: they aren't part of the settings
+ * and custom provider endpoints (whose headers may hold credentials) are left out.
+ */
+export type ChatExport = {
+  schema: typeof EXPORT_SCHEMA;
+  version: number;
+  exportedAt: Date;
+  chats: Chat[];
+  messages: ExportedMessage[];
+  folders: Folder[];
+  /** Only included when exporting everything */
+  profiles?: UserProfile[];
+  settings?: Settings;
+};
+
+const FORMAT_DETAILS: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  json: { extension: 'json', mimeType: 'application/json' },
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+  html: { extension: 'html', mimeType: 'text/html' }
+};
+
+const ROLE_LABELS: Record<Message['role'], string> = {
+  user: 'User',
+  assistant: 'Assistant',
+  system: 'System'
+};
+
+/**
+ * Read the chats, messages and folders in a scope from IndexedDB
+ */
+export async function collectExport(scope: ExportScope): Promise<ChatExport> {
+  const [allChats, allFolders] = await Promise.all([
+    chatDB.getAllChats(),
+    chatDB.getAllFolders()
+  ]);
+
+  let chats: Chat[];
+  let folders: Folder[];
+
+  if (scope.type === 'chat') {
+    chats = allChats.filter(chat => chat.id === scope.chatId);
+    folders = allFolders.filter(folder => chats.some(chat => chat.folderId === folder.id));
+  } else if (scope.type === 'folder') {
+    chats = allChats.filter(chat => chat.folderId === scope.folderId);
+    folders = allFolders.filter(folder => folder.id === scope.folderId);
+  } else {
+    chats = allChats;
+    folders = allFolders;
+  }
+
+  const messages: ExportedMessage[] = [];
+  for (const chat of chats) {
+    const chatMessages = await chatDB.getChatMessages(chat.id);
+    messages.push(...chatMessages.map(message => ({ ...message, chatId: chat.id })));
+  }
+
+  const data: ChatExport = {
+    schema: EXPORT_SCHEMA,
+    version: EXPORT_SCHEMA_VERSION,
+    exportedAt: new Date(),
+    chats: chats.map(chat => ({ ...chat, messages: [] })),
+    messages,
+    folders
+  };
+
+  if (scope.type === 'all') {
+    data.profiles = storage.get<UserProfile[]>('userProfiles', []);
+    data.settings = storage.get<Settings>('settings') || undefined;
+  }
+
+  return data;
+}
+
+/**
+ * The chats of an export with their messages attached
+ */
+function withMessages(data: ChatExport): Chat[] {
+  return data.chats.map(chat => ({
+    ...chat,
+    messages: data.messages.filter(message => message.chatId === chat.id)
+  }));
+}
+
+function formatTimestamp(date: Date): string {
+  return new Date(date).toLocaleString('en-GB', {
+    day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit'
+  });
+}
+
+/**
+ * Serialize an export as JSON
+ */
+export function toJSON(data: ChatExport): string {
+  return JSON.stringify(data, null, 2);
+}
+
+/**
+ * Render the active branch of each chat as Markdown
+ */
+export function toMarkdown(data: ChatExport): string {
+  return withMessages(data).map(chat => {
+    const header = [
+      `# ${chat.title}`,
+      '',
+      `- Model: ${getModelInfo(chat.model).name}`,
+      `- Created: ${formatTimestamp(chat.createdAt)}`,
+      `- Updated: ${formatTimestamp(chat.updatedAt)}`
+    ].join('\n');
+
+    const messages = getActivePath(chat).map(message =>
+      `## ${ROLE_LABELS[message.role]} (${formatTimestamp(message.createdAt)})\n\n${message.content}`
+    );
+
+    return [header, ...messages].join('\n\n');
+  }).join('\n\n---\n\n') + '\n';
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const HTML_STYLES = `
+  body { font-family: Vazirmatn, system-ui, sans-serif; max-width: 780px; margin: 0 auto; padding: 2rem 1rem; color: #18181b; line-height: 1.6; }
+  header { border-bottom: 1px solid #e4e4e7; margin-bottom: 1.5rem; }
+  header p { color: #71717a; font-size: 0.875rem; margin-top: 0; }
+  article + article { margin-top: 3rem; }
+  .message { margin: 1rem 0; }
+  .message .meta { color: #71717a; font-size: 0.75rem; margin-bottom: 0.25rem; }
+  .message.user .content { background: #18181b; color: #fafafa; border-radius: 1rem 0.375rem 1rem 1rem; padding: 0.5rem 1rem; margin-left: auto; width: fit-content; max-width: 85%; }
+  .message.user .meta { text-align: right; }
+  .message.system .content { color: #71717a; font-style: italic; }
+  pre { background: #f4f4f5; border-radius: 0.375rem; padding: 0.75rem; overflow-x: auto; }
+  code { font-size: 0.875em; }
+  .message.user pre { background: #27272a; }
+  @media (prefers-color-scheme: dark) {
+    body { background: #09090b; color: #fafafa; }
+    header { border-color: #27272a; }
+    .message.user .content { background: #fafafa; color: #18181b; }
+    pre, .message.user pre { background: #27272a; }
+  }
+`;
+
+/**
+ * Render markdown the same way ChatMessage does
+ */
+function renderMarkdown(content: string): string {
+  return renderToStaticMarkup(createElement(ReactMarkdown, null, content));
+}
+
+/**
+ * Render the active branch of each chat as a standalone HTML page
+ */
+export function toHTML(data: ChatExport): string {
+  const chats = withMessages(data);
+  const title = chats.length === 1 ? chats[0].title : 'Chat export';
+
+  const articles = chats.map(chat => {
+    const messages = getActivePath(chat).map(message => `
+      <div class="message ${message.role}">
+        <div class="meta">${ROLE_LABELS[message.role]} · ${escapeHtml(formatTimestamp(message.createdAt))}</div>
+        <div class="content">${renderMarkdown(message.content)}</div>
+      </div>`).join('');
+
+    return `
+    <article>
+      <header>
+        <h1>${escapeHtml(chat.title)}</h1>
+        <p>${escapeHtml(getModelInfo(chat.model).name)} · ${escapeHtml(formatTimestamp(chat.createdAt))}</p>
+      </header>${messages}
+    </article>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(title)}</title>
+  <style>${HTML_STYLES}</style>
+</head>
+<body>${articles}
+</body>
+</html>
+`;
+}
+
+/**
+ * File name for an export, based on the chat or folder name when there is one
+ */
+function getExportFileName(scope: ExportScope, data: ChatExport, format: ExportFormat): string {
+  let name = `chats-${new Date().toISOString().slice(0, 10)}`;
+  if (scope.type === 'chat' && data.chats[0]) {
+    name = data.chats[0].title;
+  } else if (scope.type === 'folder' && data.folders[0]) {
+    name = data.folders[0].name;
+  }
+
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'chat';
+  return `${slug}.${FORMAT_DETAILS[format].extension}`;
+}
+
+/**
+ * Save text as a file through a temporary download link
+ */
+export function downloadFile(fileName: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Export a chat, a folder or everything and download the file.
+ * Returns the number of exported chats.
+ */
+export async function exportChats(scope: ExportScope, format: ExportFormat): Promise<number> {
+  const data = await collectExport(scope);
+
+  const content = format === 'json'
+    ? toJSON(data)
+    : format === 'markdown' ? toMarkdown(data) : toHTML(data);
+
+  downloadFile(getExportFileName(scope, data, format), content, FORMAT_DETAILS[format].mimeType);
+  return data.chats.length;
+}
+
+export const chatExport = {
+  collectExport,
+  exportChats,
+  toJSON,
+  toMarkdown,
+  toHTML
+};
+
+export default chatExport;
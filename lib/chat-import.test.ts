@@ -0,0 +1,138 @@
+import { describe, expect, it, vi } from 'vitest';
+import { chatDB } from './chat-db';
+import { ChatsImportedDetail, detectImportSource, importConversations, parseExport } from './chat-import';
+import { getActivePath } from './message-tree';
+
+// Messages are created in the order the nodes are built
+let clock = 0;
+
+type Node = { id: string; parent: string | null; children: string[]; message?: unknown };
+
+function node(id: string, parent: string | null, children: string[], role?: string, text?: string, extra = {}): Node {
+  return {
+    id,
+    parent,
+    children,
+    message: role
+      ? { id, author: { role }, create_time: 1700000000 + clock++, content: { content_type: 'text', parts: [text ?? id] }, ...extra }
+      : null
+  };
+}
+
+// root ─ system (hidden) ─ q ─ a1 ─ tool ─ a1b
+//                              └ a2 ─ q2
+function chatGPTConversation(updateTime = 1700000100) {
+  return {
+    id: 'conv-1',
+    title: 'Trip planning',
+    create_time: 1700000000,
+    update_time: updateTime,
+    current_node: 'q2',
+    default_model_slug: 'gpt-4o',
+    mapping: {
+      root: node('root', null, ['system']),
+      system: node('system', 'root', ['q'], 'system', 'You are ChatGPT', {
+        metadata: { is_visually_hidden_from_conversation: true }
+      }),
+      q: node('q', 'system', ['a1', 'a2'], 'user', 'Where to go?'),
+      a1: node('a1', 'q', ['tool'], 'assistant', 'Lisbon'),
+      tool: node('tool', 'a1', ['a1b'], 'tool', 'search results'),
+      a1b: node('a1b', 'tool', [], 'assistant', 'Lisbon, in spring'),
+      a2: node('a2', 'q', ['q2'], 'assistant', 'Kyoto', { metadata: { model_slug: 'gpt-4o-mini' } }),
+      q2: node('q2', 'a2', [], 'user', 'When?')
+    }
+  };
+}
+
+describe('detectImportSource', () => {
+  it('recognizes ChatGPT and Claude exports', () => {
+    expect(detectImportSource([chatGPTConversation()])).toBe('chatgpt');
+    expect(detectImportSource([{ uuid: 'c', chat_messages: [] }])).toBe('claude');
+    expect(detectImportSource([])).toBeNull();
+    expect(detectImportSource({ mapping: {} })).toBeNull();
+  });
+});
+
+describe('parseExport', () => {
+  it('converts the ChatGPT mapping tree and leaves out hidden and tool messages', () => {
+    const [chat] = parseExport('chatgpt', [chatGPTConversation()]);
+    const parents = Object.fromEntries(chat.messages.map(msg => [msg.id, msg.parentId]));
+
+    expect(chat.id).toBe('chatgpt-conv-1');
+    expect(chat.title).toBe('Trip planning');
+    expect(parents).toEqual({
+      'chatgpt-q': null,
+      'chatgpt-a1': 'chatgpt-q',
+      'chatgpt-a1b': 'chatgpt-a1',
+      'chatgpt-a2': 'chatgpt-q',
+      'chatgpt-q2': 'chatgpt-a2'
+    });
+    expect(chat.importedFrom).toEqual({ source: 'chatgpt', id: 'conv-1', updatedAt: new Date(1700000100 * 1000) });
+  });
+
+  it('selects the branch that was open in ChatGPT', () => {
+    const [chat] = parseExport('chatgpt', [chatGPTConversation()]);
+
+    expect(getActivePath(chat).map(msg => msg.content)).toEqual(['Where to go?', 'Kyoto', 'When?']);
+  });
+
+  it('skips conversations without messages', () => {
+    const empty = { ...chatGPTConversation(), mapping: { root: node('root', null, []) } };
+    expect(parseExport('chatgpt', [empty])).toEqual([]);
+  });
+
+  it('threads Claude messages without parent IDs in order', () => {
+    const [chat] = parseExport('claude', [{
+      uuid: 'claude-conv',
+      name: 'Recipes',
+      created_at: '2024-01-01T00:00:00Z',
+      chat_messages: [
+        { uuid: 'm1', sender: 'human', text: 'Soup?', created_at: '2024-01-01T00:00:00Z' },
+        { uuid: 'm2', sender: 'assistant', text: '', created_at: '2024-01-01T00:00:01Z' },
+        { uuid: 'm3', sender: 'assistant', content: [{ type: 'text', text: 'Tomato' }], created_at: '2024-01-01T00:00:02Z' }
+      ]
+    }]);
+
+    expect(chat.messages.map(msg => [msg.id, msg.role, msg.content, msg.parentId])).toEqual([
+      ['claude-m1', 'user', 'Soup?', null],
+      ['claude-m3', 'assistant', 'Tomato', 'claude-m1']
+    ]);
+  });
+});
+
+describe('importConversations', () => {
+  it('updates a conversation imported before instead of duplicating it', async () => {
+    const listener = vi.fn();
+    window.addEventListener('chats-imported', listener);
+
+    const first = await importConversations(JSON.stringify([chatGPTConversation()]));
+    expect(first).toEqual({ source: 'chatgpt', imported: 1, updated: 0, skipped: 0 });
+
+    // A local title and pin survive the next import
+    await chatDB.updateChat('chatgpt-conv-1', { title: 'My trip', pinnedMessageIds: ['chatgpt-q'] });
+
+    const unchanged = await importConversations(JSON.stringify([chatGPTConversation()]));
+    expect(unchanged).toEqual({ source: 'chatgpt', imported: 0, updated: 0, skipped: 1 });
+
+    const changed = await importConversations(JSON.stringify([chatGPTConversation(1700000200)]));
+    expect(changed).toEqual({ source: 'chatgpt', imported: 0, updated: 1, skipped: 0 });
+
+    const chats = (await chatDB.getAllChats()).filter(chat => chat.importedFrom?.id === 'conv-1');
+    expect(chats).toHaveLength(1);
+    expect(chats[0].title).toBe('My trip');
+    expect((await chatDB.getChatMessages('chatgpt-conv-1')).find(msg => msg.id === 'chatgpt-q')?.isPinned).toBe(true);
+
+    const folder = (await chatDB.getAllFolders()).find(f => f.id === 'import-chatgpt');
+    expect(folder?.chatIds).toEqual(['chatgpt-conv-1']);
+
+    // Only imports that wrote chats are announced, with the chats they wrote
+    const details = listener.mock.calls.map(([event]) => (event as CustomEvent<ChatsImportedDetail>).detail.chatIds);
+    expect(details).toEqual([['chatgpt-conv-1'], ['chatgpt-conv-1']]);
+    window.removeEventListener('chats-imported', listener);
+  });
+
+  it('rejects files that are not an export', async () => {
+    await expect(importConversations('not json')).rejects.toThrow('not valid JSON');
+    await expect(importConversations('[{"foo":1}]')).rejects.toThrow('Unrecognized file');
+  });
+});
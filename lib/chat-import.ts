@@ -0,0 +1,414 @@
+/**
+ * Chat import
+ * Converts conversation exports from ChatGPT (conversations.json with its
+ * mapping tree) and Claude into chats, keeping titles, timestamps and branches.
+ * Imported chats and messages get IDs derived from the originals, so importing
+ * the same archive again updates conversations instead of duplicating them.
+ */
+
+import { AIModel, AI_MODELS, Chat, Folder, ImportSource, Message } from './types';
+import { chatDB } from './chat-db';
+import { getBranchKey } from './message-tree';
+import { getLiveModelId } from './providers';
+
+/**
+ * Outcome of an import
+ */
+export type ImportResult = {
+  source: ImportSource;
+  /** Conversations that weren't imported before */
+  imported: number;
+  /** Previously imported conversations that changed in the source app */
+  updated: number;
+  /** Previously imported conversations without changes */
+  skipped: number;
+};
+
+/**
+ * Detail of the 'chats-imported' event dispatched on window after an import
+ */
+export type ChatsImportedDetail = ImportResult & {
+  /** Chats that were written, new or updated */
+  chatIds: string[];
+};
+
+export const IMPORT_SOURCE_NAMES: Record<ImportSource, string> = {
+  chatgpt: 'ChatGPT',
+  claude: 'Claude'
+};
+
+// Default model of chats whose export doesn't say which model was used
+const DEFAULT_IMPORT_MODELS: Record<ImportSource, AIModel> = {
+  chatgpt: 'gpt-4o',
+  claude: 'claude-3-sonnet'
+};
+
+// Parent ID Claude uses for the first message of a conversation
+const CLAUDE_ROOT_MESSAGE_ID = '00000000-0000-4000-8000-000000000000';
+
+type ChatGPTMessage = {
+  id: string;
+  author: { role: string };
+  create_time?: number | null;
+  content?: {
+    content_type: string;
+    parts?: unknown[];
+    text?: string;
+  };
+  metadata?: {
+    model_slug?: string;
+    is_visually_hidden_from_conversation?: boolean;
+  };
+};
+
+type ChatGPTNode = {
+  id: string;
+  message?: ChatGPTMessage | null;
+  parent?: string | null;
+  children?: string[];
+};
+
+type ChatGPTConversation = {
+  id?: string;
+  conversation_id?: string;
+  title?: string;
+  create_time: number;
+  update_time?: number;
+  mapping: Record<string, ChatGPTNode>;
+  current_node?: string;
+  default_model_slug?: string;
+};
+
+type ClaudeMessage = {
+  uuid: string;
+  text?: string;
+  content?: { type: string; text?: string }[];
+  sender: 'human' | 'assistant';
+  created_at: string;
+  parent_message_uuid?: string;
+};
+
+type ClaudeConversation = {
+  uuid: string;
+  name?: string;
+  created_at: string;
+  updated_at?: string;
+  chat_messages: ClaudeMessage[];
+};
+
+/**
+ * Recognize the app an export file comes from
+ */
+export function detectImportSource(data: unknown): ImportSource | null {
+  if (!Array.isArray(data) || data.length === 0) return null;
+
+  const [first] = data;
+  if (first && typeof first === 'object') {
+    if ('mapping' in first) return 'chatgpt';
+    if ('chat_messages' in first) return 'claude';
+  }
+  return null;
+}
+
+/**
+ * Map a model name from an export to a known model, or a live model ID
+ */
+function toImportedModel(source: ImportSource, upstreamId: string | undefined): AIModel {
+  if (!upstreamId) return DEFAULT_IMPORT_MODELS[source];
+
+  const known = AI_MODELS.find(model => model.upstreamId === upstreamId || model.id === upstreamId);
+  if (known) return known.id;
+
+  return getLiveModelId(source === 'chatgpt' ? 'openai' : 'anthropic', upstreamId);
+}
+
+function fromUnixTime(seconds: number | null | undefined, fallback: Date): Date {
+  return typeof seconds === 'number' ? new Date(seconds * 1000) : fallback;
+}
+
+/**
+ * Text of a ChatGPT message; images and other attachments become placeholders
+ */
+function getChatGPTText(message: ChatGPTMessage): string {
+  const content = message.content;
+  if (!content) return '';
+
+  if (content.content_type === 'code' && content.text) {
+    return '```\n' + content.text + '\n```';
+  }
+
+  if (Array.isArray(content.parts)) {
+    return content.parts
+      .map(part => typeof part === 'string' ? part : '[Attachment]')
+      .join('\n')
+      .trim();
+  }
+
+  return (content.text || '').trim();
+}
+
+/**
+ * Convert a ChatGPT conversation. Tool calls, hidden system messages and empty
+ * nodes are left out and their children attached to the nearest kept ancestor.
+ */
+function parseChatGPTConversation(conversation: ChatGPTConversation): Chat | null {
+  const nodes = conversation.mapping || {};
+  const originalId = conversation.conversation_id || conversation.id;
+  if (!originalId) return null;
+
+  const createdAt = fromUnixTime(conversation.create_time, new Date());
+  const updatedAt = fromUnixTime(conversation.update_time, createdAt);
+
+  const messageIds = new Map<string, string>();
+  const messages: Message[] = [];
+  let model = conversation.default_model_slug;
+
+  const findKeptAncestor = (nodeId: string | null | undefined): string | null => {
+    const visited = new Set<string>();
+    while (nodeId && !visited.has(nodeId)) {
+      visited.add(nodeId);
+      const messageId = messageIds.get(nodeId);
+      if (messageId) return messageId;
+      nodeId = nodes[nodeId]?.parent;
+    }
+    return null;
+  };
+
+  // Walk the tree from its roots so parents are converted before their children
+  const queue = Object.values(nodes).filter(node => !node.parent || !nodes[node.parent]);
+  const visited = new Set<string>();
+
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    if (visited.has(node.id)) continue;
+    visited.add(node.id);
+
+    const message = node.message;
+    const role = message?.author.role;
+    const content = message ? getChatGPTText(message) : '';
+
+    if (
+      message &&
+      content &&
+      (role === 'user' || role === 'assistant' || role === 'system') &&
+      !message.metadata?.is_visually_hidden_from_conversation
+    ) {
+      const id = `chatgpt-${node.id}`;
+      messages.push({
+        id,
+        role,
+        content,
+        createdAt: fromUnixTime(message.create_time, createdAt),
+        isPinned: false,
+        parentId: findKeptAncestor(node.parent)
+      });
+      messageIds.set(node.id, id);
+
+      if (role === 'assistant' && message.metadata?.model_slug) {
+        model = message.metadata.model_slug;
+      }
+    }
+
+    for (const childId of node.children || []) {
+      if (nodes[childId]) queue.push(nodes[childId]);
+    }
+  }
+
+  if (messages.length === 0) return null;
+
+  // Select the branch that was open in ChatGPT
+  const activeBranches: Record<string, string> = {};
+  let nodeId = conversation.current_node;
+  const onPath = new Set<string>();
+  while (nodeId && nodes[nodeId] && !onPath.has(nodeId)) {
+    onPath.add(nodeId);
+    const messageId = messageIds.get(nodeId);
+    const message = messageId && messages.find(msg => msg.id === messageId);
+    if (message) {
+      activeBranches[getBranchKey(message.parentId)] = message.id;
+    }
+    nodeId = nodes[nodeId].parent || undefined;
+  }
+
+  return {
+    id: `chatgpt-${originalId}`,
+    title: conversation.title || 'Untitled',
+    messages,
+    model: toImportedModel('chatgpt', model),
+    createdAt,
+    updatedAt,
+    favorite: false,
+    activeBranches,
+    importedFrom: { source: 'chatgpt', id: originalId, updatedAt }
+  };
+}
+
+/**
+ * Text of a Claude message, from its content blocks when present
+ */
+function getClaudeText(message: ClaudeMessage): string {
+  const blocks = (message.content || []).filter(block => block.type === 'text' && block.text);
+  if (blocks.length > 0) {
+    return blocks.map(block => block.text).join('\n\n').trim();
+  }
+  return (message.text || '').trim();
+}
+
+/**
+ * Convert a Claude conversation. Older exports have no parent IDs, their
+ * messages form a single thread.
+ */
+function parseClaudeConversation(conversation: ClaudeConversation): Chat | null {
+  if (!conversation.uuid) return null;
+
+  const createdAt = new Date(conversation.created_at);
+  const updatedAt = conversation.updated_at ? new Date(conversation.updated_at) : createdAt;
+  const originalIds = new Set((conversation.chat_messages || []).map(msg => msg.uuid));
+
+  const messages: Message[] = [];
+  let previousId: string | null = null;
+
+  for (const message of conversation.chat_messages || []) {
+    const content = getClaudeText(message);
+    if (!content) continue;
+
+    const parentUuid = message.parent_message_uuid;
+    let parentId: string | null = previousId;
+    if (parentUuid === CLAUDE_ROOT_MESSAGE_ID) {
+      parentId = null;
+    } else if (parentUuid && originalIds.has(parentUuid)) {
+      parentId = `claude-${parentUuid}`;
+    }
+
+    const id = `claude-${message.uuid}`;
+    messages.push({
+      id,
+      role: message.sender === 'human' ? 'user' : 'assistant',
+      content,
+      createdAt: new Date(message.created_at),
+      isPinned: false,
+      parentId
+    });
+    previousId = id;
+  }
+
+  // Parents that were left out (e.g. empty messages) fall back to the root
+  const keptIds = new Set(messages.map(msg => msg.id));
+  for (const message of messages) {
+    if (message.parentId && !keptIds.has(message.parentId)) {
+      message.parentId = null;
+    }
+  }
+
+  if (messages.length === 0) return null;
+
+  return {
+    id: `claude-${conversation.uuid}`,
+    title: conversation.name || 'Untitled',
+    messages,
+    model: DEFAULT_IMPORT_MODELS.claude,
+    createdAt,
+    updatedAt,
+    favorite: false,
+    importedFrom: { source: 'claude', id: conversation.uuid, updatedAt }
+  };
+}
+
+/**
+ * Convert the conversations of an export file
+ */
+export function parseExport(source: ImportSource, data: unknown[]): Chat[] {
+  const chats = source === 'chatgpt'
+    ? (data as ChatGPTConversation[]).map(parseChatGPTConversation)
+    : (data as ClaudeConversation[]).map(parseClaudeConversation);
+
+  return chats.filter((chat): chat is Chat => chat !== null);
+}
+
+/**
+ * Import an export file into IndexedDB.
+ * New conversations go into a folder named after the source app. Conversations
+ * imported before are only rewritten when they changed in the source app, and
+ * keep their local title, folder, favorite and pinned messages.
+ */
+export async function importConversations(
+  text: string,
+  onProgress?: (done: number, total: number) => void
+): Promise<ImportResult> {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const source = detectImportSource(data);
+  if (!source) {
+    throw new Error('Unrecognized file. Select conversations.json from a ChatGPT or Claude export.');
+  }
+
+  const parsed = parseExport(source, data as unknown[]);
+  const [existingChats, existingFolders] = await Promise.all([
+    chatDB.getAllChats(),
+    chatDB.getAllFolders()
+  ]);
+  const existingById = new Map(existingChats.map(chat => [chat.id, chat]));
+
+  const folderId = `import-${source}`;
+  const folder: Folder = existingFolders.find(f => f.id === folderId) || {
+    id: folderId,
+    name: IMPORT_SOURCE_NAMES[source],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    chatIds: []
+  };
+
+  const result: ImportResult = { source, imported: 0, updated: 0, skipped: 0 };
+  const chatsToWrite: Chat[] = [];
+
+  for (const chat of parsed) {
+    const existing = existingById.get(chat.id);
+
+    if (!existing) {
+      chatsToWrite.push({ ...chat, folderId });
+      folder.chatIds = [...(folder.chatIds || []), chat.id];
+      result.imported++;
+      continue;
+    }
+
+    const importedAt = existing.importedFrom ? new Date(existing.importedFrom.updatedAt).getTime() : 0;
+    if (importedAt >= new Date(chat.updatedAt).getTime()) {
+      result.skipped++;
+      continue;
+    }
+
+    // Keep what was changed locally since the last import
+    const pinnedIds = new Set(existing.pinnedMessageIds || []);
+    chatsToWrite.push({
+      ...existing,
+      messages: chat.messages.map(msg => ({ ...msg, isPinned: pinnedIds.has(msg.id) })),
+      activeBranches: chat.activeBranches,
+      importedFrom: chat.importedFrom,
+      updatedAt: chat.updatedAt
+    });
+    result.updated++;
+  }
+
+  await chatDB.importChats(chatsToWrite, result.imported > 0 ? [{ ...folder, updatedAt: new Date() }] : [], onProgress);
+
+  // Let the chat store pick up the new chats
+  if (typeof window !== 'undefined' && chatsToWrite.length > 0) {
+    const detail: ChatsImportedDetail = { ...result, chatIds: chatsToWrite.map(chat => chat.id) };
+    window.dispatchEvent(new CustomEvent('chats-imported', { detail }));
+  }
+
+  return result;
+}
+
+export const chatImport = {
+  detectImportSource,
+  parseExport,
+  importConversations
+};
+
+export default chatImport;
@@ -0,0 +1,211 @@
+/**
+ * Chat request handling shared by the /api/simplechat route and the
+ * browser-direct transport
+ * Validates the chat payload, picks the provider adapter and streams the
+ * provider's answer as the server-sent events parsed by the chat store
+ */
+
+import { getProviderForModel, createCustomProvider, openProviderStream, toEventStream, ChatRequestMessage, RequestModelSettings } from '@/lib/providers';
+import { CustomProviderConfig, isValidBaseUrl, parseCustomModelId } from '@/lib/custom-providers';
+import { parseLocalModelId } from '@/lib/local-models';
+
+/**
+ * Payload sent by the chat store
+ */
+export type ChatRequestBody = {
+  messages: ChatRequestMessage[];
+  apiKey?: string | null;
+  model: string;
+  modelSettings?: Partial<RequestModelSettings>;
+  /** Endpoint details for user-defined providers, added when the API route proxies the request */
+  customProvider?: CustomProviderConfig;
+};
+
+/**
+ * Handle a parsed chat payload and return the streaming response
+ */
+export async function handleChatRequest(body: ChatRequestBody, signal?: AbortSignal): Promise<Response> {
+  const { messages, apiKey, model, modelSettings, customProvider } = body;
+  
+  // Validate required fields with detailed logging
+  console.log('Validating request fields:', {
+    messagesPresent: !!messages,
+    messagesIsArray: Array.isArray(messages),
+    messagesLength: messages ? messages.length : 0,
+    apiKeyPresent: !!apiKey,
+    modelPresent: !!model,
+    modelValue: model
+  });
+  
+  // Extract model settings with defaults from the settings dialog or use defaults if not provided
+  // These settings control the behavior of the AI model
+  const temperature = modelSettings?.temperature ?? 0.7; // Controls randomness: 0 = deterministic, 1 = creative
+  const maxTokens = modelSettings?.maxTokens || 1000; // Controls max length of response
+  const topP = modelSettings?.topP ?? 0.9; // Nucleus sampling (alternative to temperature)
+  const frequencyPenalty = modelSettings?.frequencyPenalty ?? 0; // Penalizes repetition of tokens based on frequency
+  const presencePenalty = modelSettings?.presencePenalty ?? 0; // Penalizes tokens based on presence in text so far
+  const systemPrompt = modelSettings?.systemPrompt || ''; // Custom system prompt if provided
+  const topK = modelSettings?.topK ?? 40; // Only sample from the K most likely tokens (Gemini)
+  const safetySettings = modelSettings?.safetySettings; // Harm category block levels (Gemini)
+  
+  // Handle the case of empty messages array by adding a default message
+  // This fixes the issue with the first message in a chat
+  let processedMessages = messages;
+  if (Array.isArray(messages) && messages.length === 0) {
+    console.log('Empty messages array detected, adding default system message');
+    // Use the custom system prompt if available, otherwise use a default one
+    const systemMessage: ChatRequestMessage = {
+      role: 'system',
+      content: systemPrompt || 'You are a helpful assistant. The user is starting a new conversation.'
+    };
+    processedMessages = [systemMessage];
+    console.log('Using system prompt for first message:', systemMessage.content.substring(0, 50) + (systemMessage.content.length > 50 ? '...' : ''));
+  } else if (!messages || !Array.isArray(messages)) {
+    console.error('Messages validation failed:', { 
+      messagesPresent: !!messages,
+      isArray: Array.isArray(messages)
+    });
+    return Response.json({ error: 'Messages are required' }, { status: 400 });
+  }
+  
+  // Validate message structure
+  const validMessageRoles = ['system', 'user', 'assistant'];
+  const invalidMessages = processedMessages.filter((msg: { role?: string; content?: string }) => 
+    !msg.role || 
+    !validMessageRoles.includes(msg.role) || 
+    typeof msg.content !== 'string'
+  );
+  
+  if (invalidMessages.length > 0) {
+    console.error('Invalid message structure found:', invalidMessages);
+    return Response.json({ 
+      error: 'Invalid message structure. Each message must have a valid role (system, user, or assistant) and content must be a string.' 
+    }, { status: 400 });
+  }
+  
+  if (!model) {
+    return Response.json({ error: 'Model is required' }, { status: 400 });
+  }
+  
+  // Custom endpoints are described by the client when the server can't read its storage
+  if (customProvider) {
+    if (parseCustomModelId(model)?.providerId !== customProvider.id || !isValidBaseUrl(customProvider.baseUrl)) {
+      return Response.json({ error: 'Invalid custom provider configuration' }, { status: 400 });
+    }
+  }
+  
+  // Look up the adapter for the provider that serves this model.
+  // The local server is read from the browser's storage, see isBrowserOnlyModel.
+  const provider = customProvider ? createCustomProvider(customProvider) : getProviderForModel(model);
+  const upstreamModel = provider.resolveModel(model);
+  
+  if (!apiKey && provider.requiresApiKey) {
+    return Response.json({ error: 'API key is required' }, { status: 400 });
+  }
+  
+  console.log('Received request to simplechat API:', {
+    modelRequested: model,
+    provider: provider.id,
+    messagesCount: processedMessages.length
+  });
+  
+  // Log detailed model settings information
+  console.log('Received model settings:', modelSettings ? 'yes' : 'no');
+  if (modelSettings) {
+    console.log('Model settings details:', {
+      temperature: modelSettings.temperature,
+      maxTokens: modelSettings.maxTokens,
+      topP: modelSettings.topP,
+      topK: modelSettings.topK,
+      frequencyPenalty: modelSettings.frequencyPenalty,
+      presencePenalty: modelSettings.presencePenalty,
+      systemPrompt: modelSettings.systemPrompt ? 'custom' : 'none',
+    });
+  }
+  
+  // Log API request parameters
+  console.log(`Calling ${provider.name} with model:`, upstreamModel);
+  console.log('API request parameters:', {
+    provider: provider.id,
+    model: upstreamModel,
+    messagesCount: processedMessages.length,
+    temperature,
+    max_tokens: maxTokens,
+    top_p: topP,
+    top_k: topK,
+    frequency_penalty: frequencyPenalty,
+    presence_penalty: presencePenalty,
+    system_prompt: systemPrompt ? 'Custom system prompt provided' : 'No custom system prompt',
+    stream: true
+  });
+  
+  const settings: RequestModelSettings = {
+    temperature,
+    maxTokens,
+    topP,
+    topK,
+    frequencyPenalty,
+    presencePenalty,
+    systemPrompt,
+    safetySettings
+  };
+  
+  try {
+    // Create a streaming response with all the model parameters
+    const result = await openProviderStream(provider, {
+      apiKey: apiKey || '',
+      model,
+      messages: processedMessages,
+      settings
+    }, signal);
+    
+    if (!result.ok) {
+      return Response.json({ error: result.error.message }, { status: result.error.status });
+    }
+    
+    console.log(`${provider.name} stream created successfully`);
+    
+    // Return the stream
+    return new Response(toEventStream(result.chunks), {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+      },
+    });
+    
+  } catch (error: any) {
+    if (error.name === 'AbortError') throw error;
+
+    console.error(`Error calling ${provider.name} API:`, error);
+    
+    // In direct mode a network error usually means the endpoint doesn't allow CORS
+    const corsHint = typeof window !== 'undefined' && error instanceof TypeError
+      ? ` (${provider.name} may not accept requests sent from the browser)`
+      : '';
+    return Response.json({ 
+      error: `Error calling ${provider.name} API: ${error.message || 'Unknown error'}${corsHint}` 
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Whether a model is served by the Ollama/LM Studio server, which runs on the
+ * user's machine and is only reachable from the browser
+ */
+export function isBrowserOnlyModel(model: string): boolean {
+  return parseLocalModelId(model) !== null;
+}
+
+/**
+ * Hosts of custom endpoints the API route proxies requests to, from the
+ * comma-separated CUSTOM_ENDPOINT_PROXY_HOSTS environment variable. None by
+ * default: proxying any URL would let callers make the server fetch hosts on its
+ * private network, so requests to other endpoints are sent from the browser.
+ */
+export function getCustomEndpointProxyHosts(): string[] {
+  return (process.env.CUSTOM_ENDPOINT_PROXY_HOSTS || '')
+    .split(',')
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean);
+}
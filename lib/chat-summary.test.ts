@@ -0,0 +1,129 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ChatStreamChunk, streamChatRequest } from './chat-transport';
+import { getRollingSummary, getSummaryFingerprint, isSummaryValid, SummarizableMessage } from './chat-summary';
+import { ChatSummary } from './types';
+import { recordUsage } from './usage';
+
+vi.mock('./chat-transport', () => ({ streamChatRequest: vi.fn() }));
+vi.mock('./usage', () => ({ recordUsage: vi.fn(() => Promise.resolve()) }));
+
+const conversation: SummarizableMessage[] = [
+  { id: 'u1', role: 'user', content: 'My name is Ada' },
+  { id: 'a1', role: 'assistant', content: 'Hi Ada' },
+  { id: 'u2', role: 'user', content: 'I live in London' },
+  { id: 'a2', role: 'assistant', content: 'Nice city' },
+  { id: 'u3', role: 'user', content: 'What is my name?' }
+];
+
+const options = {
+  model: 'gpt-4o' as const,
+  apiKeys: [{ id: 'key', label: 'Default', key: 'sk-test' }],
+  usage: { chatId: 'chat' }
+};
+
+// A summary of the first two messages
+const cached: ChatSummary = {
+  content: 'The user is Ada.',
+  lastMessageId: 'a1',
+  messageCount: 2,
+  fingerprint: getSummaryFingerprint(conversation.slice(0, 2)),
+  model: 'gpt-4o',
+  createdAt: new Date()
+};
+
+function respondWith(...chunks: ChatStreamChunk[]) {
+  vi.mocked(streamChatRequest).mockImplementation(async function* () {
+    yield* chunks;
+  });
+}
+
+// Text of the user message of the nth summarization request
+function promptOf(call = 0): string {
+  return vi.mocked(streamChatRequest).mock.calls[call][0].messages[1].content;
+}
+
+describe('getSummaryFingerprint', () => {
+  it('changes when a message is edited, added or replaced', () => {
+    const fingerprint = getSummaryFingerprint(conversation);
+
+    expect(getSummaryFingerprint(conversation.map(msg => ({ ...msg })))).toBe(fingerprint);
+    expect(getSummaryFingerprint([...conversation.slice(0, 4), { ...conversation[4], content: 'Who am I?' }])).not.toBe(fingerprint);
+    expect(getSummaryFingerprint(conversation.slice(0, 4))).not.toBe(fingerprint);
+    expect(getSummaryFingerprint([...conversation.slice(0, 4), { ...conversation[4], id: 'u3b' }])).not.toBe(fingerprint);
+  });
+});
+
+describe('isSummaryValid', () => {
+  it('accepts a summary of an unchanged prefix of the conversation', () => {
+    expect(isSummaryValid(cached, conversation)).toBe(true);
+  });
+
+  it('rejects a summary whose messages were edited or are on another branch', () => {
+    expect(isSummaryValid(cached, [{ ...conversation[0], content: 'My name is Bob' }, ...conversation.slice(1)])).toBe(false);
+    expect(isSummaryValid(cached, conversation.filter(msg => msg.id !== 'a1'))).toBe(false);
+  });
+});
+
+describe('getRollingSummary', () => {
+  beforeEach(() => {
+    vi.mocked(streamChatRequest).mockReset();
+    vi.mocked(recordUsage).mockClear();
+  });
+
+  it('reuses a cached summary that covers the dropped messages', async () => {
+    const summary = await getRollingSummary(cached, conversation, conversation.slice(0, 2), options);
+
+    expect(summary).toBe(cached);
+    expect(streamChatRequest).not.toHaveBeenCalled();
+  });
+
+  it('extends a cached summary with the newly dropped messages only', async () => {
+    respondWith({ type: 'text', value: 'The user is Ada ' }, { type: 'text', value: 'from London.' });
+
+    const dropped = conversation.slice(0, 4);
+    const summary = await getRollingSummary(cached, conversation, dropped, options);
+
+    expect(promptOf()).toBe('Previous summary:\nThe user is Ada.\n\nNew messages:\nUser: I live in London\n\nAssistant: Nice city');
+    expect(summary).toMatchObject({
+      content: 'The user is Ada from London.',
+      lastMessageId: 'a2',
+      messageCount: 4,
+      fingerprint: getSummaryFingerprint(dropped)
+    });
+  });
+
+  it('summarizes from scratch when a summarized message was edited', async () => {
+    respondWith({ type: 'text', value: 'The user is Bob.' });
+    const edited = [{ ...conversation[0], content: 'My name is Bob' }, ...conversation.slice(1)];
+
+    await getRollingSummary(cached, edited, edited.slice(0, 4), options);
+
+    expect(promptOf()).toMatch(/^Conversation:\nUser: My name is Bob\n\nAssistant: Hi Ada\n\nUser: I live in London/);
+  });
+
+  it('keeps only the text of the last key tried and records the usage it reports', async () => {
+    respondWith(
+      { type: 'text', value: 'Partial' },
+      { type: 'restart', value: { keyLabel: 'Backup' } },
+      { type: 'text', value: 'The user is Ada.' },
+      { type: 'usage', value: { promptTokens: 120, completionTokens: 8 } }
+    );
+
+    const summary = await getRollingSummary(undefined, conversation, conversation.slice(0, 2), options);
+
+    expect(summary.content).toBe('The user is Ada.');
+    expect(recordUsage).toHaveBeenCalledWith(expect.objectContaining({
+      chatId: 'chat',
+      model: 'gpt-4o',
+      promptTokens: 120,
+      completionTokens: 8,
+      estimated: false
+    }));
+  });
+
+  it('fails when the provider reports an error', async () => {
+    respondWith({ type: 'error', value: 'Rate limited' });
+
+    await expect(getRollingSummary(undefined, conversation, conversation.slice(0, 2), options)).rejects.toThrow('Rate limited');
+  });
+});
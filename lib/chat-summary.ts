@@ -0,0 +1,279 @@
+/**
+ * Rolling conversation summaries
+ * Condenses the messages that no longer fit the context window into a summary
+ * that is cached on the chat and extended as the conversation grows
+ */
+
+import { AIModel, Chat, ChatSummary, LabeledApiKey, UsageRecord } from './types';
+import { ChatRequestMessage, TokenUsage, getProviderForModel } from './providers';
+import { ChatRequestBody } from './chat-request';
+import { ChatStreamChunk, streamChatRequest } from './chat-transport';
+import { estimateMessageTokens, estimateRequestTokens, estimateTokens } from './context-builder';
+import { estimateCost, getModelInfo } from './model-registry';
+import { getActivePath } from './message-tree';
+import { recordUsage } from './usage';
+import { generateId } from './utils/chat-storage';
+
+/**
+ * Upper bound for the length of a summary, also reserved in the context window
+ */
+export const SUMMARY_MAX_TOKENS = 1024;
+
+const SUMMARY_PROMPT = `You summarize conversations between a user and an AI assistant.
+Write a concise summary of the conversation below so the assistant can continue it without the original messages.
+Keep facts, names, numbers, decisions, open questions and any instructions the user gave. Leave out pleasantries.
+If a previous summary is given, merge it with the new messages into a single summary.
+Reply with the summary only.`;
+
+/**
+ * A conversation message that can be folded into a summary
+ */
+export type SummarizableMessage = ChatRequestMessage & { id: string };
+
+/**
+ * Request details shared with the chat request (API keys to fail over between)
+ */
+export type SummaryRequestOptions = Omit<ChatRequestBody, 'messages' | 'model' | 'modelSettings'> & {
+  model: AIModel;
+  apiKeys: LabeledApiKey[];
+  signal?: AbortSignal;
+  /** Chat, folder and profile the summary requests are counted for in the usage dashboard */
+  usage: Pick<UsageRecord, 'chatId' | 'folderId' | 'profileId'>;
+};
+
+/**
+ * Fingerprint of a list of messages (djb2 over IDs and contents)
+ */
+export function getSummaryFingerprint(messages: SummarizableMessage[]): string {
+  let hash = 5381;
+  for (const message of messages) {
+    const text = `${message.id}\u0000${message.content}\u0000`;
+    for (let i = 0; i < text.length; i++) {
+      hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+    }
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * Check that the summarized messages still exist unchanged in the conversation
+ */
+export function isSummaryValid(summary: ChatSummary, conversation: SummarizableMessage[]): boolean {
+  const lastIndex = conversation.findIndex(msg => msg.id === summary.lastMessageId);
+  if (lastIndex < 0) return false;
+
+  return getSummaryFingerprint(conversation.slice(0, lastIndex + 1)) === summary.fingerprint;
+}
+
+/**
+ * Whether a message is at or before the summary boundary on the active branch of a chat
+ */
+export function isMessageSummarized(chat: Chat, messageId: string): boolean {
+  if (!chat.summary) return false;
+
+  const path = getActivePath(chat);
+  const boundaryIndex = path.findIndex(msg => msg.id === chat.summary!.lastMessageId);
+  const messageIndex = path.findIndex(msg => msg.id === messageId);
+  return boundaryIndex >= 0 && messageIndex >= 0 && messageIndex <= boundaryIndex;
+}
+
+/**
+ * The summary as the message prepended to the recent turns
+ */
+export function toSummaryMessage(summary: ChatSummary): ChatRequestMessage {
+  return {
+    role: 'system',
+    content: `Summary of the earlier part of this conversation:\n\n${summary.content}`
+  };
+}
+
+/**
+ * Collect the text of a streaming chat response, passing on the reported token usage
+ */
+async function readResponseText(chunks: AsyncGenerator<ChatStreamChunk>, onUsage: (usage: TokenUsage) => void): Promise<string> {
+  let text = '';
+
+  for await (const chunk of chunks) {
+    if (chunk.type === 'restart') {
+      // Failed over to the next key
+      text = '';
+      onUsage({});
+    } else if (chunk.type === 'text') {
+      text += chunk.value;
+    } else if (chunk.type === 'usage') {
+      onUsage(chunk.value);
+    } else if (chunk.type === 'error') {
+      throw new Error(chunk.value);
+    }
+  }
+
+  return text.trim();
+}
+
+/**
+ * Format messages as a transcript for the summarization prompt
+ */
+function toTranscript(messages: SummarizableMessage[]): string {
+  return messages
+    .map(msg => `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`)
+    .join('\n\n');
+}
+
+/**
+ * Ask the model to merge a previous summary with new messages
+ */
+async function requestSummary(
+  previousSummary: string | null,
+  messages: SummarizableMessage[],
+  { model, apiKeys, signal, usage: attribution, ...request }: SummaryRequestOptions
+): Promise<string> {
+  const transcript = toTranscript(messages);
+  const content = previousSummary
+    ? `Previous summary:\n${previousSummary}\n\nNew messages:\n${transcript}`
+    : `Conversation:\n${transcript}`;
+  const summaryMessages: ChatRequestMessage[] = [
+    { role: 'system', content: SUMMARY_PROMPT },
+    { role: 'user', content }
+  ];
+
+  const chunks = streamChatRequest({
+    ...request,
+    model,
+    messages: summaryMessages,
+    modelSettings: {
+      temperature: 0.2,
+      maxTokens: SUMMARY_MAX_TOKENS,
+      systemPrompt: ''
+    }
+  }, apiKeys, signal);
+
+  let usage: TokenUsage = {};
+  let text = '';
+  try {
+    text = await readResponseText(chunks, reported => { usage = reported; });
+    return text;
+  } finally {
+    // Counted like a reply: failed requests only when the provider reported usage
+    if (usage.promptTokens !== undefined || usage.completionTokens !== undefined || text) {
+      const promptTokens = usage.promptTokens ?? estimateRequestTokens(summaryMessages, model);
+      const completionTokens = usage.completionTokens ?? estimateTokens(text, model);
+
+      recordUsage({
+        id: generateId(),
+        ...attribution,
+        model,
+        provider: getProviderForModel(model).id,
+        promptTokens,
+        completionTokens,
+        estimated: usage.promptTokens === undefined || usage.completionTokens === undefined,
+        cost: estimateCost(model, promptTokens, completionTokens),
+        createdAt: new Date()
+      }).catch(error => console.error('Error recording summary usage:', error));
+    }
+  }
+}
+
+/**
+ * Split messages into batches that fit the model's context window together
+ * with the previous summary and the summary being written
+ */
+function toSummaryBatches(messages: SummarizableMessage[], model: AIModel): SummarizableMessage[][] {
+  const budget = getModelInfo(model).contextWindow
+    - 2 * SUMMARY_MAX_TOKENS
+    - estimateTokens(SUMMARY_PROMPT, model);
+
+  const batches: SummarizableMessage[][] = [];
+  let batch: SummarizableMessage[] = [];
+  let batchTokens = 0;
+
+  for (const message of messages) {
+    const messageTokens = estimateMessageTokens(message, model);
+    if (batch.length > 0 && batchTokens + messageTokens > budget) {
+      batches.push(batch);
+      batch = [];
+      batchTokens = 0;
+    }
+    batch.push(message);
+    batchTokens += messageTokens;
+  }
+  if (batch.length > 0) batches.push(batch);
+
+  return batches;
+}
+
+/**
+ * The part of a cached summary that can be reused and the dropped messages it
+ * doesn't cover yet. Nothing is pending when the cached summary is up to date.
+ */
+function getPendingMessages(
+  cached: ChatSummary | undefined,
+  conversation: SummarizableMessage[],
+  dropped: SummarizableMessage[]
+): { previousSummary: string | null; pending: SummarizableMessage[] } {
+  if (cached && isSummaryValid(cached, conversation)) {
+    const coveredIndex = dropped.findIndex(msg => msg.id === cached.lastMessageId);
+    if (coveredIndex >= 0) {
+      return { previousSummary: cached.content, pending: dropped.slice(coveredIndex + 1) };
+    }
+  }
+  return { previousSummary: null, pending: dropped };
+}
+
+/**
+ * Estimated tokens of the summarization requests getRollingSummary would send,
+ * so budget checks can account for them before they're sent
+ */
+export function estimateSummaryTokens(
+  cached: ChatSummary | undefined,
+  conversation: SummarizableMessage[],
+  dropped: SummarizableMessage[],
+  model: AIModel
+): { promptTokens: number; maxTokens: number } {
+  const { previousSummary, pending } = getPendingMessages(cached, conversation, dropped);
+  let promptTokens = 0;
+  let maxTokens = 0;
+
+  toSummaryBatches(pending, model).forEach((batch, index) => {
+    // Later batches extend the summary written for the previous one
+    const summaryTokens = index > 0
+      ? SUMMARY_MAX_TOKENS
+      : previousSummary ? estimateTokens(previousSummary, model) : 0;
+
+    promptTokens += estimateTokens(SUMMARY_PROMPT, model) + summaryTokens
+      + batch.reduce((total, message) => total + estimateMessageTokens(message, model), 0);
+    maxTokens += SUMMARY_MAX_TOKENS;
+  });
+
+  return { promptTokens, maxTokens };
+}
+
+/**
+ * Get a summary covering exactly the dropped messages.
+ * A cached summary of an unchanged prefix of them is extended with the newly
+ * dropped messages, otherwise the summary is written from scratch.
+ */
+export async function getRollingSummary(
+  cached: ChatSummary | undefined,
+  conversation: SummarizableMessage[],
+  dropped: SummarizableMessage[],
+  options: SummaryRequestOptions
+): Promise<ChatSummary> {
+  const lastDropped = dropped[dropped.length - 1];
+  const { previousSummary: reusedSummary, pending } = getPendingMessages(cached, conversation, dropped);
+  if (cached && pending.length === 0) return cached;
+
+  let previousSummary = reusedSummary;
+
+  for (const batch of toSummaryBatches(pending, options.model)) {
+    previousSummary = await requestSummary(previousSummary, batch, options);
+  }
+
+  return {
+    content: previousSummary || '',
+    lastMessageId: lastDropped.id,
+    messageCount: dropped.length,
+    fingerprint: getSummaryFingerprint(dropped),
+    model: options.model,
+    createdAt: new Date()
+  };
+}
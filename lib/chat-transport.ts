@@ -0,0 +1,192 @@
+/**
+ * Chat transport
+ * Sends chat requests through the /api/simplechat route when the app is
+ * served by Next.js, or straight to the provider APIs from the browser when
+ * it runs as a static export without API routes
+ */
+
+import { ChatRequestBody, handleChatRequest, isBrowserOnlyModel } from './chat-request';
+import { customProviderStorage, isAllowedProxyHost, parseCustomModelId } from './custom-providers';
+import { StreamChunk, readChatStream } from './providers';
+import { LabeledApiKey } from './types';
+
+export type TransportMode = 'server' | 'direct';
+
+const SIMPLECHAT_API_URL = '/api/simplechat';
+
+// How long to wait for the API route before falling back to direct mode
+const PING_TIMEOUT_MS = 3000;
+
+/**
+ * What the page found out about the API route
+ */
+type ServerInfo = {
+  mode: TransportMode;
+  /** Hosts of custom endpoints the route proxies to */
+  customEndpointHosts: string[];
+};
+
+// The detected mode is cached for the lifetime of the page
+let serverInfoPromise: Promise<ServerInfo> | null = null;
+
+/**
+ * Check whether the /api/simplechat route is reachable
+ */
+async function pingServer(): Promise<ServerInfo> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), PING_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(SIMPLECHAT_API_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ ping: true }),
+      signal: controller.signal,
+    });
+
+    // Static hosts answer with an HTML 404/405 page instead of the route's JSON
+    const body = response.ok ? await response.json().catch(() => null) : null;
+    return body?.ok
+      ? { mode: 'server', customEndpointHosts: Array.isArray(body.customEndpointHosts) ? body.customEndpointHosts : [] }
+      : { mode: 'direct', customEndpointHosts: [] };
+  } catch (error) {
+    console.warn('Chat API route not reachable, using direct mode:', error);
+    return { mode: 'direct', customEndpointHosts: [] };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+function getServerInfo(): Promise<ServerInfo> {
+  if (!serverInfoPromise) {
+    serverInfoPromise = pingServer().then(info => {
+      console.log('Chat transport mode:', info.mode);
+      return info;
+    });
+  }
+  return serverInfoPromise;
+}
+
+/**
+ * Detect whether chat requests go through the server or straight to the providers
+ */
+export async function getTransportMode(): Promise<TransportMode> {
+  return (await getServerInfo()).mode;
+}
+
+/**
+ * Send a chat request and return the streaming response.
+ * Both modes answer with the same server-sent events and JSON error bodies.
+ * Local models, and custom endpoints the server doesn't proxy to, are always
+ * requested directly.
+ */
+export async function sendChatRequest(payload: ChatRequestBody, signal?: AbortSignal): Promise<Response> {
+  const { mode, customEndpointHosts } = await getServerInfo();
+  const customProvider = customProviderStorage.getConfigForModel(payload.model);
+  const viaServer = mode === 'server'
+    && !isBrowserOnlyModel(payload.model)
+    && (!parseCustomModelId(payload.model) || (!!customProvider && isAllowedProxyHost(customProvider.baseUrl, customEndpointHosts)));
+
+  if (viaServer) {
+    // The server can't read the endpoint details from the browser's storage
+    return fetch(SIMPLECHAT_API_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(customProvider ? { ...payload, customProvider } : payload),
+      signal,
+    });
+  }
+
+  try {
+    return await handleChatRequest(payload, signal);
+  } catch (error: any) {
+    // Let the caller handle cancellation like an aborted fetch
+    if (error.name === 'AbortError') throw error;
+
+    console.error('Error in direct chat request:', error);
+    return Response.json({
+      error: `An error occurred processing your request: ${error.message || 'Unknown error'}`
+    }, { status: 500 });
+  }
+}
+
+/**
+ * A chunk of a streamed chat response. `restart` means a key failed and the
+ * request is sent again with the next one: what was streamed so far is void.
+ */
+export type ChatStreamChunk = StreamChunk | { type: 'restart'; value: { keyLabel: string } };
+
+/**
+ * Send a chat request with each of a provider's keys in turn and stream the
+ * response. A key is given up on when the provider rejects or rate limits it,
+ * the stream breaks or it reports an error, as long as another key is left.
+ * With the last key, a rejected request throws with the provider's message
+ * and stream errors are passed on.
+ */
+export async function* streamChatRequest(
+  payload: ChatRequestBody,
+  apiKeys: LabeledApiKey[],
+  signal?: AbortSignal
+): AsyncGenerator<ChatStreamChunk> {
+  // Self-hosted endpoints may have no key, the payload is sent as it is
+  const keys: (LabeledApiKey | null)[] = apiKeys.length > 0 ? apiKeys : [null];
+
+  for (let index = 0; index < keys.length; index++) {
+    const apiKey = keys[index];
+    const nextKey = keys[index + 1];
+
+    if (index > 0 && apiKey) {
+      yield { type: 'restart', value: { keyLabel: apiKey.label } };
+    }
+
+    const response = await sendChatRequest(apiKey ? { ...payload, apiKey: apiKey.key } : payload, signal);
+
+    if (nextKey && (response.status === 401 || response.status === 429)) {
+      console.log(`API key "${apiKey?.label}" returned ${response.status}, retrying with "${nextKey.label}"`);
+      await response.body?.cancel();
+      continue;
+    }
+
+    if (!response.ok) {
+      const errorBody = await response.json().catch(() => null);
+      console.error('API error details:', errorBody);
+      throw new Error(errorBody?.error || `HTTP error! status: ${response.status}`);
+    }
+
+    if (!response.body) {
+      throw new Error('No response body from API');
+    }
+
+    let failed = false;
+    try {
+      for await (const chunk of readChatStream(response.body)) {
+        if (chunk.type === 'error' && nextKey) {
+          console.log(`API key "${apiKey?.label}" failed while streaming (${chunk.value}), retrying with "${nextKey.label}"`);
+          failed = true;
+          break;
+        }
+        yield chunk;
+      }
+    } catch (error: any) {
+      if (error.name === 'AbortError' || !nextKey) throw error;
+
+      console.error(`Stream with API key "${apiKey?.label}" broke, retrying with "${nextKey.label}":`, error);
+      failed = true;
+    }
+
+    if (!failed) return;
+    await response.body.cancel().catch(() => undefined);
+  }
+}
+
+const chatTransport = {
+  getTransportMode,
+  sendChatRequest,
+  streamChatRequest
+};
+
+export default chatTransport;
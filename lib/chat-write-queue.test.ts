@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { chatDB, DBMessage } from './chat-db';
+import { recoverJournal } from './chat-write-queue';
+import { storage } from './storage';
+import { Chat } from './types';
+
+const JOURNAL_KEY = 'messageWriteJournal';
+
+function chat(id: string): Chat {
+  const now = new Date();
+  return { id, title: id, messages: [], model: 'gpt-4o', createdAt: now, updatedAt: now };
+}
+
+function message(id: string, chatId: string, content: string): DBMessage {
+  return { id, chatId, content, role: 'assistant', createdAt: new Date(), parentId: null };
+}
+
+describe('recoverJournal', () => {
+  it('does nothing without a journal', async () => {
+    expect(await recoverJournal()).toBe(0);
+  });
+
+  it('writes the journaled messages and clears the journal', async () => {
+    await chatDB.saveChat(chat('recovered'));
+    await chatDB.saveMessages([message('m1', 'recovered', 'Partial')]);
+    storage.set(JOURNAL_KEY, [message('m1', 'recovered', 'Partial reply, complete'), message('m2', 'recovered', 'Next')]);
+
+    expect(await recoverJournal()).toBe(2);
+
+    const messages = await chatDB.getChatMessages('recovered');
+    expect(messages.map(msg => msg.content)).toEqual(['Partial reply, complete', 'Next']);
+    expect(messages[0].createdAt).toBeInstanceOf(Date);
+    expect(storage.get(JOURNAL_KEY, null)).toBeNull();
+  });
+
+  it('skips messages of chats that were deleted since', async () => {
+    await chatDB.saveChat(chat('kept'));
+    storage.set(JOURNAL_KEY, [message('m3', 'kept', 'Kept'), message('m4', 'deleted', 'Dropped')]);
+
+    expect(await recoverJournal()).toBe(1);
+    expect(await chatDB.getChatMessages('deleted')).toEqual([]);
+    expect((await chatDB.getChatMessages('kept')).map(msg => msg.id)).toEqual(['m3']);
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Chat write queue
+ * Message writes are queued and written to IndexedDB in batches: repeated
+ * writes of the same message (e.g. each streamed token) are coalesced into the
+ * latest version, and each batch is a single transaction. When the page is
+ * hidden or closed the queue is flushed and also copied to a localStorage
+ * journal, which is replayed on the next start in case the flush didn't commit.
+ */
+
+import { chatDB, DBMessage } from './chat-db';
+import { storage } from './storage';
+
+// How long writes are collected before a batch is written
+const FLUSH_DELAY = 500;
+const JOURNAL_KEY = 'messageWriteJournal';
+
+// Latest unwritten version of each message, by ID
+const pendingMessages = new Map<string, DBMessage>();
+// Batch being written
+let inFlightMessages: DBMessage[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let currentFlush: Promise<void> | null = null;
+
+/**
+ * Queue a message to be written. Writes of the same message that are still
+ * queued are replaced by this one.
+ */
+export function queueMessage(message: DBMessage): void {
+  pendingMessages.set(message.id, { ...message });
+
+  // Flush a steady stream of writes every FLUSH_DELAY instead of postponing it
+  if (!flushTimer) {
+    flushTimer = setTimeout(() => {
+      flushTimer = null;
+      flush().catch(error => console.error('Error flushing message writes:', error));
+    }, FLUSH_DELAY);
+  }
+}
+
+/**
+ * Whether writes of a chat's messages (or of any chat) haven't been committed yet
+ */
+export function hasPendingWrites(chatId?: string): boolean {
+  const unwritten = [...Array.from(pendingMessages.values()), ...inFlightMessages];
+  return chatId ? unwritten.some(msg => msg.chatId === chatId) : unwritten.length > 0;
+}
+
+/**
+ * Drop the queued writes of a chat whose messages are being deleted, and
+ * wait for the batch being written so it doesn't bring them back
+ */
+export async function discardPendingWrites(chatId: string): Promise<void> {
+  pendingMessages.forEach((message, id) => {
+    if (message.chatId === chatId) pendingMessages.delete(id);
+  });
+
+  while (currentFlush) {
+    await currentFlush.catch(() => undefined);
+  }
+}
+
+/**
+ * Write all queued messages in one transaction. Resolves once everything
+ * queued before the call is committed.
+ */
+export async function flush(): Promise<void> {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+
+  // Batches are committed in order, so an older version never overwrites a newer one
+  while (currentFlush) {
+    await currentFlush.catch(() => undefined);
+  }
+  if (pendingMessages.size === 0) return;
+
+  inFlightMessages = Array.from(pendingMessages.values());
+  pendingMessages.clear();
+
+  currentFlush = (async () => {
+    try {
+      await chatDB.saveMessages(inFlightMessages);
+
+      // Everything journaled is in IndexedDB now
+      if (pendingMessages.size === 0) {
+        storage.remove(JOURNAL_KEY);
+      }
+    } catch (error) {
+      // Queue the batch again unless a newer version was queued meanwhile
+      for (const message of inFlightMessages) {
+        if (!pendingMessages.has(message.id)) {
+          pendingMessages.set(message.id, message);
+        }
+      }
+      throw error;
+    } finally {
+      inFlightMessages = [];
+      currentFlush = null;
+    }
+  })();
+
+  await currentFlush;
+}
+
+/**
+ * Copy the unwritten messages to the journal. localStorage writes are
+ * synchronous, so unlike the IndexedDB flush they complete while the page unloads.
+ */
+function writeJournal(): void {
+  if (!hasPendingWrites()) return;
+
+  const byId = new Map(inFlightMessages.map(msg => [msg.id, msg]));
+  pendingMessages.forEach((message, id) => byId.set(id, message));
+
+  try {
+    storage.set(JOURNAL_KEY, Array.from(byId.values()));
+  } catch (error) {
+    console.error('Error writing message journal:', error);
+  }
+}
+
+/**
+ * Save the queue before the page is hidden or closed
+ */
+export function flushBeforeUnload(): void {
+  writeJournal();
+  flush().catch(error => console.error('Error flushing message writes:', error));
+}
+
+/**
+ * Write messages left in the journal by a page that closed before its
+ * queue was flushed
+ */
+export async function recoverJournal(): Promise<number> {
+  const journal = storage.get<DBMessage[]>(JOURNAL_KEY, []);
+  if (!Array.isArray(journal) || journal.length === 0) return 0;
+
+  // Skip messages of chats that were deleted since
+  const chatIds = new Set((await chatDB.getAllChats()).map(chat => chat.id));
+  const messages = journal.filter(msg => chatIds.has(msg.chatId));
+
+  await chatDB.saveMessages(messages);
+  storage.remove(JOURNAL_KEY);
+
+  return messages.length;
+}
+
+export const chatWriteQueue = {
+  queueMessage,
+  hasPendingWrites,
+  discardPendingWrites,
+  flush,
+  flushBeforeUnload,
+  recoverJournal
+};
+
+export default chatWriteQueue;
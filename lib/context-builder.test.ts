@@ -0,0 +1,81 @@
+import { describe, expect, it, vi } from 'vitest';
+import { buildContext, estimateTokens } from './context-builder';
+import { ChatRequestMessage } from './providers';
+
+// A small OpenAI model: 4 characters per token, 4 tokens per message and 3 per request
+vi.mock('./model-registry', () => ({
+  getModelInfo: () => ({ category: 'openai', contextWindow: 100, maxOutputTokens: 50 })
+}));
+
+const MODEL = 'gpt-4o';
+
+// 40 characters, 14 tokens with the message overhead
+function message(role: ChatRequestMessage['role'], label: string): ChatRequestMessage {
+  return { role, content: label.padEnd(40, '.') };
+}
+
+const settings = { contextLimit: 'all' as const, maxTokens: 20, systemPrompt: '' };
+
+describe('estimateTokens', () => {
+  it('counts Latin text by characters per token', () => {
+    expect(estimateTokens('', MODEL)).toBe(0);
+    expect(estimateTokens('Hello world!', MODEL)).toBe(3);
+    expect(estimateTokens('Hello world!!', MODEL)).toBe(4);
+  });
+
+  it('counts characters outside Latin scripts as a token each', () => {
+    expect(estimateTokens('你好世界', MODEL)).toBe(4);
+    expect(estimateTokens('Hi 👋', MODEL)).toBe(3);
+  });
+});
+
+describe('buildContext', () => {
+  const system = { role: 'system' as const, content: 'Be brief' };
+  const conversation = ['u1', 'a1', 'u2', 'a2', 'u3', 'a3'].map(id => message(id.startsWith('u') ? 'user' : 'assistant', id));
+
+  it('sends everything that fits the context window', () => {
+    const result = buildContext([system, ...conversation.slice(1)], { model: MODEL, settings });
+
+    expect(result.tokenBudget).toBe(80);
+    // 3 per request, 6 for the system message and 14 for each of the 5 others
+    expect(result.tokenCount).toBe(79);
+    expect(result.dropped).toEqual([]);
+  });
+
+  it('drops the oldest messages and keeps the system message where it was', () => {
+    const result = buildContext([system, ...conversation], { model: MODEL, settings });
+
+    expect(result.messages).toEqual([system, ...conversation.slice(1)]);
+    expect(result.dropped).toEqual([conversation[0]]);
+  });
+
+  it('reserves room for the answer and content added later', () => {
+    const result = buildContext(conversation, { model: MODEL, settings: { ...settings, maxTokens: 0 }, reservedTokens: 10 });
+
+    // Without max tokens the model's maximum output is reserved
+    expect(result.tokenBudget).toBe(40);
+    expect(result.messages).toEqual(conversation.slice(-2));
+  });
+
+  it('cuts the conversation to the context limit setting first', () => {
+    const result = buildContext([system, ...conversation], { model: MODEL, settings: { ...settings, contextLimit: 'last1' } });
+
+    expect(result.messages).toEqual([system, conversation[5]]);
+    expect(result.dropped).toEqual(conversation.slice(0, 5));
+  });
+
+  it('counts a system prompt the adapter adds', () => {
+    const withPrompt = { ...settings, systemPrompt: 'Be brief' };
+
+    expect(buildContext(conversation.slice(-1), { model: MODEL, settings: withPrompt }).tokenCount).toBe(3 + 6 + 14);
+    expect(buildContext([system, ...conversation.slice(-1)], { model: MODEL, settings: withPrompt }).tokenCount).toBe(3 + 6 + 14);
+  });
+
+  it('always sends the latest message, even when it does not fit', () => {
+    const long = { role: 'user' as const, content: 'x'.repeat(1000) };
+    const result = buildContext([...conversation, long], { model: MODEL, settings });
+
+    expect(result.messages).toEqual([long]);
+    expect(result.tokenCount).toBeGreaterThan(result.tokenBudget);
+  });
+});
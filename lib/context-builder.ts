@@ -0,0 +1,165 @@
+/**
+ * Context builder
+ * Estimates token counts with per-provider tokenizer profiles and picks the
+ * messages sent to the model so the request fits its context window
+ */
+
+import { Message, ModelSettings } from './types';
+import { ChatRequestMessage } from './providers';
+import { getModelInfo } from './model-registry';
+
+// Notices saved before they were marked as such
+const LEGACY_NOTICE_PREFIXES = ['Sorry, there was an error', 'API key required for', 'Error: No valid messages'];
+
+/**
+ * Whether a message is only shown to the user: an error, a missing key or a
+ * budget notice. Those are left out of the conversation sent to the model,
+ * only the rest of the system messages are real prompts.
+ */
+export function isNoticeMessage(message: Pick<Message, 'role' | 'content' | 'isNotice' | 'blockedByBudget' | 'generation'>): boolean {
+  if (message.isNotice || message.blockedByBudget) return true;
+
+  // A failed reply holds the error instead of an answer
+  if (message.role === 'assistant') return message.generation?.finishReason === 'error';
+
+  return message.role === 'system' && LEGACY_NOTICE_PREFIXES.some(prefix => message.content.startsWith(prefix));
+}
+
+/**
+ * Approximation of a provider's tokenizer.
+ * None of the tokenizers ship as a dependency, so text is measured by
+ * characters per token, which errs on the side of overestimating.
+ */
+type TokenizerProfile = {
+  /** Average characters per token for Latin-script text */
+  charsPerToken: number;
+  /** Tokens added around every message for its role and delimiters */
+  tokensPerMessage: number;
+  /** Tokens added once per request to prime the reply */
+  tokensPerRequest: number;
+};
+
+const TOKENIZER_PROFILES: Record<string, TokenizerProfile> = {
+  // o200k_base / cl100k_base average ~4 characters per token for English
+  openai: { charsPerToken: 4, tokensPerMessage: 4, tokensPerRequest: 3 },
+  // Claude's tokenizer produces noticeably more tokens for the same text
+  anthropic: { charsPerToken: 3.5, tokensPerMessage: 5, tokensPerRequest: 5 },
+  gemini: { charsPerToken: 4, tokensPerMessage: 5, tokensPerRequest: 2 },
+};
+
+// Unknown tokenizers (custom endpoints, local models) are estimated conservatively
+const DEFAULT_TOKENIZER_PROFILE: TokenizerProfile = { charsPerToken: 3.5, tokensPerMessage: 5, tokensPerRequest: 3 };
+
+// Characters outside Latin scripts (CJK, emoji, ...) take about one token each
+const WIDE_CHARACTER_PATTERN = /[^\u0000-\u024F\u2000-\u206F]/g;
+
+// Fallback output reservation when the user didn't set a max tokens value
+const DEFAULT_OUTPUT_RESERVATION = 1000;
+
+/**
+ * Result of building the context for a request
+ */
+export type ContextResult<T extends ChatRequestMessage> = {
+  messages: T[];
+  /** Conversation messages left out, oldest first */
+  dropped: T[];
+  /** Estimated prompt tokens of the returned messages */
+  tokenCount: number;
+  /** Prompt tokens available after reserving room for the answer */
+  tokenBudget: number;
+};
+
+export type ContextOptions = {
+  model: string;
+  settings: Pick<ModelSettings, 'contextLimit' | 'maxTokens' | 'systemPrompt'>;
+  /** Tokens kept free for content added after the context is built */
+  reservedTokens?: number;
+};
+
+/**
+ * Get the tokenizer profile for the provider serving a model
+ */
+function getTokenizerProfile(model: string): TokenizerProfile {
+  return TOKENIZER_PROFILES[getModelInfo(model).category] || DEFAULT_TOKENIZER_PROFILE;
+}
+
+/**
+ * Estimate the number of tokens in a piece of text for a model
+ */
+export function estimateTokens(text: string, model: string): number {
+  if (!text) return 0;
+
+  const { charsPerToken } = getTokenizerProfile(model);
+  const wideCharacters = text.match(WIDE_CHARACTER_PATTERN)?.length || 0;
+  return Math.ceil((text.length - wideCharacters) / charsPerToken) + wideCharacters;
+}
+
+/**
+ * Estimate the tokens a single message takes up in a request
+ */
+export function estimateMessageTokens(message: ChatRequestMessage, model: string): number {
+  return estimateTokens(message.content, model) + getTokenizerProfile(model).tokensPerMessage;
+}
+
+/**
+ * Estimate the prompt tokens of a whole request
+ */
+export function estimateRequestTokens(messages: ChatRequestMessage[], model: string): number {
+  return messages.reduce((total, message) => total + estimateMessageTokens(message, model), 0)
+    + getTokenizerProfile(model).tokensPerRequest;
+}
+
+/**
+ * Number of recent messages allowed by the context limit setting, or null for all
+ */
+export function getContextMessageLimit(contextLimit: ModelSettings['contextLimit']): number | null {
+  const match = contextLimit.match(/^last(\d+)$/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Pick the messages to send: system messages and the system prompt are always
+ * kept, the conversation is cut to the context limit setting and then the
+ * oldest messages are dropped until the request fits the model's context
+ * window minus the tokens reserved for the answer. The latest message is
+ * always sent, even if it doesn't fit on its own.
+ */
+export function buildContext<T extends ChatRequestMessage>(
+  messages: T[],
+  { model, settings, reservedTokens = 0 }: ContextOptions
+): ContextResult<T> {
+  const { contextWindow, maxOutputTokens } = getModelInfo(model);
+  const reservedOutput = Math.min(settings.maxTokens || DEFAULT_OUTPUT_RESERVATION, maxOutputTokens);
+  const tokenBudget = Math.max(0, contextWindow - reservedOutput - reservedTokens);
+
+  const systemMessages = messages.filter(msg => msg.role === 'system');
+  const conversation = messages.filter(msg => msg.role !== 'system');
+
+  // The adapters add the system prompt to the request unless it's already there
+  const systemPromptTokens = settings.systemPrompt && !systemMessages.some(msg => msg.content === settings.systemPrompt)
+    ? estimateMessageTokens({ role: 'system', content: settings.systemPrompt }, model)
+    : 0;
+  let tokenCount = estimateRequestTokens(systemMessages, model) + systemPromptTokens;
+
+  const limit = getContextMessageLimit(settings.contextLimit);
+  const candidates = limit !== null ? conversation.slice(-limit) : conversation;
+
+  // Walk back from the newest message until the budget is used up
+  let firstKept = candidates.length;
+  for (let i = candidates.length - 1; i >= 0; i--) {
+    const messageTokens = estimateMessageTokens(candidates[i], model);
+    if (tokenCount + messageTokens > tokenBudget && i < candidates.length - 1) break;
+    tokenCount += messageTokens;
+    firstKept = i;
+  }
+
+  const kept = new Set(candidates.slice(firstKept));
+
+  return {
+    // Keep the original order, including where system messages were
+    messages: messages.filter(msg => msg.role === 'system' || kept.has(msg)),
+    dropped: conversation.filter(msg => !kept.has(msg)),
+    tokenCount,
+    tokenBudget
+  };
+}
@@ -0,0 +1,38 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getCustomEndpointProxyHosts } from './chat-request';
+import { isAllowedProxyHost } from './custom-providers';
+
+describe('isAllowedProxyHost', () => {
+  it('allows any port of a listed host name', () => {
+    expect(isAllowedProxyHost('https://vllm.internal/v1', ['vllm.internal'])).toBe(true);
+    expect(isAllowedProxyHost('http://VLLM.internal:8000/v1', ['vllm.internal'])).toBe(true);
+  });
+
+  it('allows only the listed port of a host:port entry', () => {
+    expect(isAllowedProxyHost('http://litellm.internal:4000/v1', ['litellm.internal:4000'])).toBe(true);
+    expect(isAllowedProxyHost('http://litellm.internal:4001/v1', ['litellm.internal:4000'])).toBe(false);
+  });
+
+  it('rejects other hosts and URLs that are not http(s)', () => {
+    expect(isAllowedProxyHost('http://169.254.169.254/latest', ['vllm.internal'])).toBe(false);
+    expect(isAllowedProxyHost('http://vllm.internal.evil.com/v1', ['vllm.internal'])).toBe(false);
+    expect(isAllowedProxyHost('file:///etc/passwd', ['vllm.internal'])).toBe(false);
+    expect(isAllowedProxyHost('https://vllm.internal/v1', [])).toBe(false);
+  });
+});
+
+describe('getCustomEndpointProxyHosts', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('reads the comma-separated hosts from the environment', () => {
+    vi.stubEnv('CUSTOM_ENDPOINT_PROXY_HOSTS', ' vLLM.internal, ,litellm.internal:4000');
+    expect(getCustomEndpointProxyHosts()).toEqual(['vllm.internal', 'litellm.internal:4000']);
+  });
+
+  it('proxies to no host by default', () => {
+    vi.stubEnv('CUSTOM_ENDPOINT_PROXY_HOSTS', '');
+    expect(getCustomEndpointProxyHosts()).toEqual([]);
+  });
+});
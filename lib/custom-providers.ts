@@ -0,0 +1,166 @@
+/**
+ * Custom provider management utilities
+ * Handles storage of user-defined OpenAI-compatible endpoints and the model IDs
+ * used to address their models
+ */
+
+import { storage } from './storage';
+import { CustomProvider } from './types';
+import { generateId } from './utils/chat-storage';
+
+const CUSTOM_PROVIDERS_STORAGE_KEY = 'custom-providers';
+
+export const CUSTOM_PROVIDER_PREFIX = 'custom:';
+
+/**
+ * Endpoint details sent to the API route, which has no access to localStorage
+ */
+export type CustomProviderConfig = Pick<CustomProvider, 'id' | 'name' | 'baseUrl' | 'headers'>;
+
+/**
+ * Build the model ID for a model served by a custom provider
+ * e.g. `custom:ab12cd34/meta-llama/Llama-3-8B`
+ */
+export function getCustomModelId(providerId: CustomProvider['id'], modelName: string): CustomProvider['id'] {
+  return `${providerId}/${modelName}`;
+}
+
+/**
+ * Split a custom model ID into its provider ID and upstream model name
+ */
+export function parseCustomModelId(model: string): { providerId: CustomProvider['id']; modelName: string } | null {
+  if (!model.startsWith(CUSTOM_PROVIDER_PREFIX)) return null;
+
+  const separator = model.indexOf('/');
+  if (separator === -1) return null;
+
+  return {
+    providerId: model.slice(0, separator) as CustomProvider['id'],
+    modelName: model.slice(separator + 1)
+  };
+}
+
+/**
+ * Check that a base URL is an absolute http(s) URL
+ */
+export function isValidBaseUrl(baseUrl: string): boolean {
+  try {
+    const url = new URL(baseUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether a base URL points at one of the hosts the API route may proxy to.
+ * Entries are lowercase host names, or host:port to allow a single port.
+ */
+export function isAllowedProxyHost(baseUrl: string, allowedHosts: string[]): boolean {
+  if (!isValidBaseUrl(baseUrl)) return false;
+
+  const url = new URL(baseUrl);
+  return allowedHosts.some(host => host.includes(':') ? host === url.host : host === url.hostname);
+}
+
+/**
+ * Parse "Name: value" lines into a headers object
+ */
+export function parseHeaderLines(text: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+
+    const name = line.slice(0, separator).trim();
+    const value = line.slice(separator + 1).trim();
+    if (name) {
+      headers[name] = value;
+    }
+  }
+  return headers;
+}
+
+/**
+ * Format a headers object as "Name: value" lines
+ */
+export function formatHeaderLines(headers?: Record<string, string>): string {
+  return Object.entries(headers || {})
+    .map(([name, value]) => `${name}: ${value}`)
+    .join('\n');
+}
+
+/**
+ * Utility for custom provider management
+ */
+export const customProviderStorage = {
+  /**
+   * Get all custom providers
+   */
+  getProviders: (): CustomProvider[] => {
+    return storage.get<CustomProvider[]>(CUSTOM_PROVIDERS_STORAGE_KEY, []);
+  },
+
+  /**
+   * Get a custom provider by ID
+   */
+  getProvider: (id: string): CustomProvider | undefined => {
+    return customProviderStorage.getProviders().find(provider => provider.id === id);
+  },
+
+  /**
+   * Create a custom provider
+   */
+  createProvider: (data: Pick<CustomProvider, 'name' | 'baseUrl' | 'headers' | 'models'>): CustomProvider => {
+    const provider: CustomProvider = {
+      ...data,
+      id: `${CUSTOM_PROVIDER_PREFIX}${generateId()}`,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    storage.set(CUSTOM_PROVIDERS_STORAGE_KEY, [...customProviderStorage.getProviders(), provider]);
+    return provider;
+  },
+
+  /**
+   * Update a custom provider
+   */
+  updateProvider: (id: string, updates: Partial<Omit<CustomProvider, 'id' | 'createdAt'>>): void => {
+    const providers = customProviderStorage.getProviders().map(provider =>
+      provider.id === id
+        ? { ...provider, ...updates, updatedAt: new Date() }
+        : provider
+    );
+    storage.set(CUSTOM_PROVIDERS_STORAGE_KEY, providers);
+  },
+
+  /**
+   * Delete a custom provider
+   */
+  deleteProvider: (id: string): void => {
+    const providers = customProviderStorage.getProviders().filter(provider => provider.id !== id);
+    storage.set(CUSTOM_PROVIDERS_STORAGE_KEY, providers);
+  },
+
+  /**
+   * Get the endpoint details of a custom provider
+   */
+  getConfig: (id: string): CustomProviderConfig | undefined => {
+    const provider = customProviderStorage.getProvider(id);
+    if (!provider) return undefined;
+
+    const { name, baseUrl, headers } = provider;
+    return { id: provider.id, name, baseUrl, headers };
+  },
+
+  /**
+   * Get the endpoint details for the provider serving a custom model
+   */
+  getConfigForModel: (model: string): CustomProviderConfig | undefined => {
+    const parsed = parseCustomModelId(model);
+    return parsed ? customProviderStorage.getConfig(parsed.providerId) : undefined;
+  }
+};
+
+export default customProviderStorage;
@@ -0,0 +1,75 @@
+import { openDB } from 'idb';
+import { describe, expect, it } from 'vitest';
+import type { ChatDBSchema, DBMessage } from './chat-db';
+import { ChatDB, LATEST_DB_VERSION, runMigrations } from './db-migrations';
+
+let databaseCount = 0;
+
+// Each test gets a database of its own
+function openAt(name: string, version: number): Promise<ChatDB> {
+  return openDB<ChatDBSchema>(name, version, {
+    upgrade(db, oldVersion, _newVersion, transaction) {
+      runMigrations(db, oldVersion, transaction, version).catch(error => {
+        console.error(error);
+        transaction.abort();
+      });
+    }
+  });
+}
+
+function message(id: string, chatId: string, minute: number): DBMessage {
+  return { id, chatId, content: id, role: 'user', createdAt: new Date(Date.UTC(2024, 0, 1, 0, minute)) };
+}
+
+describe('runMigrations', () => {
+  it('creates the latest schema for a new database', async () => {
+    const db = await openAt(`new-${databaseCount++}`, LATEST_DB_VERSION);
+
+    expect(Array.from(db.objectStoreNames).sort()).toEqual(['chats', 'folders', 'messages', 'usage']);
+    const messageIndexes = db.transaction('messages').store.indexNames;
+    expect(Array.from(messageIndexes).sort()).toEqual(['chatId', 'chatId_createdAt', 'createdAt']);
+    db.close();
+  });
+
+  it('stops at the requested version', async () => {
+    const db = await openAt(`partial-${databaseCount++}`, 1);
+
+    expect(Array.from(db.objectStoreNames).sort()).toEqual(['chats', 'folders', 'messages']);
+    db.close();
+  });
+
+  it('upgrades a database from the first version and keeps its messages', async () => {
+    const name = `upgrade-${databaseCount++}`;
+    const v1 = await openAt(name, 1);
+    // Stored out of order, the thread is rebuilt from creation times
+    await v1.put('messages', message('b2', 'b', 1));
+    await v1.put('messages', message('a2', 'a', 1));
+    await v1.put('messages', message('a1', 'a', 0));
+    await v1.put('messages', message('a3', 'a', 2));
+    await v1.put('messages', message('b1', 'b', 0));
+    await v1.put('messages', { ...message('b3', 'b', 2), parentId: 'b1' });
+    v1.close();
+
+    const db = await openAt(name, LATEST_DB_VERSION);
+    const parents = Object.fromEntries((await db.getAll('messages')).map(msg => [msg.id, msg.parentId]));
+
+    expect(parents).toEqual({ a1: null, a2: 'a1', a3: 'a2', b1: null, b2: 'b1', b3: 'b1' });
+    expect(db.objectStoreNames.contains('usage')).toBe(true);
+
+    const page = await db.getAllFromIndex('messages', 'chatId_createdAt', IDBKeyRange.bound(['a'], ['a', []]));
+    expect(page.map(msg => msg.id)).toEqual(['a1', 'a2', 'a3']);
+    db.close();
+  });
+
+  it('skips migrations the database already has', async () => {
+    const name = `current-${databaseCount++}`;
+    const v2 = await openAt(name, 2);
+    // Migration 2 already ran, messages saved since are left as they are
+    await v2.put('messages', message('m2', 'c', 1));
+    v2.close();
+
+    const db = await openAt(name, LATEST_DB_VERSION);
+    expect((await db.get('messages', 'm2'))?.parentId).toBeUndefined();
+    db.close();
+  });
+});
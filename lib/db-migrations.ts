@@ -0,0 +1,247 @@
+/**
+ * IndexedDB schema migrations
+ * Every schema change is a numbered migration that runs once, in order, inside
+ * the upgrade transaction. Before upgrading an existing database its records
+ * are copied to a separate backup database.
+ */
+
+import { openDB, IDBPDatabase, IDBPTransaction, StoreNames } from 'idb';
+import type { ChatDBSchema, DBMessage } from './chat-db';
+import { Chat, Folder, UsageRecord } from './types';
+
+export type ChatDB = IDBPDatabase<ChatDBSchema>;
+export type UpgradeTransaction = IDBPTransaction<ChatDBSchema, StoreNames<ChatDBSchema>[], 'versionchange'>;
+
+/**
+ * A schema change. `upgrade` may create stores and indexes and transform
+ * existing records through the upgrade transaction; it must not wait for
+ * anything but requests on that transaction.
+ */
+export type Migration = {
+  version: number;
+  description: string;
+  upgrade: (db: ChatDB, transaction: UpgradeTransaction) => void | Promise<void>;
+};
+
+/**
+ * All migrations, oldest first. Append new ones, never edit released ones.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create chats, messages and folders stores',
+    upgrade(db) {
+      if (!db.objectStoreNames.contains('chats')) {
+        const chatStore = db.createObjectStore('chats', { keyPath: 'id' });
+        chatStore.createIndex('updatedAt', 'updatedAt');
+        chatStore.createIndex('folderId', 'folderId');
+      }
+
+      if (!db.objectStoreNames.contains('messages')) {
+        const messageStore = db.createObjectStore('messages', { keyPath: 'id' });
+        messageStore.createIndex('chatId', 'chatId');
+        messageStore.createIndex('createdAt', 'createdAt');
+      }
+
+      if (!db.objectStoreNames.contains('folders')) {
+        const folderStore = db.createObjectStore('folders', { keyPath: 'id' });
+        folderStore.createIndex('updatedAt', 'updatedAt');
+      }
+    }
+  },
+  {
+    version: 2,
+    description: 'Link messages saved before branching to the message they reply to',
+    async upgrade(_db, transaction) {
+      const store = transaction.objectStore('messages');
+      const messages = await store.getAll();
+
+      // Messages of a chat formed a single thread in creation order
+      const byChat = new Map<string, DBMessage[]>();
+      for (const message of messages) {
+        byChat.set(message.chatId, [...(byChat.get(message.chatId) || []), message]);
+      }
+
+      for (const chatMessages of byChat.values()) {
+        chatMessages.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+        let previousId: string | null = null;
+        for (const message of chatMessages) {
+          if (message.parentId === undefined) {
+            await store.put({ ...message, parentId: previousId });
+          }
+          previousId = message.id;
+        }
+      }
+    }
+  },
+  {
+    version: 3,
+    description: 'Index messages by chat and creation time for paginated loading',
+    upgrade(_db, transaction) {
+      const store = transaction.objectStore('messages');
+      if (!store.indexNames.contains('chatId_createdAt')) {
+        store.createIndex('chatId_createdAt', ['chatId', 'createdAt']);
+      }
+    }
+  },
+  {
+    version: 4,
+    description: 'Create the usage store for token usage and cost of each reply',
+    upgrade(db) {
+      if (!db.objectStoreNames.contains('usage')) {
+        const usageStore = db.createObjectStore('usage', { keyPath: 'id' });
+        usageStore.createIndex('createdAt', 'createdAt');
+      }
+    }
+  }
+];
+
+/**
+ * Current schema version
+ */
+export const LATEST_DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Run the migrations newer than the stored version, up to the given version
+ */
+export async function runMigrations(
+  db: ChatDB,
+  oldVersion: number,
+  transaction: UpgradeTransaction,
+  toVersion = LATEST_DB_VERSION
+): Promise<void> {
+  // A database created by opening it without a version has no stores yet
+  const fromVersion = db.objectStoreNames.length === 0 ? 0 : oldVersion;
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= fromVersion || migration.version > toVersion) continue;
+
+    console.log(`Running database migration ${migration.version}: ${migration.description}`);
+    await migration.upgrade(db, transaction);
+  }
+}
+
+/**
+ * Raised when the chat database can't be opened at the current schema version.
+ * The failed upgrade is rolled back, so the stored data is left as it was.
+ * Also raised when a newer version of the app already upgraded the database
+ * past the latest version this one knows.
+ */
+export class DatabaseMigrationError extends Error {
+  fromVersion: number;
+  toVersion: number;
+  /** Backup taken before the upgrade, if there was data to back up */
+  backupId: string | null;
+  originalError: unknown;
+
+  constructor(fromVersion: number, toVersion: number, backupId: string | null, originalError: unknown) {
+    const reason = originalError instanceof Error ? originalError.message : String(originalError);
+    super(fromVersion > toVersion
+      ? `The chat database is at version ${fromVersion}, this version of the app only supports up to ${toVersion}`
+      : `Upgrading the chat database from version ${fromVersion} to ${toVersion} failed: ${reason}`);
+    this.name = 'DatabaseMigrationError';
+    this.fromVersion = fromVersion;
+    this.toVersion = toVersion;
+    this.backupId = backupId;
+    this.originalError = originalError;
+  }
+
+  /**
+   * Whether the database was created by a newer version of the app
+   */
+  get isDowngrade(): boolean {
+    return this.fromVersion > this.toVersion;
+  }
+}
+
+const BACKUP_DB_NAME = 'chatApp-backups';
+const BACKUP_DB_VERSION = 1;
+const MAX_BACKUPS = 3;
+
+/**
+ * Copy of the chat database taken before a migration
+ */
+export type DatabaseBackup = {
+  id: string;
+  createdAt: Date;
+  version: number;
+  chats: Chat[];
+  messages: DBMessage[];
+  folders: Folder[];
+  /** Missing in backups of databases from before the usage store */
+  usage?: UsageRecord[];
+};
+
+function openBackupDB() {
+  return openDB(BACKUP_DB_NAME, BACKUP_DB_VERSION, {
+    upgrade(db) {
+      if (!db.objectStoreNames.contains('backups')) {
+        db.createObjectStore('backups', { keyPath: 'id' });
+      }
+    }
+  });
+}
+
+/**
+ * Copy every record of a database into the backup database, keeping the
+ * latest few backups
+ */
+export async function createBackup(db: IDBPDatabase<ChatDBSchema>): Promise<string> {
+  const [chats, messages, folders, usage] = await Promise.all([
+    db.getAll('chats'),
+    db.getAll('messages'),
+    db.getAll('folders'),
+    db.objectStoreNames.contains('usage') ? db.getAll('usage') : undefined
+  ]);
+
+  const backup: DatabaseBackup = {
+    id: `v${db.version}-${Date.now()}`,
+    createdAt: new Date(),
+    version: db.version,
+    chats,
+    messages,
+    folders,
+    ...(usage && { usage })
+  };
+
+  const backupDB = await openBackupDB();
+  try {
+    await backupDB.put('backups', backup);
+
+    const backups: DatabaseBackup[] = await backupDB.getAll('backups');
+    backups.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    for (const old of backups.slice(MAX_BACKUPS)) {
+      await backupDB.delete('backups', old.id);
+    }
+  } finally {
+    backupDB.close();
+  }
+
+  return backup.id;
+}
+
+/**
+ * Get a backup by ID
+ */
+export async function getBackup(id: string): Promise<DatabaseBackup | undefined> {
+  const backupDB = await openBackupDB();
+  try {
+    return await backupDB.get('backups', id);
+  } finally {
+    backupDB.close();
+  }
+}
+
+/**
+ * All backups, newest first
+ */
+export async function listBackups(): Promise<DatabaseBackup[]> {
+  const backupDB = await openBackupDB();
+  try {
+    const backups: DatabaseBackup[] = await backupDB.getAll('backups');
+    return backups.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  } finally {
+    backupDB.close();
+  }
+}
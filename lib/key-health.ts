@@ -0,0 +1,151 @@
+/**
+ * API key health
+ * Saved keys are verified with a cheap authenticated request to the provider
+ * (its model list). The outcome is stored per labeled key together with the
+ * last characters of the key it applies to, so a status never outlives its key.
+ */
+
+import { apiKeyStorage } from './api-keys';
+import { customProviderStorage } from './custom-providers';
+import { ProviderAdapter, createCustomProvider, getProvider } from './providers';
+import { storage } from './storage';
+import { LabeledApiKey } from './types';
+
+const KEY_HEALTH_STORAGE_KEY = 'api-key-health';
+
+/**
+ * Event dispatched on window when a key's health changes
+ */
+export const KEY_HEALTH_CHANGED_EVENT = 'api-key-health-changed';
+
+/**
+ * valid: the provider accepted the key
+ * invalid: the provider rejected it
+ * unreachable: the provider couldn't be reached, the key may still work
+ */
+export type KeyHealthStatus = 'valid' | 'invalid' | 'unreachable';
+
+export type KeyHealth = {
+  status: KeyHealthStatus;
+  verifiedAt: Date;
+  /** Organization the key belongs to, when the provider reports it */
+  account?: string;
+  /** Why verification failed */
+  error?: string;
+  /** Last characters of the verified key */
+  keyHint: string;
+};
+
+/**
+ * State of a provider's key as shown next to the provider and its models
+ */
+export type KeyState = KeyHealthStatus | 'missing' | 'unverified';
+
+function getKeyHint(key: string): string {
+  return key.slice(-4);
+}
+
+function getAllKeyHealth(): Record<string, KeyHealth> {
+  return storage.get<Record<string, KeyHealth>>(KEY_HEALTH_STORAGE_KEY, {});
+}
+
+function saveKeyHealth(provider: string, keyId: string, health: KeyHealth | null): void {
+  const all = getAllKeyHealth();
+  if (health) {
+    all[keyId] = health;
+  } else {
+    delete all[keyId];
+  }
+  storage.set(KEY_HEALTH_STORAGE_KEY, all);
+  window.dispatchEvent(new CustomEvent(KEY_HEALTH_CHANGED_EVENT, { detail: { provider, keyId } }));
+}
+
+// Custom endpoints aren't registered, their adapter is built from the stored endpoint
+function getAdapter(provider: string): ProviderAdapter | undefined {
+  const config = customProviderStorage.getConfig(provider);
+  return config ? createCustomProvider(config) : getProvider(provider);
+}
+
+/**
+ * The stored health of a key, undefined when it was verified for another key
+ */
+export function getKeyHealth(apiKey: LabeledApiKey): KeyHealth | undefined {
+  const health = getAllKeyHealth()[apiKey.id];
+  return health && apiKey.key && health.keyHint === getKeyHint(apiKey.key) ? health : undefined;
+}
+
+/**
+ * Verify one of a provider's keys and store the outcome. An empty key clears it.
+ */
+export async function verifyApiKey(provider: string, apiKey: LabeledApiKey): Promise<KeyHealth | null> {
+  const adapter = getAdapter(provider);
+  const { key } = apiKey;
+  if (!adapter || !key) {
+    saveKeyHealth(provider, apiKey.id, null);
+    return null;
+  }
+
+  let health: KeyHealth;
+  try {
+    const result = await adapter.verifyKey(key);
+    health = result.valid
+      ? { status: 'valid', verifiedAt: new Date(), account: result.account, keyHint: getKeyHint(key) }
+      : { status: 'invalid', verifiedAt: new Date(), error: result.error.message, keyHint: getKeyHint(key) };
+  } catch (error) {
+    console.error(`Error verifying ${provider} API key:`, error);
+    health = {
+      status: 'unreachable',
+      verifiedAt: new Date(),
+      error: `Could not reach ${adapter.name}. Check your connection.`,
+      keyHint: getKeyHint(key)
+    };
+  }
+
+  // The key may have changed while the request was in flight
+  const current = apiKeyStorage.getProviderKeys(provider).find(k => k.id === apiKey.id);
+  if (current?.key !== key) {
+    return health;
+  }
+
+  saveKeyHealth(provider, apiKey.id, health);
+  return health;
+}
+
+// A provider with several keys is usable as long as one of them works
+const KEY_STATE_ORDER: KeyState[] = ['valid', 'unverified', 'unreachable', 'invalid'];
+
+/**
+ * State of a provider's keys: missing without keys, otherwise the best state of any key
+ */
+export function getKeyState(provider: string): KeyState {
+  const keys = apiKeyStorage.getProviderKeys(provider).filter(k => k.key);
+  if (keys.length === 0) return 'missing';
+
+  const states: KeyState[] = keys.map(k => getKeyHealth(k)?.status || 'unverified');
+  return KEY_STATE_ORDER.find(state => states.includes(state)) || 'unverified';
+}
+
+/**
+ * Describe a key's state for a tooltip
+ */
+export function describeKeyState(state: KeyState, health?: KeyHealth): string {
+  switch (state) {
+    case 'missing':
+      return 'No API key';
+    case 'unverified':
+      return 'Not verified yet';
+    case 'valid':
+      return health?.account ? `Verified (${health.account})` : 'Verified';
+    default:
+      return health?.error || 'Verification failed';
+  }
+}
+
+export const keyHealth = {
+  getKeyHealth,
+  verifyApiKey,
+  getKeyState,
+  describeKeyState
+};
+
+export default keyHealth;
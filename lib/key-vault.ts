@@ -0,0 +1,358 @@
+/**
+ * API key vault
+ * API keys are stored encrypted with AES-GCM under a key derived from the
+ * user's passphrase with PBKDF2. Unlocking derives the key once and keeps it
+ * and the decrypted keys in memory for the session; the vault locks itself
+ * again after a period without user activity.
+ */
+
+import { storage } from './storage';
+import { ApiKeyring, ApiKeys, LabeledApiKey } from './types';
+import { generateId } from './utils/chat-storage';
+
+const VAULT_STORAGE_KEY = 'api-key-vault';
+// Plaintext keys written by versions before the vault
+const LEGACY_KEYS_STORAGE_KEY = 'api-keys';
+
+// Label of a key that was stored before providers could hold several
+export const DEFAULT_KEY_LABEL = 'Default';
+
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+/**
+ * Lock after this long without user activity
+ */
+export const AUTO_LOCK_AFTER_MS = 15 * 60 * 1000;
+
+/**
+ * Event dispatched on window when the vault is created, unlocked, locked or reset
+ */
+export const KEY_VAULT_CHANGED_EVENT = 'key-vault-changed';
+
+/**
+ * Event dispatched on window when something needs the keys while the vault is locked
+ */
+export const KEY_VAULT_UNLOCK_REQUEST_EVENT = 'key-vault-unlock-request';
+
+export type VaultStatus = 'none' | 'locked' | 'unlocked';
+
+/**
+ * Encrypted vault as stored in localStorage
+ */
+type StoredVault = {
+  version: 1;
+  salt: string;
+  iterations: number;
+  iv: string;
+  data: string;
+};
+
+/**
+ * Raised when the vault can't be unlocked or changed
+ */
+export class KeyVaultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KeyVaultError';
+  }
+}
+
+const isBrowser = typeof window !== 'undefined';
+
+// Session state, never persisted
+let sessionKey: CryptoKey | null = null;
+let sessionSalt: string | null = null;
+let sessionKeys: ApiKeyring | null = null;
+let autoLockTimer: ReturnType<typeof setTimeout> | null = null;
+let writeChain: Promise<void> = Promise.resolve();
+
+let unlockRequest: Promise<boolean> | null = null;
+let resolveUnlockRequest: ((unlocked: boolean) => void) | null = null;
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...Array.from(bytes)));
+}
+
+function fromBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), char => char.charCodeAt(0));
+}
+
+/**
+ * Turn stored keys into a keyring. Vaults and plaintext keys from before
+ * providers could hold several keys store a single key string per provider.
+ */
+function toKeyring(stored: Record<string, string | LabeledApiKey[] | undefined>): ApiKeyring {
+  const keyring: ApiKeyring = {};
+  for (const [provider, value] of Object.entries(stored)) {
+    if (Array.isArray(value)) {
+      if (value.length > 0) keyring[provider] = value;
+    } else if (value) {
+      keyring[provider] = [{ id: generateId(), label: DEFAULT_KEY_LABEL, key: value }];
+    }
+  }
+  return keyring;
+}
+
+function readVault(): StoredVault | null {
+  return storage.get<StoredVault | null>(VAULT_STORAGE_KEY, null);
+}
+
+function notifyChanged(): void {
+  window.dispatchEvent(new CustomEvent(KEY_VAULT_CHANGED_EVENT, { detail: { status: getVaultStatus() } }));
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+async function encryptKeys(key: CryptoKey, keys: ApiKeyring): Promise<{ iv: string; data: string }> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(keys))
+  );
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+}
+
+async function decryptKeys(key: CryptoKey, vault: StoredVault): Promise<Record<string, string | LabeledApiKey[]>> {
+  const data = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(vault.iv) },
+    key,
+    fromBase64(vault.data)
+  );
+  return JSON.parse(new TextDecoder().decode(data));
+}
+
+function settleUnlockRequest(unlocked: boolean): void {
+  resolveUnlockRequest?.(unlocked);
+  unlockRequest = null;
+  resolveUnlockRequest = null;
+}
+
+function startSession(key: CryptoKey, salt: string, keys: ApiKeyring): void {
+  sessionKey = key;
+  sessionSalt = salt;
+  sessionKeys = keys;
+  touch();
+  notifyChanged();
+  settleUnlockRequest(true);
+}
+
+/**
+ * Whether a vault exists and whether it's unlocked
+ */
+export function getVaultStatus(): VaultStatus {
+  if (sessionKey) return 'unlocked';
+  return readVault() ? 'locked' : 'none';
+}
+
+/**
+ * Whether keys from before the vault are stored in plaintext
+ */
+export function hasPlaintextKeys(): boolean {
+  const keys = storage.get<ApiKeys>(LEGACY_KEYS_STORAGE_KEY, {});
+  return Object.values(keys).some(Boolean);
+}
+
+/**
+ * Delete plaintext keys from older versions instead of encrypting them
+ */
+export function discardPlaintextKeys(): void {
+  storage.remove(LEGACY_KEYS_STORAGE_KEY);
+}
+
+/**
+ * Create the vault with a passphrase and unlock it. Plaintext keys stored by
+ * older versions are moved into it.
+ */
+export async function createVault(passphrase: string): Promise<void> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new KeyVaultError(`The passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const keys = toKeyring(storage.get<ApiKeys>(LEGACY_KEYS_STORAGE_KEY, {}));
+
+  const vault: StoredVault = {
+    version: 1,
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    ...(await encryptKeys(key, keys))
+  };
+  storage.set(VAULT_STORAGE_KEY, vault);
+  storage.remove(LEGACY_KEYS_STORAGE_KEY);
+
+  startSession(key, vault.salt, keys);
+}
+
+/**
+ * Unlock the vault for this session
+ */
+export async function unlock(passphrase: string): Promise<void> {
+  const vault = readVault();
+  if (!vault) {
+    throw new KeyVaultError('No API key vault has been set up');
+  }
+
+  const key = await deriveKey(passphrase, fromBase64(vault.salt), vault.iterations);
+  let stored: Record<string, string | LabeledApiKey[]>;
+  try {
+    stored = await decryptKeys(key, vault);
+  } catch {
+    // AES-GCM rejects data decrypted with the wrong key
+    throw new KeyVaultError('Wrong passphrase');
+  }
+
+  startSession(key, vault.salt, toKeyring(stored));
+
+  // Save single keys as keyrings right away so their generated IDs stay stable
+  if (Object.values(stored).some(value => !Array.isArray(value))) {
+    await setKeys(getKeys());
+  }
+}
+
+/**
+ * Forget the decrypted keys until the vault is unlocked again
+ */
+export function lock(): void {
+  if (autoLockTimer) {
+    clearTimeout(autoLockTimer);
+    autoLockTimer = null;
+  }
+  if (!sessionKey) return;
+
+  sessionKey = null;
+  sessionSalt = null;
+  sessionKeys = null;
+  notifyChanged();
+}
+
+/**
+ * Delete the vault and the keys in it, for when the passphrase is forgotten
+ */
+export function resetVault(): void {
+  lock();
+  storage.remove(VAULT_STORAGE_KEY);
+  notifyChanged();
+}
+
+/**
+ * Postpone the auto-lock, called on user activity
+ */
+export function touch(): void {
+  if (!sessionKey) return;
+
+  if (autoLockTimer) clearTimeout(autoLockTimer);
+  autoLockTimer = setTimeout(lock, AUTO_LOCK_AFTER_MS);
+}
+
+/**
+ * Ask the user to unlock (or create) the vault. Resolves with whether it's
+ * unlocked once the prompt is answered or dismissed.
+ */
+export function requestUnlock(): Promise<boolean> {
+  if (sessionKey) return Promise.resolve(true);
+
+  if (!unlockRequest) {
+    unlockRequest = new Promise(resolve => {
+      resolveUnlockRequest = resolve;
+    });
+    window.dispatchEvent(new CustomEvent(KEY_VAULT_UNLOCK_REQUEST_EVENT));
+  }
+  return unlockRequest;
+}
+
+/**
+ * Answer an unlock request without unlocking
+ */
+export function cancelUnlockRequest(): void {
+  settleUnlockRequest(false);
+}
+
+/**
+ * The decrypted keys, empty while the vault is locked
+ */
+export function getKeys(): ApiKeyring {
+  return sessionKeys ? { ...sessionKeys } : {};
+}
+
+/**
+ * Replace the stored keys. Writes are encrypted one after another so an
+ * older set never overwrites a newer one.
+ */
+export function setKeys(keys: ApiKeyring): Promise<void> {
+  if (!sessionKey || !sessionKeys) {
+    return Promise.reject(new KeyVaultError('The API key vault is locked'));
+  }
+
+  sessionKeys = { ...keys };
+  touch();
+
+  const key = sessionKey;
+  writeChain = writeChain
+    .catch(() => undefined)
+    .then(async () => {
+      const vault = readVault();
+      if (!vault || vault.salt !== sessionSalt || key !== sessionKey) {
+        throw new KeyVaultError('The API key vault was locked or replaced');
+      }
+      storage.set(VAULT_STORAGE_KEY, { ...vault, ...(await encryptKeys(key, sessionKeys || keys)) });
+    });
+  return writeChain;
+}
+
+// Pick up keys saved in another tab
+if (isBrowser) {
+  window.addEventListener('storage', event => {
+    if (event.key !== `APP_${VAULT_STORAGE_KEY}` || !sessionKey) return;
+
+    const vault = readVault();
+    if (!vault || vault.salt !== sessionSalt) {
+      lock();
+      return;
+    }
+    decryptKeys(sessionKey, vault)
+      .then(stored => {
+        sessionKeys = toKeyring(stored);
+        notifyChanged();
+      })
+      .catch(() => lock());
+  });
+}
+
+export const keyVault = {
+  getVaultStatus,
+  hasPlaintextKeys,
+  discardPlaintextKeys,
+  createVault,
+  unlock,
+  lock,
+  resetVault,
+  touch,
+  requestUnlock,
+  cancelUnlockRequest,
+  getKeys,
+  setKeys
+};
+
+export default keyVault;
@@ -0,0 +1,114 @@
+/**
+ * Local model utilities
+ * Discovers models installed in a local Ollama or LM Studio server and stores
+ * the endpoint configuration and the last discovered model list
+ */
+
+import { storage } from './storage';
+
+const LOCAL_PROVIDER_STORAGE_KEY = 'local-provider';
+const LOCAL_MODELS_STORAGE_KEY = 'local-models';
+
+export const LOCAL_PROVIDER_ID = 'local';
+export const LOCAL_MODEL_PREFIX = 'local:';
+
+/**
+ * Configuration of the local model server
+ */
+export type LocalProviderConfig = {
+  enabled: boolean;
+  baseUrl: string;
+};
+
+/**
+ * Default to Ollama's standard port, LM Studio uses http://localhost:1234
+ */
+export const DEFAULT_LOCAL_PROVIDER: LocalProviderConfig = {
+  enabled: false,
+  baseUrl: 'http://localhost:11434'
+};
+
+/**
+ * Build the model ID for a locally installed model
+ */
+export function getLocalModelId(modelName: string): `local:${string}` {
+  return `${LOCAL_MODEL_PREFIX}${modelName}`;
+}
+
+/**
+ * Get the local model name from a model ID
+ */
+export function parseLocalModelId(model: string): string | null {
+  return model.startsWith(LOCAL_MODEL_PREFIX) ? model.slice(LOCAL_MODEL_PREFIX.length) : null;
+}
+
+/**
+ * Normalize the server URL so both `http://host:port` and `http://host:port/v1` work
+ */
+export function getLocalServerUrl(baseUrl: string): string {
+  return baseUrl.trim().replace(/\/+$/, '').replace(/\/v1$/, '');
+}
+
+/**
+ * Query the local server for installed models.
+ * Tries Ollama's `/api/tags` first, then the OpenAI-compatible `/v1/models`
+ * served by LM Studio (and newer Ollama versions).
+ */
+export async function discoverLocalModels(baseUrl: string, signal?: AbortSignal): Promise<string[]> {
+  const serverUrl = getLocalServerUrl(baseUrl);
+
+  try {
+    const response = await fetch(`${serverUrl}/api/tags`, { signal });
+    if (response.ok) {
+      const body = await response.json();
+      if (Array.isArray(body.models)) {
+        return body.models.map((model: { name: string }) => model.name);
+      }
+    }
+  } catch (error) {
+    // Not an Ollama server (or not reachable), try the OpenAI-compatible endpoint
+    if ((error as Error).name === 'AbortError') throw error;
+  }
+
+  const response = await fetch(`${serverUrl}/v1/models`, { signal });
+  if (!response.ok) {
+    throw new Error(`Local server responded with status ${response.status}`);
+  }
+  const body = await response.json();
+  return (body.data || []).map((model: { id: string }) => model.id);
+}
+
+/**
+ * Utility for local model configuration
+ */
+export const localModelStorage = {
+  /**
+   * Get the local server configuration
+   */
+  getConfig: (): LocalProviderConfig => {
+    return { ...DEFAULT_LOCAL_PROVIDER, ...storage.get<Partial<LocalProviderConfig>>(LOCAL_PROVIDER_STORAGE_KEY, {}) };
+  },
+
+  /**
+   * Save the local server configuration
+   */
+  setConfig: (config: LocalProviderConfig): void => {
+    storage.set(LOCAL_PROVIDER_STORAGE_KEY, config);
+  },
+
+  /**
+   * Get the model names found by the last discovery
+   */
+  getModels: (): string[] => {
+    return storage.get<string[]>(LOCAL_MODELS_STORAGE_KEY, []);
+  },
+
+  /**
+   * Cache the discovered model names
+   */
+  setModels: (models: string[]): void => {
+    storage.set(LOCAL_MODELS_STORAGE_KEY, models);
+  }
+};
+
+export default localModelStorage;
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { getActivePath, getSiblingInfo, getSiblingMap, selectBranch } from './message-tree';
+import { Message } from './types';
+
+function message(id: string, parentId: string | null | undefined, minute: number): Message {
+  return {
+    id,
+    content: id,
+    role: id.startsWith('u') ? 'user' : 'assistant',
+    createdAt: new Date(Date.UTC(2024, 0, 1, 0, minute)),
+    parentId
+  };
+}
+
+// u1 ─ a1 ─ u2 ─ a2
+//    └ a1b ─ u3
+const tree = [
+  message('u1', null, 0),
+  message('a1', 'u1', 1),
+  message('u2', 'a1', 2),
+  message('a2', 'u2', 3),
+  message('a1b', 'u1', 4),
+  message('u3', 'a1b', 5)
+];
+
+const ids = (messages: Message[]) => messages.map(msg => msg.id);
+
+describe('getActivePath', () => {
+  it('follows the newest sibling where no branch is selected', () => {
+    expect(ids(getActivePath({ messages: tree }))).toEqual(['u1', 'a1b', 'u3']);
+  });
+
+  it('follows the selected branches', () => {
+    const path = getActivePath({ messages: tree, activeBranches: { u1: 'a1' } });
+    expect(ids(path)).toEqual(['u1', 'a1', 'u2', 'a2']);
+  });
+
+  it('ignores a selection of a message that no longer exists', () => {
+    const path = getActivePath({ messages: tree, activeBranches: { u1: 'deleted' } });
+    expect(ids(path)).toEqual(['u1', 'a1b', 'u3']);
+  });
+
+  it('links messages saved before branching in the order they were stored', () => {
+    const legacy = [message('u1', undefined, 0), message('a1', undefined, 1), message('u2', undefined, 2)];
+    expect(ids(getActivePath({ messages: legacy }))).toEqual(['u1', 'a1', 'u2']);
+  });
+
+  it('starts at the oldest loaded message when older pages are not loaded', () => {
+    const page = tree.filter(msg => ['u2', 'a2', 'u3'].includes(msg.id));
+    expect(ids(getActivePath({ messages: page }))).toEqual(['u3']);
+    expect(ids(getActivePath({ messages: page, activeBranches: { a1: 'u2' } }))).toEqual(['u2', 'a2']);
+  });
+
+  it('stops at a cycle in corrupted data', () => {
+    const cyclic = [message('u1', null, 0), message('a1', 'u1', 1), { ...message('u1b', 'a1', 2), id: 'a1' }];
+    expect(ids(getActivePath({ messages: cyclic }))).toEqual(['u1', 'a1']);
+  });
+
+  it('returns an empty path for a chat without messages', () => {
+    expect(getActivePath({ messages: [] })).toEqual([]);
+  });
+});
+
+describe('selectBranch', () => {
+  it('selects every branch on the way to the message', () => {
+    const activeBranches = selectBranch({ messages: tree, activeBranches: { u1: 'a1b' } }, 'a2');
+    expect(activeBranches).toEqual({ root: 'u1', u1: 'a1', a1: 'u2', u2: 'a2' });
+    expect(ids(getActivePath({ messages: tree, activeBranches }))).toEqual(['u1', 'a1', 'u2', 'a2']);
+  });
+
+  it('keeps the selections of other branch points', () => {
+    const activeBranches = selectBranch({ messages: tree, activeBranches: { a1: 'u2' } }, 'u3');
+    expect(activeBranches).toMatchObject({ a1: 'u2', u1: 'a1b', a1b: 'u3' });
+  });
+
+  it('leaves the selection unchanged for an unknown message', () => {
+    const activeBranches = { u1: 'a1' };
+    expect(selectBranch({ messages: tree, activeBranches }, 'missing')).toEqual(activeBranches);
+    expect(selectBranch({ messages: tree }, 'missing')).toEqual({});
+  });
+});
+
+describe('getSiblingMap', () => {
+  it('gives every message the same siblings as getSiblingInfo', () => {
+    const siblingMap = getSiblingMap(tree);
+
+    for (const msg of tree) {
+      expect(siblingMap.get(msg.id)).toEqual(getSiblingInfo(tree, msg.id));
+    }
+    expect(siblingMap.get('a1b')).toMatchObject({ index: 1, count: 2 });
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Message tree utilities
+ * Messages form a tree through their parentId: regenerating a reply or editing
+ * and resending a message adds a sibling instead of overwriting it. The chat
+ * remembers which sibling is selected at each branch point and the
+ * conversation shown and sent to the model is the path through those choices.
+ */
+
+import { Chat, Message } from './types';
+
+/**
+ * Key of the branch point above the first message of a chat
+ */
+export const ROOT_BRANCH_KEY = 'root';
+
+/**
+ * Position of a message among its siblings
+ */
+export type SiblingInfo = {
+  siblings: Message[];
+  index: number;
+  count: number;
+};
+
+/**
+ * Fill in the parent of messages saved before branching existed:
+ * they form a single thread in the order they were stored
+ */
+export function withParentIds(messages: Message[]): Message[] {
+  return messages.map((message, index) =>
+    message.parentId !== undefined
+      ? message
+      : { ...message, parentId: index > 0 ? messages[index - 1].id : null }
+  );
+}
+
+/**
+ * Branch key of a parent message ID
+ */
+export function getBranchKey(parentId: string | null | undefined): string {
+  return parentId || ROOT_BRANCH_KEY;
+}
+
+/**
+ * Children of a message (or of the root) in creation order
+ */
+export function getChildren(messages: Message[], parentId: string | null): Message[] {
+  return withParentIds(messages)
+    .filter(msg => (msg.parentId || null) === parentId)
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+}
+
+/**
+ * Where the active path starts when only the newest messages of a chat are
+ * loaded: the oldest loaded message of the selected branch, or else the one
+ * leading to the newest message
+ */
+function getPartialPathStart(messages: Message[], activeBranches: Chat['activeBranches']): Message | undefined {
+  const byId = new Map(messages.map(msg => [msg.id, msg]));
+  const orphans = messages.filter(msg => msg.parentId && !byId.has(msg.parentId));
+
+  const selected = orphans.find(msg => activeBranches?.[getBranchKey(msg.parentId)] === msg.id);
+  if (selected) return selected;
+
+  const newest = messages.reduce<Message | undefined>((latest, msg) =>
+    !latest || new Date(msg.createdAt) >= new Date(latest.createdAt) ? msg : latest, undefined);
+
+  let current = newest;
+  const visited = new Set<string>();
+  while (current?.parentId && byId.has(current.parentId) && !visited.has(current.id)) {
+    visited.add(current.id);
+    current = byId.get(current.parentId);
+  }
+  return current;
+}
+
+/**
+ * The conversation along the selected branches. Where no branch was selected
+ * the newest sibling is followed.
+ */
+export function getActivePath(chat: Pick<Chat, 'messages' | 'activeBranches'>): Message[] {
+  const messages = withParentIds(chat.messages || []);
+  const childrenByParent = new Map<string, Message[]>();
+
+  for (const message of messages) {
+    const key = getBranchKey(message.parentId);
+    childrenByParent.set(key, [...(childrenByParent.get(key) || []), message]);
+  }
+
+  const path: Message[] = [];
+  const visited = new Set<string>();
+  let key = ROOT_BRANCH_KEY;
+
+  // Older messages aren't loaded, start below the oldest loaded one
+  if (!childrenByParent.has(ROOT_BRANCH_KEY) && messages.length > 0) {
+    const start = getPartialPathStart(messages, chat.activeBranches);
+    if (!start) return path;
+
+    path.push(start);
+    visited.add(start.id);
+    key = start.id;
+  }
+
+  while (childrenByParent.has(key)) {
+    const children = childrenByParent.get(key)!;
+    const selectedId = chat.activeBranches?.[key];
+    const next = children.find(msg => msg.id === selectedId)
+      || children.reduce((newest, msg) => new Date(msg.createdAt) >= new Date(newest.createdAt) ? msg : newest);
+
+    // Guard against cycles in corrupted data
+    if (visited.has(next.id)) break;
+    visited.add(next.id);
+
+    path.push(next);
+    key = next.id;
+  }
+
+  return path;
+}
+
+/**
+ * Messages from the root down to (and including) a message
+ */
+export function getPathTo(messages: Message[], messageId: string): Message[] {
+  const byId = new Map(withParentIds(messages).map(msg => [msg.id, msg]));
+  const path: Message[] = [];
+  let current = byId.get(messageId);
+
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  return path;
+}
+
+/**
+ * Siblings of a message and its position among them
+ */
+export function getSiblingInfo(messages: Message[], messageId: string): SiblingInfo {
+  const message = withParentIds(messages).find(msg => msg.id === messageId);
+  const siblings = message ? getChildren(messages, message.parentId || null) : [];
+
+  return {
+    siblings,
+    index: Math.max(0, siblings.findIndex(msg => msg.id === messageId)),
+    count: siblings.length
+  };
+}
+
+/**
+ * Siblings and position of every message, built in one pass for looking up
+ * many messages at once
+ */
+export function getSiblingMap(messages: Message[]): Map<string, SiblingInfo> {
+  const childrenByParent = new Map<string, Message[]>();
+  for (const message of withParentIds(messages)) {
+    const key = getBranchKey(message.parentId);
+    const children = childrenByParent.get(key);
+    if (children) {
+      children.push(message);
+    } else {
+      childrenByParent.set(key, [message]);
+    }
+  }
+
+  const siblingMap = new Map<string, SiblingInfo>();
+  childrenByParent.forEach(siblings => {
+    siblings.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+    siblings.forEach((message, index) => {
+      siblingMap.set(message.id, { siblings, index, count: siblings.length });
+    });
+  });
+  return siblingMap;
+}
+
+/**
+ * Branch selection that makes a message part of the active path
+ */
+export function selectBranch(chat: Pick<Chat, 'messages' | 'activeBranches'>, messageId: string): Record<string, string> {
+  const path = getPathTo(chat.messages, messageId);
+  if (path.length === 0) return chat.activeBranches || {};
+
+  // Select every branch on the way, the message may be below an unselected one
+  const activeBranches = { ...chat.activeBranches };
+  for (const message of path) {
+    activeBranches[getBranchKey(message.parentId)] = message.id;
+  }
+  return activeBranches;
+}
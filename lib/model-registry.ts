@@ -0,0 +1,289 @@
+/**
+ * Model registry
+ * Describes every selectable model (context window, output limit, supported
+ * features and pricing) and keeps the live model lists fetched from each
+ * provider with the user's API key
+ */
+
+import { AI_MODELS, AIModel, ModelInfo } from './types';
+import { storage } from './storage';
+import { ProviderId, getLiveModelId, getProvider, parseLiveModelId } from './providers';
+import { customProviderStorage, parseCustomModelId } from './custom-providers';
+import { LOCAL_PROVIDER_ID, parseLocalModelId } from './local-models';
+
+const PROVIDER_MODELS_STORAGE_KEY = 'provider-models';
+
+// Models in the provider lists that can't be used for chat
+const NON_CHAT_MODEL_PATTERN = /(embed|audio|realtime|tts|transcribe|image|moderation)/;
+
+/**
+ * Providers whose model list can be fetched with an API key
+ */
+export const LIVE_MODEL_PROVIDERS: ProviderId[] = ['openai', 'anthropic', 'gemini'];
+
+/**
+ * Model list fetched from a provider
+ */
+export type ProviderModelList = {
+  models: string[];
+  updatedAt: Date;
+};
+
+type ModelDefaults = Omit<ModelInfo, 'id' | 'name' | 'category' | 'upstreamId'>;
+
+/**
+ * Metadata assumed for models that aren't in the built-in list.
+ * Self-hosted models get conservative limits since their configuration is unknown.
+ */
+const MODEL_DEFAULTS: Record<string, ModelDefaults> = {
+  openai: {
+    icon: 'sparkles',
+    contextWindow: 128000,
+    maxOutputTokens: 16384,
+    supportsVision: true,
+    supportsTools: true,
+    supportsReasoning: false
+  },
+  anthropic: {
+    icon: 'bot',
+    contextWindow: 200000,
+    maxOutputTokens: 8192,
+    supportsVision: true,
+    supportsTools: true,
+    supportsReasoning: false
+  },
+  gemini: {
+    icon: 'atom',
+    contextWindow: 1048576,
+    maxOutputTokens: 8192,
+    supportsVision: true,
+    supportsTools: true,
+    supportsReasoning: false
+  },
+  custom: {
+    icon: 'server',
+    contextWindow: 8192,
+    maxOutputTokens: 4096,
+    supportsVision: false,
+    supportsTools: false,
+    supportsReasoning: false
+  },
+  [LOCAL_PROVIDER_ID]: {
+    icon: 'cpu',
+    contextWindow: 8192,
+    maxOutputTokens: 4096,
+    supportsVision: false,
+    supportsTools: false,
+    supportsReasoning: false
+  }
+};
+
+/**
+ * USD per million tokens of the models the providers list, by upstream name.
+ * A model without an exact entry uses the longest entry its name starts with,
+ * so dated snapshots (e.g. gpt-4o-2024-08-06) get the price of their family.
+ */
+export const MODEL_PRICES: Record<string, NonNullable<ModelInfo['pricing']>> = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.5-preview': { input: 75, output: 150 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'o1': { input: 15, output: 60 },
+  'o1-mini': { input: 1.1, output: 4.4 },
+  'o3': { input: 2, output: 8 },
+  'o3-mini': { input: 1.1, output: 4.4 },
+  'o4-mini': { input: 1.1, output: 4.4 },
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-2.0-flash-lite': { input: 0.075, output: 0.3 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 }
+};
+
+/**
+ * Price of a model from the price table
+ */
+function findModelPrice(upstreamId: string): ModelInfo['pricing'] {
+  const name = upstreamId.replace(/^models\//, '');
+  const match = Object.keys(MODEL_PRICES)
+    .filter(prefix => name === prefix || name.startsWith(`${prefix}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? MODEL_PRICES[match] : undefined;
+}
+
+/**
+ * Build the registry entry for a model that isn't in the built-in list.
+ * Models that share an upstream name with a built-in model inherit its metadata.
+ */
+export function createModelInfo(
+  id: AIModel,
+  name: string,
+  providerId: string,
+  upstreamId: string
+): ModelInfo {
+  const defaults = MODEL_DEFAULTS[providerId] || MODEL_DEFAULTS.custom;
+  const builtIn = AI_MODELS.find(m => m.category === providerId && m.upstreamId === upstreamId && !m.supportsReasoning);
+
+  // Self-hosted models have no per-token price
+  const isHosted = LIVE_MODEL_PROVIDERS.includes(providerId as ProviderId);
+
+  return {
+    ...defaults,
+    ...builtIn,
+    id,
+    name,
+    category: providerId,
+    upstreamId,
+    pricing: builtIn?.pricing ?? (isHosted ? findModelPrice(upstreamId) : undefined)
+  };
+}
+
+/**
+ * Registry entry for a model ID, falling back to the provider defaults for
+ * models we know nothing about
+ */
+export function getModelInfo(model: string): ModelInfo {
+  const builtIn = AI_MODELS.find(m => m.id === model);
+  if (builtIn) return builtIn;
+
+  const custom = parseCustomModelId(model);
+  if (custom) {
+    const config = customProviderStorage.getConfigForModel(model);
+    return createModelInfo(model as AIModel, custom.modelName, config?.id || custom.providerId, custom.modelName);
+  }
+
+  const localName = parseLocalModelId(model);
+  if (localName !== null) {
+    return createModelInfo(model as AIModel, localName, LOCAL_PROVIDER_ID, localName);
+  }
+
+  const live = parseLiveModelId(model);
+  if (live) {
+    return createModelInfo(model as AIModel, live.upstreamId, live.providerId, live.upstreamId);
+  }
+
+  return createModelInfo(model as AIModel, model, 'openai', model);
+}
+
+/**
+ * Cost in USD of a request, null when the model's price is unknown.
+ * Local models are free.
+ */
+export function estimateCost(model: string, promptTokens: number, completionTokens: number): number | null {
+  const info = getModelInfo(model);
+  if (info.category === LOCAL_PROVIDER_ID) return 0;
+  if (!info.pricing) return null;
+
+  return (promptTokens * info.pricing.input + completionTokens * info.pricing.output) / 1000000;
+}
+
+/**
+ * Format a token count for display, e.g. 128000 -> "128K"
+ */
+export function formatTokenCount(tokens: number): string {
+  if (tokens >= 1000000) return `${Math.round(tokens / 100000) / 10}M`;
+  if (tokens >= 1000) return `${Math.round(tokens / 1000)}K`;
+  return tokens.toString();
+}
+
+/**
+ * One-line summary of a model's limits, features and pricing
+ */
+export function describeModel(model: ModelInfo): string {
+  const features = [
+    model.supportsVision && 'vision',
+    model.supportsTools && 'tools',
+    model.supportsReasoning && 'reasoning'
+  ].filter(Boolean);
+
+  const parts = [
+    `${formatTokenCount(model.contextWindow)} context`,
+    `${formatTokenCount(model.maxOutputTokens)} output`
+  ];
+  if (features.length > 0) parts.push(features.join(', '));
+  if (model.pricing) parts.push(`$${model.pricing.input}/$${model.pricing.output} per 1M tokens`);
+
+  return parts.join(' · ');
+}
+
+/**
+ * Utility for the live model lists fetched from each provider
+ */
+export const modelRegistryStorage = {
+  /**
+   * Get every stored model list keyed by provider ID
+   */
+  getAllProviderModels: (): Record<string, ProviderModelList> => {
+    return storage.get<Record<string, ProviderModelList>>(PROVIDER_MODELS_STORAGE_KEY, {});
+  },
+
+  /**
+   * Get the stored model list of a provider
+   */
+  getProviderModels: (providerId: string): ProviderModelList | null => {
+    return modelRegistryStorage.getAllProviderModels()[providerId] || null;
+  },
+
+  /**
+   * Store the model list of a provider
+   */
+  setProviderModels: (providerId: string, models: string[]): void => {
+    const lists = modelRegistryStorage.getAllProviderModels();
+    lists[providerId] = { models, updatedAt: new Date() };
+    storage.set(PROVIDER_MODELS_STORAGE_KEY, lists);
+  },
+
+  /**
+   * Forget the model list of a provider
+   */
+  removeProviderModels: (providerId: string): void => {
+    const lists = modelRegistryStorage.getAllProviderModels();
+    delete lists[providerId];
+    storage.set(PROVIDER_MODELS_STORAGE_KEY, lists);
+  },
+
+  /**
+   * Registry entries for the stored live models that aren't built in
+   */
+  getLiveModels: (): ModelInfo[] => {
+    const lists = modelRegistryStorage.getAllProviderModels();
+
+    return LIVE_MODEL_PROVIDERS.flatMap(providerId =>
+      (lists[providerId]?.models || [])
+        .filter(upstreamId => !AI_MODELS.some(m => m.category === providerId && m.upstreamId === upstreamId))
+        .map(upstreamId => createModelInfo(getLiveModelId(providerId, upstreamId), upstreamId, providerId, upstreamId))
+    );
+  }
+};
+
+/**
+ * Fetch the chat models available to an API key and store the list
+ */
+export async function fetchProviderModels(providerId: ProviderId, apiKey: string): Promise<string[]> {
+  const adapter = getProvider(providerId);
+  if (!adapter) {
+    throw new Error(`Unknown provider: ${providerId}`);
+  }
+
+  // Model lists also contain embedding, audio and image models
+  const models = (await adapter.listModels(apiKey))
+    .filter(model => adapter.matchesModel(model) && !NON_CHAT_MODEL_PATTERN.test(model))
+    .sort();
+
+  modelRegistryStorage.setProviderModels(providerId, models);
+  return models;
+}
+
+export default modelRegistryStorage;
@@ -0,0 +1,179 @@
+/**
+ * Anthropic provider adapter
+ * Uses the Messages API with server-sent event streaming
+ */
+
+import { AI_MODELS } from '../types';
+import { KeyVerification, ProviderAdapter, StreamChunk } from './types';
+import { parseJSON, resolveModelId, toConversationTurns, toProviderError } from './utils';
+
+const ANTHROPIC_API_BASE = 'https://api.anthropic.com/v1';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+// Budget for extended thinking on the reasoning variant (Anthropic minimum is 1024)
+const ANTHROPIC_THINKING_BUDGET = 1024;
+
+// Models that are sent with extended thinking enabled
+const REASONING_MODELS = ['claude-3-sonnet-reasoning'];
+
+export const anthropicProvider: ProviderAdapter = {
+  id: 'anthropic',
+  name: 'Anthropic',
+  requiresApiKey: true,
+  // Anthropic rejects CORS requests unless the caller opts in explicitly
+  browserHeaders: {
+    'anthropic-dangerous-direct-browser-access': 'true',
+  },
+  capabilities: {
+    systemPrompt: true,
+    topK: false,
+    penalties: false,
+    safetySettings: false,
+    reasoning: true,
+  },
+
+  matchesModel: (model) => model.startsWith('claude-'),
+
+  resolveModel: (model) => resolveModelId('anthropic', model),
+
+  buildRequest: ({ apiKey, model, messages, settings }) => {
+    const { system, turns } = toConversationTurns(messages, settings.systemPrompt);
+    const reasoning = REASONING_MODELS.includes(model);
+
+    // Thinking counts toward max_tokens; past the model's output limit it comes out of the answer
+    const outputLimit = AI_MODELS.find(m => m.id === model)?.maxOutputTokens ?? Infinity;
+    const maxTokens = reasoning
+      ? Math.min(settings.maxTokens + ANTHROPIC_THINKING_BUDGET, outputLimit)
+      : settings.maxTokens;
+
+    return {
+      url: `${ANTHROPIC_API_BASE}/messages`,
+      init: {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': apiKey,
+          'anthropic-version': ANTHROPIC_VERSION,
+        },
+        // Extended thinking requires the default temperature and a token budget
+        // on top of the visible answer
+        body: JSON.stringify({
+          model: anthropicProvider.resolveModel(model),
+          messages: turns,
+          ...(system ? { system } : {}),
+          max_tokens: maxTokens,
+          ...(reasoning
+            ? { thinking: { type: 'enabled', budget_tokens: ANTHROPIC_THINKING_BUDGET } }
+            : { temperature: settings.temperature, top_p: settings.topP }),
+          stream: true,
+        }),
+      },
+    };
+  },
+
+  parseStreamEvent: ({ event: eventType, data }) => {
+    const event = parseJSON(data);
+    if (!event) return [];
+
+    // Anthropic names every event, the payload repeats the name as its type
+    switch (eventType === 'message' ? event.type : eventType) {
+      case 'error':
+        return [{ type: 'error', value: event.error?.message || 'Error in stream processing' }];
+
+      // Input tokens are known at the start, output tokens are counted in message_delta
+      case 'message_start':
+        return event.message?.usage
+          ? [{
+              type: 'usage',
+              value: { promptTokens: event.message.usage.input_tokens, completionTokens: event.message.usage.output_tokens }
+            }]
+          : [];
+
+      case 'content_block_start':
+        if (event.content_block?.type === 'tool_use') {
+          return [{
+            type: 'tool_call',
+            value: { index: event.index, id: event.content_block.id, name: event.content_block.name, arguments: '' }
+          }];
+        }
+        return [];
+
+      case 'content_block_delta':
+        if (event.delta?.type === 'thinking_delta' && event.delta.thinking) {
+          return [{ type: 'reasoning', value: event.delta.thinking }];
+        }
+        if (event.delta?.type === 'text_delta' && event.delta.text) {
+          return [{ type: 'text', value: event.delta.text }];
+        }
+        if (event.delta?.type === 'input_json_delta' && event.delta.partial_json) {
+          return [{ type: 'tool_call', value: { index: event.index, arguments: event.delta.partial_json } }];
+        }
+        return [];
+
+      case 'message_delta': {
+        const chunks: StreamChunk[] = [];
+        if (event.usage?.output_tokens !== undefined) {
+          chunks.push({ type: 'usage', value: { completionTokens: event.usage.output_tokens } });
+        }
+        if (event.delta?.stop_reason) {
+          chunks.push({ type: 'done', value: { finishReason: event.delta.stop_reason } });
+        }
+        return chunks;
+      }
+
+      default:
+        return [];
+    }
+  },
+
+  normalizeError: (status, body: any, model) => {
+    // Anthropic reports the error kind in the body as well as the HTTP status
+    const errorType: string = body?.error?.type || '';
+    const upstreamModel = anthropicProvider.resolveModel(model);
+
+    let normalizedStatus = status;
+    if (errorType === 'authentication_error' || errorType === 'permission_error' || status === 403) {
+      normalizedStatus = 401;
+    } else if (errorType === 'rate_limit_error' || errorType === 'overloaded_error' || status === 529) {
+      normalizedStatus = 429;
+    } else if (errorType === 'not_found_error') {
+      normalizedStatus = 404;
+    } else if (errorType === 'invalid_request_error') {
+      normalizedStatus = 400;
+    }
+
+    return toProviderError(normalizedStatus, body?.error?.message || '', upstreamModel);
+  },
+
+  listModels: async (apiKey) => {
+    const response = await fetch(`${ANTHROPIC_API_BASE}/models`, {
+      headers: {
+        'x-api-key': apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+        ...anthropicProvider.browserHeaders,
+      },
+    });
+    if (!response.ok) {
+      throw new Error(anthropicProvider.normalizeError(response.status, await response.json().catch(() => null), '').message);
+    }
+    const body = await response.json();
+    return (body.data || []).map((model: { id: string }) => model.id);
+  },
+
+  verifyKey: async (apiKey): Promise<KeyVerification> => {
+    const response = await fetch(`${ANTHROPIC_API_BASE}/models?limit=1`, {
+      headers: {
+        'x-api-key': apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+        ...anthropicProvider.browserHeaders,
+      },
+    });
+    if (!response.ok) {
+      return { valid: false, error: anthropicProvider.normalizeError(response.status, await response.json().catch(() => null), '') };
+    }
+    // Only readable when the header is exposed to browsers
+    return { valid: true, account: response.headers.get('anthropic-organization-id') || undefined };
+  },
+};
+
+export default anthropicProvider;
@@ -0,0 +1,186 @@
+/**
+ * Google Gemini provider adapter
+ * Calls the Generative Language REST API directly because the installed SDK
+ * predates system instructions and the civic integrity harm category
+ */
+
+import { ModelSettings } from '../types';
+import { KeyVerification, ProviderAdapter, StreamChunk } from './types';
+import { parseJSON, resolveModelId, toConversationTurns, toProviderError } from './utils';
+
+const GEMINI_API_BASE = 'https://generativelanguage.googleapis.com/v1beta';
+
+type SafetySettings = ModelSettings['safetySettings'];
+type SafetyLevel = SafetySettings[keyof SafetySettings];
+
+// Safety settings from the model settings dialog mapped to Gemini harm categories
+const GEMINI_HARM_CATEGORIES: Record<keyof SafetySettings, string> = {
+  harassment: 'HARM_CATEGORY_HARASSMENT',
+  hateSpeech: 'HARM_CATEGORY_HATE_SPEECH',
+  sexuallyExplicit: 'HARM_CATEGORY_SEXUALLY_EXPLICIT',
+  dangerous: 'HARM_CATEGORY_DANGEROUS_CONTENT',
+  civicIntegrity: 'HARM_CATEGORY_CIVIC_INTEGRITY',
+};
+
+// "Block none" ... "Block most" mapped to Gemini block thresholds
+const GEMINI_BLOCK_THRESHOLDS: Record<SafetyLevel, string> = {
+  none: 'BLOCK_NONE',
+  few: 'BLOCK_ONLY_HIGH',
+  some: 'BLOCK_MEDIUM_AND_ABOVE',
+  most: 'BLOCK_LOW_AND_ABOVE',
+};
+
+/**
+ * Translate our safety settings into Gemini safety settings
+ */
+export function toGeminiSafetySettings(safetySettings?: Partial<SafetySettings>) {
+  if (!safetySettings) return undefined;
+
+  return (Object.keys(GEMINI_HARM_CATEGORIES) as (keyof SafetySettings)[])
+    .filter(key => safetySettings[key] && GEMINI_BLOCK_THRESHOLDS[safetySettings[key]!])
+    .map(key => ({
+      category: GEMINI_HARM_CATEGORIES[key],
+      threshold: GEMINI_BLOCK_THRESHOLDS[safetySettings[key]!]
+    }));
+}
+
+export const geminiProvider: ProviderAdapter = {
+  id: 'gemini',
+  name: 'Google',
+  requiresApiKey: true,
+  capabilities: {
+    systemPrompt: true,
+    topK: true,
+    penalties: false,
+    safetySettings: true,
+    reasoning: false,
+  },
+
+  matchesModel: (model) => model.startsWith('gemini-'),
+
+  resolveModel: (model) => resolveModelId('gemini', model),
+
+  buildRequest: ({ apiKey, model, messages, settings }) => {
+    const { system, turns } = toConversationTurns(messages, settings.systemPrompt);
+    const topK = settings.topK ?? 0;
+
+    return {
+      url: `${GEMINI_API_BASE}/models/${encodeURIComponent(geminiProvider.resolveModel(model))}:streamGenerateContent?alt=sse`,
+      init: {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-goog-api-key': apiKey,
+        },
+        body: JSON.stringify({
+          contents: turns.map(turn => ({
+            role: turn.role === 'assistant' ? 'model' : 'user',
+            parts: [{ text: turn.content }]
+          })),
+          ...(system ? { systemInstruction: { parts: [{ text: system }] } } : {}),
+          generationConfig: {
+            temperature: settings.temperature,
+            maxOutputTokens: settings.maxTokens,
+            topP: settings.topP,
+            // A top K of 0 disables top-k sampling
+            ...(topK > 0 ? { topK } : {})
+          },
+          safetySettings: toGeminiSafetySettings(settings.safetySettings),
+        }),
+      },
+    };
+  },
+
+  parseStreamEvent: ({ data }) => {
+    const event = parseJSON(data);
+    if (!event) return [];
+
+    if (event.error) {
+      return [{ type: 'error', value: event.error.message || 'Error in stream processing' }];
+    }
+
+    if (event.promptFeedback?.blockReason) {
+      return [{ type: 'error', value: `Prompt blocked by Gemini safety settings (${event.promptFeedback.blockReason})` }];
+    }
+
+    const chunks: StreamChunk[] = [];
+    const candidate = event.candidates?.[0];
+    const parts: { text?: string; functionCall?: { name: string; args?: unknown } }[] = candidate?.content?.parts || [];
+    const text = parts.map(part => part.text || '').join('');
+
+    if (text) {
+      chunks.push({ type: 'text', value: text });
+    }
+
+    // Gemini sends each function call whole instead of in pieces
+    parts.forEach((part, index) => {
+      if (part.functionCall) {
+        chunks.push({
+          type: 'tool_call',
+          value: { index, name: part.functionCall.name, arguments: JSON.stringify(part.functionCall.args ?? {}) }
+        });
+      }
+    });
+
+    // Every chunk carries the usage so far
+    if (event.usageMetadata) {
+      chunks.push({
+        type: 'usage',
+        value: {
+          promptTokens: event.usageMetadata.promptTokenCount,
+          completionTokens: event.usageMetadata.candidatesTokenCount
+        }
+      });
+    }
+
+    if (candidate?.finishReason === 'SAFETY') {
+      chunks.push({ type: 'error', value: 'Response blocked by Gemini safety settings' });
+    } else if (candidate?.finishReason) {
+      chunks.push({ type: 'done', value: { finishReason: candidate.finishReason } });
+    }
+    return chunks;
+  },
+
+  normalizeError: (status, body: any, model) => {
+    const upstreamMessage: string = body?.error?.message || '';
+    const upstreamStatus: string = body?.error?.status || '';
+    const upstreamModel = geminiProvider.resolveModel(model);
+
+    // Gemini reports an invalid key as a 400 INVALID_ARGUMENT
+    let normalizedStatus = status;
+    if (status === 403 || upstreamStatus === 'UNAUTHENTICATED' || upstreamStatus === 'PERMISSION_DENIED' ||
+        upstreamMessage.includes('API key not valid')) {
+      normalizedStatus = 401;
+    } else if (upstreamStatus === 'RESOURCE_EXHAUSTED') {
+      normalizedStatus = 429;
+    } else if (upstreamStatus === 'NOT_FOUND') {
+      normalizedStatus = 404;
+    }
+
+    return toProviderError(normalizedStatus, upstreamMessage, upstreamModel);
+  },
+
+  listModels: async (apiKey) => {
+    const response = await fetch(`${GEMINI_API_BASE}/models`, {
+      headers: { 'x-goog-api-key': apiKey },
+    });
+    if (!response.ok) {
+      throw new Error(geminiProvider.normalizeError(response.status, await response.json().catch(() => null), '').message);
+    }
+    const body = await response.json();
+    return (body.models || []).map((model: { name: string }) => model.name.replace(/^models\//, ''));
+  },
+
+  // Gemini keys carry no account information
+  verifyKey: async (apiKey): Promise<KeyVerification> => {
+    const response = await fetch(`${GEMINI_API_BASE}/models?pageSize=1`, {
+      headers: { 'x-goog-api-key': apiKey },
+    });
+    if (!response.ok) {
+      return { valid: false, error: geminiProvider.normalizeError(response.status, await response.json().catch(() => null), '') };
+    }
+    return { valid: true };
+  },
+};
+
+export default geminiProvider;
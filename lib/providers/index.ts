@@ -0,0 +1,106 @@
+/**
+ * Provider registry
+ * Single place that maps model IDs to the adapter of the provider serving them
+ */
+
+import { AI_MODELS } from '../types';
+import { CustomProviderConfig, customProviderStorage, parseCustomModelId } from '../custom-providers';
+import { LOCAL_PROVIDER_ID, getLocalServerUrl, localModelStorage, parseLocalModelId } from '../local-models';
+import { createOpenAICompatibleProvider, openaiProvider } from './openai';
+import { anthropicProvider } from './anthropic';
+import { geminiProvider } from './gemini';
+import { ProviderAdapter } from './types';
+import { parseLiveModelId } from './utils';
+
+export * from './types';
+export { openProviderStream, readChatStream, toEventStream } from './stream';
+export { getLiveModelId, parseLiveModelId } from './utils';
+
+const providers = new Map<string, ProviderAdapter>();
+
+/**
+ * Register a provider adapter, replacing any adapter with the same ID
+ */
+export function registerProvider(adapter: ProviderAdapter): void {
+  providers.set(adapter.id, adapter);
+}
+
+/**
+ * Get a provider adapter by ID
+ */
+export function getProvider(id: string): ProviderAdapter | undefined {
+  return providers.get(id);
+}
+
+/**
+ * Get all registered provider adapters
+ */
+export function getProviders(): ProviderAdapter[] {
+  return Array.from(providers.values());
+}
+
+/**
+ * Create the adapter for a user-defined OpenAI-compatible endpoint
+ */
+export function createCustomProvider(config: CustomProviderConfig): ProviderAdapter {
+  return createOpenAICompatibleProvider({
+    id: config.id,
+    name: config.name,
+    baseUrl: config.baseUrl,
+    headers: config.headers,
+    // Self-hosted gateways often run without authentication
+    requiresApiKey: false,
+    matchesModel: (model) => parseCustomModelId(model)?.providerId === config.id,
+    resolveModel: (model) => parseCustomModelId(model)?.modelName || model,
+  });
+}
+
+/**
+ * Create the adapter for a local Ollama or LM Studio server, both of which
+ * serve the OpenAI Chat Completions API under `/v1`
+ */
+export function createLocalProvider(baseUrl: string): ProviderAdapter {
+  return createOpenAICompatibleProvider({
+    id: LOCAL_PROVIDER_ID,
+    name: 'Local',
+    baseUrl: `${getLocalServerUrl(baseUrl)}/v1`,
+    requiresApiKey: false,
+    matchesModel: (model) => parseLocalModelId(model) !== null,
+    resolveModel: (model) => parseLocalModelId(model) || model,
+  });
+}
+
+/**
+ * Get the adapter for the provider serving a model.
+ * Custom endpoint and local models are resolved from their stored settings, live
+ * models from their provider prefix, models from the model list use their category,
+ * other model names are matched by each adapter and anything unknown falls back to OpenAI.
+ */
+export function getProviderForModel(model: string): ProviderAdapter {
+  const custom = parseCustomModelId(model);
+  if (custom) {
+    const registered = providers.get(custom.providerId);
+    if (registered) return registered;
+
+    const config = customProviderStorage.getConfigForModel(model);
+    if (config) return createCustomProvider(config);
+  }
+
+  if (parseLocalModelId(model) !== null) {
+    return createLocalProvider(localModelStorage.getConfig().baseUrl);
+  }
+
+  const live = parseLiveModelId(model);
+  const byPrefix = live ? providers.get(live.providerId) : undefined;
+  if (byPrefix) return byPrefix;
+
+  const config = AI_MODELS.find(m => m.id === model);
+  const byCategory = config ? providers.get(config.category) : undefined;
+  if (byCategory) return byCategory;
+
+  return getProviders().find(adapter => adapter.matchesModel(model)) || openaiProvider;
+}
+
+registerProvider(openaiProvider);
+registerProvider(anthropicProvider);
+registerProvider(geminiProvider);
@@ -0,0 +1,159 @@
+/**
+ * OpenAI provider adapter
+ * Uses the Chat Completions API with server-sent event streaming. The same
+ * adapter serves any OpenAI-compatible endpoint (vLLM, LiteLLM, ...)
+ */
+
+import { KeyVerification, ProviderAdapter, StreamChunk } from './types';
+import { parseJSON, resolveModelId, toProviderError, withSystemPrompt } from './utils';
+
+const OPENAI_API_BASE = 'https://api.openai.com/v1';
+
+/**
+ * Options for an OpenAI-compatible adapter
+ */
+export interface OpenAICompatibleOptions {
+  id: string;
+  name: string;
+  baseUrl: string;
+  headers?: Record<string, string>;
+  requiresApiKey?: boolean;
+  matchesModel: (model: string) => boolean;
+  resolveModel: (model: string) => string;
+}
+
+/**
+ * Create an adapter for an endpoint that speaks the OpenAI Chat Completions API
+ */
+export function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): ProviderAdapter {
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+
+  // Only send an Authorization header when there is a key, keyless
+  // gateways may reject an empty bearer token
+  const getHeaders = (apiKey: string): Record<string, string> => ({
+    ...(options.headers || {}),
+    ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+  });
+
+  const adapter: ProviderAdapter = {
+    id: options.id,
+    name: options.name,
+    requiresApiKey: options.requiresApiKey ?? true,
+    capabilities: {
+      systemPrompt: true,
+      topK: false,
+      penalties: true,
+      safetySettings: false,
+      reasoning: false,
+    },
+
+    matchesModel: options.matchesModel,
+
+    resolveModel: options.resolveModel,
+
+    buildRequest: ({ apiKey, model, messages, settings }) => ({
+      url: `${baseUrl}/chat/completions`,
+      init: {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...getHeaders(apiKey),
+        },
+        body: JSON.stringify({
+          model: adapter.resolveModel(model),
+          messages: withSystemPrompt(messages, settings.systemPrompt).map(msg => ({
+            role: msg.role,
+            content: msg.content
+          })),
+          temperature: settings.temperature,
+          max_tokens: settings.maxTokens,
+          top_p: settings.topP,
+          frequency_penalty: settings.frequencyPenalty,
+          presence_penalty: settings.presencePenalty,
+          stream: true,
+          // Adds a last chunk with the token usage of the request
+          stream_options: { include_usage: true },
+        }),
+      },
+    }),
+
+    parseStreamEvent: ({ data }) => {
+      // The transport sends its own done event when the stream ends
+      if (data === '[DONE]') return [];
+
+      const event = parseJSON(data);
+      if (!event) return [];
+
+      if (event.error) {
+        return [{ type: 'error', value: event.error.message || 'Error in stream processing' }];
+      }
+
+      const chunks: StreamChunk[] = [];
+      const choice = event.choices?.[0];
+
+      if (choice?.delta?.content) {
+        chunks.push({ type: 'text', value: choice.delta.content });
+      }
+      for (const toolCall of choice?.delta?.tool_calls || []) {
+        chunks.push({
+          type: 'tool_call',
+          value: {
+            index: toolCall.index ?? 0,
+            id: toolCall.id,
+            name: toolCall.function?.name,
+            arguments: toolCall.function?.arguments || ''
+          }
+        });
+      }
+      if (event.usage) {
+        chunks.push({
+          type: 'usage',
+          value: { promptTokens: event.usage.prompt_tokens, completionTokens: event.usage.completion_tokens }
+        });
+      }
+      if (choice?.finish_reason) {
+        chunks.push({ type: 'done', value: { finishReason: choice.finish_reason } });
+      }
+      return chunks;
+    },
+
+    normalizeError: (status, body: any, model) => {
+      const upstreamModel = adapter.resolveModel(model);
+      return toProviderError(status, body?.error?.message || '', upstreamModel);
+    },
+
+    listModels: async (apiKey) => {
+      const response = await fetch(`${baseUrl}/models`, {
+        headers: getHeaders(apiKey),
+      });
+      if (!response.ok) {
+        throw new Error(adapter.normalizeError(response.status, await response.json().catch(() => null), '').message);
+      }
+      const body = await response.json();
+      return (body.data || []).map((model: { id: string }) => model.id);
+    },
+
+    verifyKey: async (apiKey): Promise<KeyVerification> => {
+      const response = await fetch(`${baseUrl}/models`, {
+        headers: getHeaders(apiKey),
+      });
+      if (!response.ok) {
+        return { valid: false, error: adapter.normalizeError(response.status, await response.json().catch(() => null), '') };
+      }
+      // Only readable when the endpoint exposes the header to browsers
+      return { valid: true, account: response.headers.get('openai-organization') || undefined };
+    },
+  };
+
+  return adapter;
+}
+
+export const openaiProvider = createOpenAICompatibleProvider({
+  id: 'openai',
+  name: 'OpenAI',
+  baseUrl: OPENAI_API_BASE,
+  matchesModel: (model) => /^(gpt-|o\d|chatgpt-)/.test(model),
+  resolveModel: (model) => resolveModelId('openai', model),
+});
+
+export default openaiProvider;
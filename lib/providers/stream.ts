@@ -0,0 +1,141 @@
+/**
+ * Streaming transport shared by all provider adapters
+ * Sends the adapter's request and turns the provider's event stream into
+ * provider-neutral chunks
+ */
+
+import { encodeServerSentEvent, readServerSentEvents } from '../sse';
+import { ChatRequestOptions, ProviderAdapter, ProviderError, StreamChunk, TokenUsage } from './types';
+
+export type ProviderStreamResult =
+  | { ok: true; chunks: AsyncGenerator<StreamChunk> }
+  | { ok: false; error: ProviderError };
+
+/**
+ * Start a streaming chat request against a provider
+ */
+export async function openProviderStream(
+  adapter: ProviderAdapter,
+  options: ChatRequestOptions,
+  signal?: AbortSignal
+): Promise<ProviderStreamResult> {
+  const { url, init } = adapter.buildRequest(options);
+
+  // Requests sent from the browser (direct mode) may need CORS opt-in headers
+  const headers = new Headers(init.headers);
+  if (typeof window !== 'undefined' && adapter.browserHeaders) {
+    for (const [name, value] of Object.entries(adapter.browserHeaders)) {
+      headers.set(name, value);
+    }
+  }
+
+  const response = await fetch(url, { ...init, headers, signal });
+
+  if (!response.ok || !response.body) {
+    const errorBody = await response.json().catch(() => null);
+    console.error(`${adapter.name} API error:`, response.status, errorBody);
+    return { ok: false, error: adapter.normalizeError(response.status, errorBody, options.model) };
+  }
+
+  return { ok: true, chunks: readProviderStream(adapter, response.body) };
+}
+
+/**
+ * Read a provider's event stream and yield parsed chunks
+ */
+async function* readProviderStream(
+  adapter: ProviderAdapter,
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<StreamChunk> {
+  for await (const event of readServerSentEvents(body)) {
+    for (const chunk of adapter.parseStreamEvent(event)) {
+      yield chunk;
+    }
+  }
+}
+
+/**
+ * Copy of the usage without the counts that weren't reported
+ */
+function withoutUndefined(usage: TokenUsage): TokenUsage {
+  return Object.fromEntries(Object.entries(usage).filter(([, count]) => count !== undefined));
+}
+
+/**
+ * Encode one chunk as a server-sent event named after its type
+ */
+function encodeChunk(chunk: StreamChunk): string {
+  return encodeServerSentEvent({ event: chunk.type, data: JSON.stringify(chunk) });
+}
+
+/**
+ * Encode chunks as the server-sent events read by readChatStream. The usage
+ * and finish reasons reported along the way are sent once at the end, as a
+ * usage event followed by the done event.
+ */
+export function toEventStream(chunks: AsyncIterable<StreamChunk>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+
+  return new ReadableStream({
+    async start(controller) {
+      let finishReason: string | undefined;
+      let usage: TokenUsage | null = null;
+
+      try {
+        for await (const chunk of chunks) {
+          if (chunk.type === 'done') {
+            finishReason = chunk.value.finishReason ?? finishReason;
+            continue;
+          }
+          if (chunk.type === 'usage') {
+            usage = { ...(usage ?? {}), ...withoutUndefined(chunk.value) };
+            continue;
+          }
+          controller.enqueue(encoder.encode(encodeChunk(chunk)));
+        }
+
+        if (usage) {
+          controller.enqueue(encoder.encode(encodeChunk({ type: 'usage', value: usage })));
+        }
+        controller.enqueue(encoder.encode(encodeChunk({ type: 'done', value: { finishReason } })));
+        controller.close();
+      } catch (error: any) {
+        // Cancelled by the user, surface it to the reader like an aborted fetch
+        if (error.name === 'AbortError') {
+          controller.error(error);
+          return;
+        }
+
+        console.error('Streaming error:', error);
+
+        const errorChunk: StreamChunk = {
+          type: 'error',
+          value: error.message || 'Error in stream processing'
+        };
+
+        controller.enqueue(encoder.encode(encodeChunk(errorChunk)));
+        controller.close();
+      }
+    }
+  });
+}
+
+/**
+ * Read the chunks of a chat response produced by toEventStream. Stops at
+ * the done event; events that aren't valid chunks are skipped.
+ */
+export async function* readChatStream(body: ReadableStream<Uint8Array>): AsyncGenerator<StreamChunk> {
+  for await (const event of readServerSentEvents(body)) {
+    let chunk: StreamChunk;
+    try {
+      chunk = JSON.parse(event.data);
+    } catch (error) {
+      console.error('Error parsing stream event:', error, 'Data:', event.data);
+      continue;
+    }
+    if (!chunk || typeof chunk.type !== 'string') continue;
+
+    yield chunk;
+    if (chunk.type === 'done') return;
+  }
+}
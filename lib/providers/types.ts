@@ -0,0 +1,164 @@
+/**
+ * Provider adapter types
+ * Every AI provider is described by an adapter that knows how to build a
+ * streaming request, parse the provider's stream and normalize its errors
+ */
+
+import { ServerSentEvent } from '../sse';
+import { ModelSettings } from '../types';
+
+/**
+ * IDs of the built-in providers
+ */
+export type ProviderId = 'openai' | 'anthropic' | 'gemini';
+
+/**
+ * Model settings that are sent along with a chat request
+ */
+export type RequestModelSettings = Pick<
+  ModelSettings,
+  'temperature' | 'topP' | 'frequencyPenalty' | 'presencePenalty' | 'maxTokens' | 'systemPrompt'
+> & Partial<Pick<ModelSettings, 'topK' | 'safetySettings'>>;
+
+/**
+ * A chat message in the provider-neutral request format
+ */
+export type ChatRequestMessage = {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+};
+
+/**
+ * Everything an adapter needs to build a chat request
+ */
+export interface ChatRequestOptions {
+  apiKey: string;
+  /** Internal model ID, e.g. `claude-3-sonnet` */
+  model: string;
+  messages: ChatRequestMessage[];
+  settings: RequestModelSettings;
+}
+
+/**
+ * A ready-to-send HTTP request
+ */
+export interface ProviderRequest {
+  url: string;
+  init: RequestInit;
+}
+
+/**
+ * Part of a tool call requested by the model. Arguments arrive as JSON text
+ * in pieces: a piece with a name starts a call, later pieces without one
+ * continue the latest call with the same index.
+ */
+export type ToolCallDelta = {
+  index: number;
+  id?: string;
+  name?: string;
+  arguments: string;
+};
+
+/**
+ * Token counts reported by the provider. Later reports replace the counts
+ * they include.
+ */
+export type TokenUsage = {
+  promptTokens?: number;
+  completionTokens?: number;
+};
+
+/**
+ * A typed event of a streamed response, in the format sent to the client.
+ * Every provider transport produces these; the client receives the usage
+ * once, just before done, which is sent once at the end.
+ */
+export type StreamChunk =
+  | { type: 'text' | 'reasoning' | 'error'; value: string }
+  | { type: 'tool_call'; value: ToolCallDelta }
+  | { type: 'usage'; value: TokenUsage }
+  | { type: 'done'; value: { finishReason?: string } };
+
+/**
+ * An error reported by a provider, mapped to our status codes and messages
+ */
+export interface ProviderError {
+  status: number;
+  message: string;
+}
+
+/**
+ * Outcome of checking an API key against the provider. The account is the
+ * organization the key belongs to, when the provider reports it.
+ */
+export type KeyVerification =
+  | { valid: true; account?: string }
+  | { valid: false; error: ProviderError };
+
+/**
+ * Which request features a provider supports
+ */
+export interface ProviderCapabilities {
+  systemPrompt: boolean;
+  topK: boolean;
+  penalties: boolean;
+  safetySettings: boolean;
+  reasoning: boolean;
+}
+
+/**
+ * Adapter interface implemented by every provider
+ */
+export interface ProviderAdapter {
+  /** A built-in provider ID, or the ID of a user-defined endpoint */
+  id: ProviderId | string;
+  name: string;
+  capabilities: ProviderCapabilities;
+
+  /**
+   * Whether requests need an API key (self-hosted endpoints may not)
+   */
+  requiresApiKey: boolean;
+
+  /**
+   * Extra headers the provider requires before it accepts requests sent
+   * straight from a browser
+   */
+  browserHeaders?: Record<string, string>;
+
+  /**
+   * Whether the adapter serves a model that is not in the model list
+   */
+  matchesModel: (model: string) => boolean;
+
+  /**
+   * Map an internal model ID to the provider's model name
+   */
+  resolveModel: (model: string) => string;
+
+  /**
+   * Build the streaming chat request for the provider's API
+   */
+  buildRequest: (options: ChatRequestOptions) => ProviderRequest;
+
+  /**
+   * Parse one server-sent event from the provider
+   */
+  parseStreamEvent: (event: ServerSentEvent) => StreamChunk[];
+
+  /**
+   * Map an HTTP error from the provider to our error format
+   */
+  normalizeError: (status: number, body: unknown, model: string) => ProviderError;
+
+  /**
+   * List the model names available to an API key
+   */
+  listModels: (apiKey: string) => Promise<string[]>;
+
+  /**
+   * Check an API key with a cheap authenticated request (the model list).
+   * Rejects when the provider can't be reached.
+   */
+  verifyKey: (apiKey: string) => Promise<KeyVerification>;
+}
@@ -0,0 +1,112 @@
+/**
+ * Helpers shared by the provider adapters
+ */
+
+import { AI_MODELS } from '../types';
+import { ChatRequestMessage, ProviderError, ProviderId } from './types';
+
+/**
+ * Build the ID of a model from a provider's live model list
+ */
+export function getLiveModelId(provider: ProviderId, upstreamId: string): `${ProviderId}/${string}` {
+  return `${provider}/${upstreamId}`;
+}
+
+/**
+ * Split a live model ID into its provider and upstream model name
+ */
+export function parseLiveModelId(model: string): { providerId: ProviderId; upstreamId: string } | null {
+  const match = model.match(/^(openai|anthropic|gemini)\/(.+)$/);
+  return match ? { providerId: match[1] as ProviderId, upstreamId: match[2] } : null;
+}
+
+/**
+ * Look up the upstream model name for an internal model ID
+ */
+export function resolveModelId(provider: ProviderId, model: string): string {
+  const live = parseLiveModelId(model);
+  if (live?.providerId === provider) return live.upstreamId;
+
+  const config = AI_MODELS.find(m => m.id === model && m.category === provider);
+  // If it's not one of our models, assume it's already a valid upstream name
+  return config?.upstreamId || model;
+}
+
+/**
+ * Prepend the system prompt from the model settings unless the conversation
+ * already starts with a system message
+ */
+export function withSystemPrompt(messages: ChatRequestMessage[], systemPrompt: string): ChatRequestMessage[] {
+  if (systemPrompt && messages.length > 0 && messages[0].role !== 'system') {
+    return [{ role: 'system', content: systemPrompt }, ...messages];
+  }
+  return messages;
+}
+
+/**
+ * Split our messages into a system prompt and alternating conversation turns.
+ * System messages are lifted out of the conversation, consecutive messages with
+ * the same role are merged and the conversation is made to start with a user
+ * turn, as required by both the Anthropic and Gemini APIs.
+ */
+export function toConversationTurns(messages: ChatRequestMessage[], systemPrompt: string) {
+  const systemParts: string[] = systemPrompt ? [systemPrompt] : [];
+  const turns: { role: 'user' | 'assistant'; content: string }[] = [];
+
+  for (const msg of messages) {
+    if (msg.role === 'system') {
+      if (msg.content.trim() && !systemParts.includes(msg.content)) {
+        systemParts.push(msg.content);
+      }
+      continue;
+    }
+
+    if (!msg.content.trim()) continue;
+
+    const previous = turns[turns.length - 1];
+    if (previous && previous.role === msg.role) {
+      previous.content = `${previous.content}\n\n${msg.content}`;
+    } else {
+      turns.push({ role: msg.role, content: msg.content });
+    }
+  }
+
+  // The first message must come from the user
+  if (turns.length === 0 || turns[0].role !== 'user') {
+    turns.unshift({ role: 'user', content: 'Hello' });
+  }
+
+  return {
+    system: systemParts.join('\n\n'),
+    turns
+  };
+}
+
+/**
+ * Map an HTTP status to our standard error messages
+ */
+export function toProviderError(status: number, upstreamMessage: string, upstreamModel: string): ProviderError {
+  switch (status) {
+    case 400:
+      return { status: 400, message: `Bad request error: ${upstreamMessage || 'Invalid request parameters'}` };
+    case 401:
+      return { status: 401, message: 'Authentication error: Invalid API key' };
+    case 429:
+      return { status: 429, message: 'Rate limit exceeded: Too many requests' };
+    case 404:
+      return { status: 404, message: `Model not found: ${upstreamModel} is not available or doesn't exist` };
+    default:
+      return { status: 500, message: 'An error occurred while generating the response.' };
+  }
+}
+
+/**
+ * Safely parse a JSON payload, returning null for malformed input
+ */
+export function parseJSON<T = any>(data: string): T | null {
+  try {
+    return JSON.parse(data) as T;
+  } catch {
+    return null;
+  }
+}
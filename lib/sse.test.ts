@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { createSSEDecoder, encodeServerSentEvent, readServerSentEvents } from './sse';
+
+// Feed the text in chunks and collect every event
+function decode(...chunks: string[]) {
+  const decoder = createSSEDecoder();
+  return [...chunks.flatMap(chunk => decoder.push(chunk)), ...decoder.end()];
+}
+
+function streamOf(chunks: Uint8Array[]): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(chunk));
+      controller.close();
+    }
+  });
+}
+
+describe('createSSEDecoder', () => {
+  it('dispatches an event at each blank line', () => {
+    expect(decode('data: one\n\ndata: two\n\n')).toEqual([
+      { event: 'message', data: 'one' },
+      { event: 'message', data: 'two' }
+    ]);
+  });
+
+  it('waits for the rest of a line split across chunks', () => {
+    const decoder = createSSEDecoder();
+    expect(decoder.push('da')).toEqual([]);
+    expect(decoder.push('ta: {"text":"hel')).toEqual([]);
+    expect(decoder.push('lo"}\n')).toEqual([]);
+    expect(decoder.push('\n')).toEqual([{ event: 'message', data: '{"text":"hello"}' }]);
+  });
+
+  it('accepts CRLF and CR line endings, also with a CRLF split across chunks', () => {
+    expect(decode('data: a\r\n\r\ndata: b\r\rdata: c\r', '\n\r\n')).toEqual([
+      { event: 'message', data: 'a' },
+      { event: 'message', data: 'b' },
+      { event: 'message', data: 'c' }
+    ]);
+  });
+
+  it('joins multiple data lines with newlines', () => {
+    expect(decode('data: first\ndata:second\ndata\n\n')).toEqual([
+      { event: 'message', data: 'first\nsecond\n' }
+    ]);
+  });
+
+  it('skips comments and unknown fields', () => {
+    expect(decode(': keep-alive\n\nfoo: bar\ndata: kept\n: inside\n\n')).toEqual([
+      { event: 'message', data: 'kept' }
+    ]);
+  });
+
+  it('keeps the event type, last ID and retry with each event', () => {
+    expect(decode('\uFEFFevent: delta\nid: 1\nretry: 3000\ndata: x\n\ndata: y\n\nretry: soon\nid\ndata: z\n\n')).toEqual([
+      { event: 'delta', data: 'x', id: '1', retry: 3000 },
+      { event: 'message', data: 'y', id: '1' },
+      { event: 'message', data: 'z', id: '' }
+    ]);
+  });
+
+  it('does not dispatch an event without data', () => {
+    expect(decode('event: ping\n\n')).toEqual([]);
+  });
+
+  it('dispatches an event left without a trailing blank line when the stream ends', () => {
+    expect(decode('data: last')).toEqual([{ event: 'message', data: 'last' }]);
+  });
+});
+
+describe('readServerSentEvents', () => {
+  it('keeps multibyte characters split across chunks intact', async () => {
+    const bytes = new TextEncoder().encode('data: héllo 👋\n\n');
+    const events = [];
+    for await (const event of readServerSentEvents(streamOf([bytes.slice(0, 8), bytes.slice(8, 15), bytes.slice(15)]))) {
+      events.push(event);
+    }
+    expect(events).toEqual([{ event: 'message', data: 'héllo 👋' }]);
+  });
+});
+
+describe('encodeServerSentEvent', () => {
+  it('encodes an event the decoder reads back', () => {
+    const event = { event: 'delta', id: '7', data: 'line one\nline two' };
+    expect(encodeServerSentEvent(event)).toBe('event: delta\nid: 7\ndata: line one\ndata: line two\n\n');
+    expect(decode(encodeServerSentEvent(event))).toEqual([event]);
+  });
+});
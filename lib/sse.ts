@@ -0,0 +1,179 @@
+/**
+ * Server-sent events decoder
+ * Parses a text/event-stream following the WHATWG spec: events may be split
+ * across network chunks at any byte, lines end in LF, CRLF or CR, multiple
+ * data lines are joined, comments are skipped and the event, id and retry
+ * fields are kept with each event.
+ */
+
+/**
+ * One dispatched event
+ */
+export type ServerSentEvent = {
+  /** Event type, 'message' when the stream doesn't name one */
+  event: string;
+  data: string;
+  /** Last event ID seen on the stream */
+  id?: string;
+  /** Reconnection time in milliseconds, when the event sets one */
+  retry?: number;
+};
+
+/**
+ * Incremental decoder, fed the stream's text as it arrives
+ */
+export type SSEDecoder = {
+  /** Add decoded text and return the events it completes */
+  push: (text: string) => ServerSentEvent[];
+  /** Finish the stream and return an event left without a trailing blank line */
+  end: () => ServerSentEvent[];
+};
+
+/**
+ * Create a decoder for one event stream
+ */
+export function createSSEDecoder(): SSEDecoder {
+  let buffer = '';
+  let isFirstLine = true;
+  let lastEventId: string | undefined;
+
+  // Fields of the event being read
+  let eventType = '';
+  let dataLines: string[] = [];
+  let retry: number | undefined;
+
+  const dispatch = (events: ServerSentEvent[]) => {
+    if (dataLines.length > 0) {
+      events.push({
+        event: eventType || 'message',
+        data: dataLines.join('\n'),
+        ...(lastEventId !== undefined && { id: lastEventId }),
+        ...(retry !== undefined && { retry })
+      });
+    }
+    eventType = '';
+    dataLines = [];
+    retry = undefined;
+  };
+
+  const processLine = (line: string, events: ServerSentEvent[]) => {
+    if (isFirstLine) {
+      isFirstLine = false;
+      if (line.startsWith('\uFEFF')) line = line.slice(1);
+    }
+
+    if (line === '') {
+      dispatch(events);
+      return;
+    }
+    if (line.startsWith(':')) return;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'event':
+        eventType = value;
+        break;
+      case 'data':
+        dataLines.push(value);
+        break;
+      case 'id':
+        if (!value.includes('\0')) lastEventId = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) retry = parseInt(value, 10);
+        break;
+    }
+  };
+
+  const processBuffer = (isFinal: boolean): ServerSentEvent[] => {
+    const events: ServerSentEvent[] = [];
+    let start = 0;
+
+    for (let i = 0; i < buffer.length; i++) {
+      const char = buffer[i];
+      if (char !== '\n' && char !== '\r') continue;
+
+      // A CR at the end of the text may be the first half of a CRLF
+      if (char === '\r' && i === buffer.length - 1 && !isFinal) break;
+
+      processLine(buffer.slice(start, i), events);
+      if (char === '\r' && buffer[i + 1] === '\n') i++;
+      start = i + 1;
+    }
+
+    buffer = buffer.slice(start);
+    return events;
+  };
+
+  return {
+    push(text: string) {
+      buffer += text;
+      return processBuffer(false);
+    },
+    end() {
+      const events = processBuffer(true);
+
+      // Be lenient with servers that close without the final blank line
+      if (buffer) {
+        processLine(buffer, events);
+        buffer = '';
+      }
+      dispatch(events);
+      return events;
+    }
+  };
+}
+
+/**
+ * Read the events of a response body as they arrive
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const sseDecoder = createSSEDecoder();
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      // stream: true keeps multibyte characters split across chunks intact
+      for (const event of sseDecoder.push(decoder.decode(value, { stream: true }))) {
+        yield event;
+      }
+    }
+
+    const remaining = [...sseDecoder.push(decoder.decode()), ...sseDecoder.end()];
+    for (const event of remaining) {
+      yield event;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Encode an event in the text/event-stream format
+ */
+export function encodeServerSentEvent(event: Partial<ServerSentEvent> & { data: string }): string {
+  let text = '';
+  if (event.event) text += `event: ${event.event}\n`;
+  if (event.id !== undefined) text += `id: ${event.id}\n`;
+  if (event.retry !== undefined) text += `retry: ${event.retry}\n`;
+  for (const line of event.data.split(/\r\n|\r|\n/)) {
+    text += `data: ${line}\n`;
+  }
+  return `${text}\n`;
+}
+
+export const sse = {
+  createSSEDecoder,
+  readServerSentEvents,
+  encodeServerSentEvent
+};
+
+export default sse;
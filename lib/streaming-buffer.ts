@@ -0,0 +1,105 @@
+/**
+ * Streaming buffer
+ * Text of a reply that is being streamed is collected here and published at
+ * most once per animation frame to a single streaming-message slot. Only the
+ * component showing that message subscribes to the slot, so tokens don't go
+ * through the chat store's state; the store commits the final text once.
+ */
+
+/**
+ * The message being streamed and its text so far
+ */
+export type StreamingMessage = {
+  chatId: string;
+  messageId: string;
+  content: string;
+};
+
+/**
+ * Collects the text of one streamed message
+ */
+export type StreamingBuffer = {
+  /** Text received so far, including what hasn't been published yet */
+  readonly content: string;
+  append: (delta: string) => void;
+  replace: (content: string) => void;
+  /** Stop publishing and empty the slot; returns the final text */
+  close: () => string;
+};
+
+let streamingMessage: StreamingMessage | null = null;
+const listeners = new Set<() => void>();
+
+function setStreamingMessage(message: StreamingMessage | null): void {
+  streamingMessage = message;
+  listeners.forEach(listener => listener());
+}
+
+/**
+ * Subscribe to changes of the streaming-message slot
+ */
+export function subscribeToStreamingMessage(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * The message currently being streamed, if any
+ */
+export function getStreamingMessage(): StreamingMessage | null {
+  return streamingMessage;
+}
+
+/**
+ * Start buffering the text of a streamed message
+ */
+export function createStreamingBuffer(chatId: string, messageId: string): StreamingBuffer {
+  let content = '';
+  let frame: number | null = null;
+
+  const publish = () => {
+    frame = null;
+    setStreamingMessage({ chatId, messageId, content });
+  };
+
+  // Animation frames don't run in hidden tabs, the text is published when it's shown again
+  const schedulePublish = () => {
+    if (frame === null) {
+      frame = requestAnimationFrame(publish);
+    }
+  };
+
+  return {
+    get content() {
+      return content;
+    },
+    append(delta: string) {
+      content += delta;
+      schedulePublish();
+    },
+    replace(next: string) {
+      content = next;
+      schedulePublish();
+    },
+    close() {
+      if (frame !== null) {
+        cancelAnimationFrame(frame);
+        frame = null;
+      }
+      if (streamingMessage?.messageId === messageId) {
+        setStreamingMessage(null);
+      }
+      return content;
+    }
+  };
+}
+
+export const streamingBuffer = {
+  subscribeToStreamingMessage,
+  getStreamingMessage,
+  createStreamingBuffer
+};
+
+export default streamingBuffer;
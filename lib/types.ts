@@ -4,6 +4,58 @@ export type Message = {
   role: 'user' | 'assistant' | 'system';
   createdAt: Date;
   isPinned?: boolean;
+  /** Message this one replies to, null for the first message of a chat */
+  parentId?: string | null;
+  /** How an assistant reply was generated */
+  generation?: GenerationMetadata;
+  /** System message of a request that was not sent because it would exceed a budget */
+  blockedByBudget?: boolean;
+  /** System message shown to the user only (errors, missing keys), never sent to the model */
+  isNotice?: boolean;
+};
+
+/**
+ * Model, token usage and timing of a generated reply
+ */
+export type GenerationMetadata = {
+  model: AIModel;
+  /** ID of the provider adapter that served the request */
+  provider: string;
+  /** Token counts reported by the provider, missing when it reports none */
+  promptTokens?: number;
+  completionTokens?: number;
+  /** Milliseconds from sending the request to the first token */
+  timeToFirstToken?: number;
+  /** Milliseconds from sending the request to the end of the reply */
+  latency: number;
+  /** Reason reported by the provider ('stop', 'length', ...), or 'aborted' / 'error' */
+  finishReason?: string;
+  /** Model settings the request was sent with */
+  settings: Partial<ModelSettings>;
+};
+
+/**
+ * Tokens and cost of one generated reply or summary, kept for the usage
+ * dashboard even after the reply or its chat is deleted
+ */
+export type UsageRecord = {
+  /** ID of the reply, or a generated ID for a summary request */
+  id: string;
+  chatId: string;
+  /** Folder of the chat when the reply was generated */
+  folderId?: string;
+  /** Profile that was active when the reply was generated */
+  profileId?: string;
+  model: AIModel;
+  /** ID of the provider adapter that served the request */
+  provider: string;
+  promptTokens: number;
+  completionTokens: number;
+  /** Whether the token counts are estimates because the provider reported none */
+  estimated: boolean;
+  /** USD at the prices when the reply was generated, null when the model's price is unknown */
+  cost: number | null;
+  createdAt: Date;
 };
 
 export type Folder = {
@@ -13,6 +65,8 @@ export type Folder = {
   updatedAt: Date;
   chatIds: string[];
   isEditing?: boolean;
+  /** Key used for chats in the folder, by provider ID */
+  apiKeyIds?: Record<string, string>;
 };
 
 export type Chat = {
@@ -25,6 +79,51 @@ export type Chat = {
   folderId?: string;
   favorite?: boolean;
   pinnedMessageIds?: string[];
+  /** Selected child at each branch point, keyed by parent message ID ('root' for the first message) */
+  activeBranches?: Record<string, string>;
+  /** Rolling summary of older messages, used by the 'summarize' context strategy */
+  summary?: ChatSummary;
+  /** Chat and message this chat was forked from */
+  forkedFrom?: ChatForkOrigin;
+  /** Conversation this chat was imported from */
+  importedFrom?: ChatImportOrigin;
+};
+
+/**
+ * Apps whose conversation exports can be imported
+ */
+export type ImportSource = 'chatgpt' | 'claude';
+
+/**
+ * The original of an imported chat, used to recognize it on re-import
+ */
+export type ChatImportOrigin = {
+  source: ImportSource;
+  id: string;
+  /** Last update of the conversation in the source app */
+  updatedAt: Date;
+};
+
+/**
+ * Where a forked chat was branched off
+ */
+export type ChatForkOrigin = {
+  chatId: string;
+  messageId: string;
+};
+
+/**
+ * Cached summary of the oldest messages of a chat
+ */
+export type ChatSummary = {
+  content: string;
+  /** ID of the newest message folded into the summary */
+  lastMessageId: string;
+  messageCount: number;
+  /** Fingerprint of the summarized messages, changes when one of them is edited */
+  fingerprint: string;
+  model: AIModel;
+  createdAt: Date;
 };
 
 export type AIModel =
@@ -33,20 +132,85 @@ export type AIModel =
   | 'gpt-45-preview'
   | 'claude-3-sonnet'
   | 'claude-3-sonnet-reasoning'
-  | 'gemini-flash-2';
+  | 'gemini-flash-2'
+  | `openai/${string}`
+  | `anthropic/${string}`
+  | `gemini/${string}`
+  | `custom:${string}`
+  | `local:${string}`;
+
+/**
+ * Model registry entry describing what a model supports
+ * `category` is the ID of the provider adapter that serves the model and
+ * `upstreamId` is the model name sent to the provider's API.
+ */
+export type ModelInfo = {
+  id: AIModel;
+  name: string;
+  icon: string;
+  category: string;
+  upstreamId: string;
+  /** Maximum number of input and output tokens */
+  contextWindow: number;
+  /** Maximum number of tokens the model can generate in one response */
+  maxOutputTokens: number;
+  supportsVision: boolean;
+  supportsTools: boolean;
+  supportsReasoning: boolean;
+  /** USD per million tokens, unknown for self-hosted models */
+  pricing?: {
+    input: number;
+    output: number;
+  };
+};
 
-export const AI_MODELS = [
+/**
+ * Built-in models offered in the model selector. Models listed live by a
+ * provider, custom endpoint models and local models are added by the model
+ * registry (lib/model-registry.ts).
+ */
+export const AI_MODELS: ModelInfo[] = [
   // OpenAI Models
-  { id: 'gpt-4o', name: 'GPT-4o', icon: 'sparkles', category: 'openai' },
-  { id: 'gpt-4o-mini', name: 'GPT-4o mini', icon: 'sparkles', category: 'openai' },
-  { id: 'gpt-45-preview', name: 'GPT 4.5 Preview', icon: 'sparkles', category: 'openai' },
+  {
+    id: 'gpt-4o', name: 'GPT-4o', icon: 'sparkles', category: 'openai', upstreamId: 'gpt-4o',
+    contextWindow: 128000, maxOutputTokens: 16384,
+    supportsVision: true, supportsTools: true, supportsReasoning: false,
+    pricing: { input: 2.5, output: 10 }
+  },
+  {
+    id: 'gpt-4o-mini', name: 'GPT-4o mini', icon: 'sparkles', category: 'openai', upstreamId: 'gpt-4o-mini',
+    contextWindow: 128000, maxOutputTokens: 16384,
+    supportsVision: true, supportsTools: true, supportsReasoning: false,
+    pricing: { input: 0.15, output: 0.6 }
+  },
+  {
+    id: 'gpt-45-preview', name: 'GPT 4.5 Preview', icon: 'sparkles', category: 'openai', upstreamId: 'gpt-4.5-preview',
+    contextWindow: 128000, maxOutputTokens: 16384,
+    supportsVision: true, supportsTools: true, supportsReasoning: false,
+    pricing: { input: 75, output: 150 }
+  },
 
   // Anthropic Models
-  { id: 'claude-3-sonnet', name: 'Claude Sonnet 3.7', icon: 'bot', category: 'anthropic' },
-  { id: 'claude-3-sonnet-reasoning', name: 'Claude Sonnet 3.7 (Reasoning)', icon: 'bot', category: 'anthropic' },
+  {
+    id: 'claude-3-sonnet', name: 'Claude Sonnet 3.7', icon: 'bot', category: 'anthropic', upstreamId: 'claude-3-7-sonnet-20250219',
+    contextWindow: 200000, maxOutputTokens: 64000,
+    supportsVision: true, supportsTools: true, supportsReasoning: false,
+    pricing: { input: 3, output: 15 }
+  },
+  {
+    id: 'claude-3-sonnet-reasoning', name: 'Claude Sonnet 3.7 (Reasoning)', icon: 'bot', category: 'anthropic', upstreamId: 'claude-3-7-sonnet-20250219',
+    contextWindow: 200000, maxOutputTokens: 64000,
+    supportsVision: true, supportsTools: true, supportsReasoning: true,
+    pricing: { input: 3, output: 15 }
+  },
 
   // Google Models
-  { id: 'gemini-flash-2', name: 'Gemini Flash 2', icon: 'atom', category: 'gemini' }
+  {
+    id: 'gemini-flash-2', name: 'Gemini Flash 2', icon: 'atom', category: 'gemini', upstreamId: 'gemini-2.0-flash',
+    contextWindow: 1048576, maxOutputTokens: 8192,
+    supportsVision: true, supportsTools: true, supportsReasoning: false,
+    pricing: { input: 0.1, output: 0.4 }
+  }
 ];
 
 /**
@@ -61,6 +225,8 @@ export type UserProfile = {
   customInstruction?: string;
   createdAt: Date;
   updatedAt: Date;
+  /** Key used while the profile is active, by provider ID; a folder's choice wins */
+  apiKeyIds?: Record<string, string>;
   preferences?: {
     theme?: string;
     fontSize?: string;
@@ -127,6 +293,12 @@ export const DEFAULT_SETTINGS: Settings = {
 // Storage types
 export type StorageKey = string;
 
+/**
+ * How messages that don't fit the context window are handled:
+ * 'basic' drops them, 'summarize' replaces them with a rolling summary
+ */
+export type ContextStrategy = 'basic' | 'summarize';
+
 export interface ModelSettings {
   temperature: number;
   presencePenalty: number;
@@ -134,14 +306,14 @@ export interface ModelSettings {
   topP: number;
   topK: number;
   maxTokens: number;
-  contextLimit: 'all' | 'last1' | 'last5' | 'last10' | 'last20';
+  contextLimit: 'all' | 'last1' | 'last5' | 'last10' | 'last20' | 'last50' | 'last100';
   streamResponses: boolean;
   promptCaching: boolean;
   reasoningEffort: number;
   reasoningEnabled: boolean;
   systemPrompt: string;
   contextLength: number;
-  contextStrategy: string;
+  contextStrategy: ContextStrategy;
   defaultModel: AIModel;
   enabledPlugins: string[];
   safetySettings: {
@@ -153,10 +325,49 @@ export interface ModelSettings {
   };
 }
 
+/**
+ * The default key of each provider
+ */
 export interface ApiKeys {
   openai?: string;
   anthropic?: string;
   gemini?: string;
   firecrawl?: string;
   [key: string]: string | undefined;
-}
\ No newline at end of file
+}
+
+/**
+ * One of the keys stored for a provider, e.g. a personal and a project key
+ */
+export type LabeledApiKey = {
+  id: string;
+  label: string;
+  key: string;
+};
+
+/**
+ * Every stored key of each provider, the first one is the default
+ */
+export type ApiKeyring = Record<string, LabeledApiKey[]>;
+
+/**
+ * How requests choose among a provider's keys
+ * - off: always the default (or picked) key
+ * - failover: the default (or picked) key, then the next ones when a key is rejected (401), rate limited (429) or fails while streaming
+ * - round-robin: a different key on each request, failing over like failover
+ */
+export type KeyRotation = 'off' | 'failover' | 'round-robin';
+
+/**
+ * User-defined OpenAI-compatible endpoint (vLLM, LiteLLM, ...)
+ * The endpoint's API key is stored with the other keys under its ID
+ */
+export type CustomProvider = {
+  id: `custom:${string}`;
+  name: string;
+  baseUrl: string;
+  headers?: Record<string, string>;
+  models: string[];
+  createdAt: Date;
+  updatedAt: Date;
+};
@@ -0,0 +1,153 @@
+/**
+ * Usage tracking
+ * Every generated reply leaves a usage record with its token counts and cost
+ * at the model's price. Records are kept in IndexedDB independently of the
+ * chats and aggregated for the usage dashboard.
+ */
+
+import { chatDB } from './chat-db';
+import { downloadFile } from './chat-export';
+import { UsageRecord } from './types';
+
+/**
+ * Event dispatched on window after a usage record was saved
+ */
+export const USAGE_RECORDED_EVENT = 'usageRecorded';
+
+export type UsageGroupBy = 'day' | 'provider' | 'model' | 'folder' | 'profile';
+
+/**
+ * Summed usage of a set of records
+ */
+export type UsageTotals = {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  /** USD of the records with a known price */
+  cost: number;
+  /** Records whose model has no known price */
+  unpricedRequests: number;
+};
+
+export type UsageGroup = UsageTotals & {
+  key: string;
+};
+
+/**
+ * Save the usage of a reply and notify open views
+ */
+export async function recordUsage(record: UsageRecord): Promise<void> {
+  await chatDB.saveUsageRecord(record);
+  window.dispatchEvent(new CustomEvent(USAGE_RECORDED_EVENT, { detail: record }));
+}
+
+/**
+ * Local calendar day of a date as YYYY-MM-DD
+ */
+export function getDayKey(date: Date): string {
+  const day = new Date(date);
+  const month = (day.getMonth() + 1).toString().padStart(2, '0');
+  return `${day.getFullYear()}-${month}-${day.getDate().toString().padStart(2, '0')}`;
+}
+
+function emptyTotals(): UsageTotals {
+  return { requests: 0, promptTokens: 0, completionTokens: 0, cost: 0, unpricedRequests: 0 };
+}
+
+function addRecord(totals: UsageTotals, record: UsageRecord): void {
+  totals.requests++;
+  totals.promptTokens += record.promptTokens;
+  totals.completionTokens += record.completionTokens;
+  if (record.cost === null) {
+    totals.unpricedRequests++;
+  } else {
+    totals.cost += record.cost;
+  }
+}
+
+/**
+ * Sum the usage of records
+ */
+export function sumUsage(records: UsageRecord[]): UsageTotals {
+  const totals = emptyTotals();
+  records.forEach(record => addRecord(totals, record));
+  return totals;
+}
+
+/**
+ * Sum the usage of records per key, most expensive first
+ */
+export function groupUsage(records: UsageRecord[], getKey: (record: UsageRecord) => string): UsageGroup[] {
+  const groups = new Map<string, UsageGroup>();
+
+  for (const record of records) {
+    const key = getKey(record);
+    if (!groups.has(key)) {
+      groups.set(key, { key, ...emptyTotals() });
+    }
+    addRecord(groups.get(key)!, record);
+  }
+
+  return Array.from(groups.values()).sort((a, b) => b.cost - a.cost || b.requests - a.requests);
+}
+
+/**
+ * Quote a CSV field when it contains a separator, quote or line break
+ */
+function toCSVField(value: string | number | boolean | null | undefined): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Names shown instead of IDs in the CSV export
+ */
+export type UsageLabels = {
+  chat: (chatId: string) => string;
+  folder: (record: UsageRecord) => string;
+  profile: (record: UsageRecord) => string;
+  model: (model: string) => string;
+};
+
+/**
+ * One CSV row per record
+ */
+export function toUsageCSV(records: UsageRecord[], labels: UsageLabels): string {
+  const header = [
+    'Date', 'Provider', 'Model', 'Folder', 'Profile', 'Chat',
+    'Prompt tokens', 'Completion tokens', 'Estimated', 'Cost (USD)'
+  ];
+
+  const rows = records.map(record => [
+    new Date(record.createdAt).toISOString(),
+    record.provider,
+    labels.model(record.model),
+    labels.folder(record),
+    labels.profile(record),
+    labels.chat(record.chatId),
+    record.promptTokens,
+    record.completionTokens,
+    record.estimated,
+    record.cost === null ? '' : record.cost.toFixed(6)
+  ]);
+
+  return [header, ...rows].map(row => row.map(toCSVField).join(',')).join('\r\n');
+}
+
+/**
+ * Download records as a CSV file
+ */
+export function exportUsageCSV(records: UsageRecord[], labels: UsageLabels, fileName: string): void {
+  downloadFile(fileName, toUsageCSV(records, labels), 'text/csv');
+}
+
+export const usage = {
+  recordUsage,
+  getDayKey,
+  sumUsage,
+  groupUsage,
+  toUsageCSV,
+  exportUsageCSV
+};
+
+export default usage;
@@ -0,0 +1,17 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, '.')
+    }
+  },
+  test: {
+    // localStorage and window events, IndexedDB comes from fake-indexeddb
+    environment: 'happy-dom',
+    setupFiles: ['./vitest.setup.ts'],
+    include: ['**/*.test.ts'],
+    exclude: ['node_modules/**', '.next/**']
+  }
+});
@@ -0,0 +1,7 @@
+import 'fake-indexeddb/auto';
+import { afterEach } from 'vitest';
+
+// Tests share the global localStorage
+afterEach(() => {
+  localStorage.clear();
+});